@@ -3,136 +3,262 @@
  *
  * Architecture:
  * - Single-process script: calls LLM directly via TanStack AI's chat() with tools
- * - Tools run in-process with a shared Playwright browser singleton
+ * - Tools run in-process with a shared Playwright browser, on the page of the
+ *   browser session chat() hands them; each step running side by side
+ *   (--concurrency) gets a session of its own
  * - No server/client split, no SSE, no sessions — just a direct agent loop
  * - Stream chunks used for real-time logging and state tracking
  *
  * Usage:
  *   npm run agent [-- [challenge-url] [--provider <id>] [--model <name>]]
  *   npm run agent:headed [-- [challenge-url] [--provider <id>] [--model <name>]]
+ *   npm run agent [-- --ladder <provider:model,...>] [--config <file.json>]
+ *   npm run agent [-- --profile fast|thorough|ci]   a named profile from agent.config.json
+ *   npm run agent [-- --print-config]   show the resolved settings and where each came from
+ *   npm run agent [-- --help]           list every option and its AGENT_* environment variable
+ *   npm run agent [-- --record <dir>]   save model streams + tool I/O per attempt
+ *   npm run agent [-- --replay <dir>]   re-run the orchestrator offline from a recording
+ *   npm run agent [-- --fixtures]       run against the bundled offline fixture site
+ *   npm run agent [-- --report <file.json>] [--junit <file.xml>]   machine-readable run report
+ *   npm run bench [-- --repeat 10 --steps 1-12] [--bench-out <file.json>] [--baseline <file.json>]
+ *   npm run agent [-- --steps 3,7,12-15] [--versions 1,2,3]   step × version matrix, fresh browser per pair
+ *   npm run agent [-- --concurrency 4] [--steps 1-12]   run matrix pairs side by side, logs prefixed by step
+ *   npm run agent [-- --experiment <experiment.json>] [--repeat N] [--steps 1-5]   A/B prompt/tool/ladder variants
+ *   npm run agent [-- --checkpoint <file.json>]   where to save progress after each solved step
+ *   npm run agent [-- --resume <file.json>]       continue a crashed/aborted run from its checkpoint
+ *   npm run agent [-- --max-cost <usd>] [--max-tokens-per-step <n>]   stop spending past a budget
+ *   npm run agent [-- --no-fast-path]   always call the model (skip the orchestrator's own scan + submit)
+ *   npm run agent [-- --no-rewind]      retry on the page as the failed attempt left it (no step snapshot)
+ *   npm run agent [-- --stall-seconds 45] [--stall-retries 2]   reissue model calls that stop sending chunks (0s = off)
+ *   npm run agent [-- --provider-retries 4]   retries for rate limits, overload, 5xx and dropped connections
+ *   npm test                            unit tests, plus a replay of tests/fixtures/replay-step3 (offline)
+ *
+ * Settings resolve as defaults < agent.config.json < --profile < AGENT_*
+ * environment < flags (see orchestrator/config.ts); unknown or invalid options
+ * are errors.
+ *
+ * Ctrl-C (or SIGTERM) ends the current attempt, writes the summary, report,
+ * checkpoint and a screenshot of the step, and closes the browser; press it
+ * again to exit at once.
  *
  * Examples:
  *   npm run agent:headed
  *   npm run agent:headed -- --provider openai --model gpt-4o
  *   npm run agent:headed -- https://example.com --provider anthropic --model claude-opus-4-6
+ *   npm run agent:headed -- --ladder anthropic:claude-haiku-4-5,anthropic:claude-opus-4-6
  */
-import { chat, maxIterations } from "@tanstack/ai"
+import path from "node:path"
+import { chat, maxIterations, type StreamChunk } from "@tanstack/ai"
 import { anthropicText } from "@tanstack/ai-anthropic"
 import { openaiText } from "@tanstack/ai-openai"
 import { createOpenCodeAnthropicAdapter } from "./auth/opencode-adapter"
 import { createOpenCodeOpenAIAdapter } from "./auth/opencode-openai-adapter"
 
 // Tool imports
-import { scanPageForCode } from "./tools/scan-page"
-import { enterCode } from "./tools/enter-code"
+import { scanPage, scanPageForCode } from "./tools/scan-page"
+import { enterCode, submitCode } from "./tools/enter-code"
 import { evaluateJs, multiAction, clickElement, getPageHtml, pressKey, scroll, selectOption, checkCheckbox, hover } from "./tools/page"
 import { dragAndDrop } from "./tools/drag-and-drop"
 import { escalate } from "./tools/escalate"
 import { getUrl } from "./tools/get-url"
 import { getModalButtons } from "./tools/modal"
-import { closeBrowser } from "./tools/browser"
-
-// ---- CLI argument parsing ----
-function parseArgs(argv: string[]): {
-  url: string;
-  provider: string;
-  model: string;
-  adapter: "auto" | "opencode" | "env";
-  step: number | null;
-  only: boolean;
-  version: string;
-  versionProvided: boolean;
-  debugToolInputs: boolean;
-  verbose: boolean;
-  debugChunks: boolean;
-  timeoutSeconds: number;
-} {
-  const args = argv.slice(2); // skip node + script
-  let url = "";
-  let provider = "anthropic";
-let model = "claude-opus-4-6";
-  let adapter: "auto" | "opencode" | "env" = "auto";
-  let step: number | null = null;
-  let only = false;
-  let version = "2";
-  let versionProvided = false;
-  let debugToolInputs = false;
-  let verbose = false;
-  let debugChunks = false;
-  let timeoutSeconds = 180;
-
-  for (let i = 0; i < args.length; i++) {
-    if (args[i] === "--provider" && i + 1 < args.length) {
-      provider = args[++i];
-    } else if (args[i] === "--model" && i + 1 < args.length) {
-      model = args[++i];
-    } else if (args[i] === "--adapter" && i + 1 < args.length) {
-      const value = args[++i] as "auto" | "opencode" | "env";
-      if (value === "auto" || value === "opencode" || value === "env") {
-        adapter = value;
-      }
-    } else if (args[i] === "--step" && i + 1 < args.length) {
-      step = parseInt(args[++i], 10);
-    } else if (args[i] === "--only") {
-      only = true;
-    } else if (args[i] === "--version" && i + 1 < args.length) {
-      version = args[++i];
-      versionProvided = true;
-    } else if (args[i] === "--debug-tool-inputs") {
-      debugToolInputs = true;
-    } else if (args[i] === "--verbose") {
-      verbose = true;
-    } else if (args[i] === "--debug-chunks") {
-      debugChunks = true;
-    } else if (args[i] === "--timeout-seconds" && i + 1 < args.length) {
-      const parsedTimeout = parseInt(args[++i], 10);
-      if (!Number.isNaN(parsedTimeout) && parsedTimeout > 0) {
-        timeoutSeconds = parsedTimeout;
-      }
-    } else if (!args[i].startsWith("--")) {
-      url = args[i];
-    }
-  }
+import { closeBrowser, createBrowserSession, defaultBrowserSession, type BrowserSession, type ToolContext } from "./tools/browser"
+import { jumpToStep, parseStepUrl, restoreStep } from "./tools/step-nav"
+import { watchForRegression } from "./tools/step-watch"
+import { withNavigationGuard } from "./tools/nav-guard"
+import { captureStepSnapshot, freshStepSnapshot, restoreStepSnapshot, type StepSnapshot } from "./tools/step-snapshot"
+import { readPageFeatures } from "./tools/page-features"
+import { executeTool, formatToolResult, withFormattedResults } from "./tools/index"
+import type { CodeCandidate, NamedToolResult, ToolResult } from "./tools/types"
+import type { ToolCallContext } from "./tools/cancel"
+import { resolveLadder, formatRung, type AdapterMode, type ModelRung, type PromptVariant, type ToolSetName } from "./orchestrator/ladder"
+import { createRecorder, loadReplay, type RecordedAttempt, type RunRecorder, type RunReplay } from "./orchestrator/recording"
+import { startFixtureServer, type FixtureServer } from "./fixtures/server"
+import { buildRunReport, countEscalations, writeRunReport, type AttemptOutcome, type AttemptReport, type TokenUsage } from "./orchestrator/report"
+import { createBenchResult, formatBenchTable, loadBenchResult, saveBenchResult, type BenchResult, type BenchSample } from "./orchestrator/bench"
+import { parseStepList, parseVersionList, stepUrl } from "./orchestrator/steps"
+import { formatMatrixTable, type MatrixCell } from "./orchestrator/matrix"
+import { currentLane, prefixLaneLogs, runInLane, runPool } from "./orchestrator/lanes"
+import { DEFAULT_CHECKPOINT_PATH, loadCheckpoint, saveCheckpoint, type RunCheckpoint } from "./orchestrator/checkpoint"
+import { createToolWork, DEFAULT_TOOL_TIMEOUTS, withToolTimeouts, type ToolTimeouts, type ToolWork } from "./orchestrator/tool-timeouts"
+import { createBudget, DEFAULT_PRICES, estimateCost, formatCost, type Budget, type PriceTable } from "./orchestrator/cost"
+import { formatSettings, formatUsage, loadConfigSections, resolveSettings, type ConfigSections, type ResolvedSettings, type RunSettings } from "./orchestrator/config"
+import { createStreamNormalizer } from "./orchestrator/stream-events"
+import { installShutdownHandlers } from "./orchestrator/shutdown"
+import { StreamStallError, withStallWatchdog, type StallEvent } from "./orchestrator/stall-watchdog"
+import { backoff, classifyProviderError, retryDelay, withProviderRetry, type ProviderError, type ProviderErrorKind } from "./orchestrator/provider-retry"
+import { latestRetryHint, runWithOwnRetryHints } from "./auth/retry-hints"
+import { CHALLENGE_PROFILES, classifyChallenge, isConfident, routeRung, selectPlaybooks, selectTools, type ChallengeClassification } from "./orchestrator/classifier"
+import { createToolPolicy, resolveToolPolicy, withToolPolicy } from "./orchestrator/tool-policy"
+import { FAST_PATH_ATTEMPT, FAST_PATH_RUNG, pickConfidentCode, scoreCandidates } from "./orchestrator/fast-path"
+import { createAttemptLog, formatRetryContext, type AttemptSummary } from "./orchestrator/attempt-summary"
+import { formatExperimentSummary, loadExperiment, saveExperimentResult, summarizeExperiment, type ExperimentConfig, type PromptSections } from "./orchestrator/experiment"
+
+// ---- Run settings: defaults < agent.config.json < --profile < AGENT_* env < flags (see orchestrator/config.ts) ----
+let RESOLVED: ResolvedSettings;
+try {
+  RESOLVED = resolveSettings(process.argv.slice(2), process.env);
+} catch (err: any) {
+  console.error(`\x1b[31m${err.message}\x1b[0m`);
+  process.exit(1);
+}
+for (const warning of RESOLVED.warnings) {
+  console.error(`\x1b[33m${warning}\x1b[0m`);
+}
+if (RESOLVED.help) {
+  console.log(formatUsage());
+  process.exit(0);
+}
 
-  // --only implies --step must be set; if --step is set, --only is the default
-  if (step !== null) {
-    only = true;
-  }
+type ParsedArgs = RunSettings;
 
-  return {
-    url: url || "https://serene-frangipane-7fd25b.netlify.app/",
-    provider,
-    model,
-    adapter,
-    step,
-    only,
-    version,
-    versionProvided,
-    debugToolInputs,
-    verbose,
-    debugChunks,
-    timeoutSeconds,
-  };
-}
+const cliArgs = RESOLVED.settings;
 
-const parsed = parseArgs(process.argv);
+// In replay mode the run settings come from the recording so the orchestrator
+// makes the same decisions; only display flags are taken from this invocation.
+let REPLAY: RunReplay<ParsedArgs> | null = null;
+if (cliArgs.replay) {
+  try {
+    REPLAY = loadReplay<ParsedArgs>(cliArgs.replay);
+  } catch (err: any) {
+    console.error(`\x1b[31m${err.message}\x1b[0m`);
+    process.exit(1);
+  }
+}
+// Resuming works the same way: settings come from the checkpoint, and the
+// report keeps going to the original files unless new ones are given.
+let RESUME: RunCheckpoint<ParsedArgs> | null = null;
+if (cliArgs.resume && !REPLAY) {
+  try {
+    RESUME = loadCheckpoint<ParsedArgs>(cliArgs.resume);
+  } catch (err: any) {
+    console.error(`\x1b[31m${err.message}\x1b[0m`);
+    process.exit(1);
+  }
+}
+const parsed: ParsedArgs = REPLAY
+  ? {
+      ...REPLAY.manifest.args,
+      verbose: cliArgs.verbose,
+      debugChunks: cliArgs.debugChunks,
+      record: cliArgs.record,
+      replay: cliArgs.replay,
+      report: cliArgs.report,
+      junit: cliArgs.junit,
+      benchOut: cliArgs.benchOut,
+      baseline: cliArgs.baseline,
+      maxCost: cliArgs.maxCost ?? REPLAY.manifest.args.maxCost ?? null,
+      maxTokensPerStep: cliArgs.maxTokensPerStep ?? REPLAY.manifest.args.maxTokensPerStep ?? null,
+      // Recordings from before the fast path existed have no fast-path attempts
+      fastPath: REPLAY.manifest.args.fastPath ?? true,
+      // ...and ones from before the stall watchdog have no stalls
+      stallRetries: REPLAY.manifest.args.stallRetries ?? 0,
+      providerRetries: REPLAY.manifest.args.providerRetries ?? 0,
+      // ...and ones from before config files used the then-fixed limits
+      profile: REPLAY.manifest.args.profile ?? null,
+      maxChallenges: REPLAY.manifest.args.maxChallenges ?? 35,
+      maxIterations: REPLAY.manifest.args.maxIterations ?? 20,
+      heartbeatSeconds: cliArgs.heartbeatSeconds,
+      versions: REPLAY.manifest.args.versions ?? null,
+      // Concurrent runs are recorded in pair order and replay one pair at a time
+      concurrency: 1,
+    }
+  : RESUME
+    ? {
+        ...RESUME.args,
+        verbose: cliArgs.verbose,
+        debugChunks: cliArgs.debugChunks,
+        record: cliArgs.record,
+        resume: cliArgs.resume,
+        checkpoint: cliArgs.checkpoint ?? cliArgs.resume,
+        report: cliArgs.report ?? RESUME.args.report,
+        junit: cliArgs.junit ?? RESUME.args.junit,
+        maxCost: cliArgs.maxCost ?? RESUME.args.maxCost ?? null,
+        maxTokensPerStep: cliArgs.maxTokensPerStep ?? RESUME.args.maxTokensPerStep ?? null,
+        fastPath: cliArgs.fastPath && (RESUME.args.fastPath ?? true),
+        rewind: cliArgs.rewind && (RESUME.args.rewind ?? true),
+        stallSeconds: RESUME.args.stallSeconds ?? cliArgs.stallSeconds,
+        stallRetries: RESUME.args.stallRetries ?? cliArgs.stallRetries,
+        providerRetries: RESUME.args.providerRetries ?? cliArgs.providerRetries,
+        profile: RESUME.args.profile ?? null,
+        maxChallenges: RESUME.args.maxChallenges ?? cliArgs.maxChallenges,
+        maxIterations: RESUME.args.maxIterations ?? cliArgs.maxIterations,
+        heartbeatSeconds: cliArgs.heartbeatSeconds,
+        versions: RESUME.args.versions ?? null,
+        concurrency: RESUME.args.concurrency ?? 1,
+      }
+    : cliArgs;
 let CHALLENGE_URL = parsed.url;
-const MAX_CHALLENGES = 35;
+const MAX_CHALLENGES = parsed.maxChallenges;
 const TARGET_STEP = parsed.step;
 
-const MODEL_LADDER = [
-  {
-    providerID: parsed.provider,
-    modelID: parsed.model,
-  },
-];
+// The config file's ladder, prices and toolTimeouts, with the profile's applied
+let CONFIG_SECTIONS: ConfigSections = { ladder: null, prices: null, toolTimeouts: null };
+try {
+  if (parsed.config) CONFIG_SECTIONS = loadConfigSections(parsed.config, parsed.profile, parsed.adapter);
+} catch (err: any) {
+  console.error(`\x1b[31m${err.message}\x1b[0m`);
+  process.exit(1);
+}
+
+let MODEL_LADDER: ModelRung[];
+try {
+  MODEL_LADDER = REPLAY
+    ? REPLAY.manifest.ladder
+    : RESUME
+      ? RESUME.ladder
+      : resolveLadder({ ...parsed, configLadder: CONFIG_SECTIONS.ladder });
+} catch (err: any) {
+  console.error(`\x1b[31m${err.message}\x1b[0m`);
+  process.exit(1);
+}
+
+let STEP_LIST: number[] | null = null;
+// Challenge versions of a step matrix (see orchestrator/matrix.ts)
+let VERSION_LIST: string[] | null = null;
+try {
+  STEP_LIST = parsed.steps ? parseStepList(parsed.steps) : null;
+  VERSION_LIST = parsed.versions ? parseVersionList(parsed.versions) : null;
+  if (VERSION_LIST && (parsed.bench || parsed.experiment)) {
+    throw new Error("--versions runs a step matrix; bench and experiment runs use --version");
+  }
+  // Timings of steps sharing the machine would measure the contention
+  if (parsed.concurrency > 1 && (parsed.bench || parsed.experiment)) {
+    throw new Error("--concurrency runs a step matrix; bench and experiment runs take one step at a time");
+  }
+} catch (err: any) {
+  console.error(`\x1b[31m${err.message}\x1b[0m`);
+  process.exit(1);
+}
+
+// Built-in prices and tool timeouts, overridden by the config file's sections
+const PRICES: PriceTable = { ...DEFAULT_PRICES, ...CONFIG_SECTIONS.prices };
+const TOOL_TIMEOUTS: ToolTimeouts = { ...DEFAULT_TOOL_TIMEOUTS, ...CONFIG_SECTIONS.toolTimeouts };
+
+// Tool work still running after its call returned (timed out or cancelled)
+const TOOL_WORK = createToolWork();
+// Steps running side by side have their own (see orchestrator/lanes.ts)
+const toolWork = (): ToolWork => currentLane()?.toolWork ?? TOOL_WORK;
+const browserSession = (): BrowserSession => currentLane()?.browser ?? defaultBrowserSession;
+const TOOL_SETTLE_MS = 5000;
+// The first SIGINT/SIGTERM ends the current attempt and wraps the run up; a second one exits at once
+const SHUTDOWN = installShutdownHandlers({
+  onRequest: (signal) =>
+    console.log(yellow(`\n  ${signal} received — stopping after the current attempt (send it again to exit now)`)),
+  onForce: closeBrowser,
+});
+const BUDGET: Budget = createBudget({
+  maxCostUsd: parsed.maxCost,
+  maxTokensPerStep: parsed.maxTokensPerStep,
+  prices: PRICES,
+  spentUsd: RESUME?.attempts.reduce((sum, a) => sum + (a.costUsd ?? 0), 0),
+});
+// ...and their own step token count over the run's spend
+const stepBudget = (): Budget => currentLane()?.budget ?? BUDGET;
 
-function getModelForAttempt(attempt: number): {
-  providerID: string;
-  modelID: string;
-} {
-  const idx = Math.min(attempt, MODEL_LADDER.length - 1);
-  return MODEL_LADDER[idx];
+function getModelForAttempt(attempt: number, ladder = MODEL_LADDER): ModelRung {
+  const idx = Math.min(attempt, ladder.length - 1);
+  return ladder[idx];
 }
 
 const MAX_ATTEMPTS = MODEL_LADDER.length;
@@ -350,22 +476,54 @@ scan_page_for_code, enter_code, get_url, page_evaluate_js, page_multi_action, dr
 - Act immediately. No explanations needed.
 - TOOL CALL BUDGET: You have at most 20 tool calls. Use them wisely.`;
 
-// Assembled prompts
-const SYSTEM_PROMPT_HAIKU = [
-  PROMPT_HEADER,
-  ESCALATION_SECTION,
-  "\n## Challenges you CAN solve (do NOT escalate):",
-  SHARED_PLAYBOOKS,
-  RULES_HAIKU,
-].join("\n");
-
-const SYSTEM_PROMPT_OPUS = [
-  PROMPT_HEADER,
-  "\n## Pattern playbooks (when auto-solve doesn't find the code):",
-  SHARED_PLAYBOOKS,
-  ADVANCED_PLAYBOOKS,
-  RULES_OPUS,
-].join("\n");
+const DEFAULT_PROMPT_SECTIONS: PromptSections = {
+  header: PROMPT_HEADER,
+  escalation: ESCALATION_SECTION,
+  shared: SHARED_PLAYBOOKS,
+  advanced: ADVANCED_PLAYBOOKS,
+  rulesHaiku: RULES_HAIKU,
+  rulesOpus: RULES_OPUS,
+};
+
+/** Assemble a rung's system prompt (experiments pass sections with some swapped).
+ *  A confidently classified step gets only its type's playbooks, plus a note
+ *  naming the type and the tools it was given. */
+function buildSystemPrompt(
+  sections: PromptSections,
+  prompt: PromptVariant,
+  challenge: ChallengeClassification | null = null,
+  toolNames: string[] = [],
+): string {
+  const focus = isConfident(challenge) ? challenge : null;
+  const profile = focus ? CHALLENGE_PROFILES[focus.type] : null;
+  const playbooks = (text: string) => (focus ? selectPlaybooks(text, focus.type) : text);
+  const stepNote = focus
+    ? [
+        `\n## This step: ${profile!.label} challenge`,
+        `Classified from the page (${focus.signals.join(", ") || "no special features"}). ` +
+          `Only the playbooks for this challenge type are included. Tools for this step: ${toolNames.join(", ")}.`,
+      ]
+    : [];
+
+  if (prompt === "haiku") {
+    return [
+      sections.header,
+      // Only steps that may need escalating get the list of what to escalate
+      ...(profile && !profile.hard ? [] : [sections.escalation]),
+      "\n## Challenges you CAN solve (do NOT escalate):",
+      playbooks(sections.shared),
+      sections.rulesHaiku,
+      ...stepNote,
+    ].join("\n");
+  }
+  return [
+    sections.header,
+    "\n## Pattern playbooks (when auto-solve doesn't find the code):",
+    playbooks(`${sections.shared}\n${sections.advanced}`),
+    sections.rulesOpus,
+    ...stepNote,
+  ].join("\n");
+}
 
 // ---- ANSI helpers ----
 const dim = (s: string) => `\x1b[2m${s}\x1b[0m`;
@@ -380,102 +538,59 @@ function truncate(s: string, max = 200): string {
   return s.length <= max ? s : s.substring(0, max) + "...";
 }
 
-function looksLikeErrorOutput(s: string): boolean {
-  const t = s.trim();
-  if (!t) return false;
-  // Tool results are now JSON objects; check for error field
-  if (t.startsWith("{")) {
-    try {
-      const parsed = JSON.parse(t);
-      return !!parsed?.error || !!parsed?.message;
-    } catch {
-      return false;
-    }
-  }
-  if (t.startsWith("Error:")) return true;
-  return false;
-}
-
-/** Extract a human-readable string from a tool result (which is now always JSON) */
-function extractOutputText(outputStr: string): string {
-  try {
-    const parsed = JSON.parse(outputStr);
-    if (parsed?.output) return parsed.output;
-    if (parsed?.result) return typeof parsed.result === "string" ? parsed.result : JSON.stringify(parsed.result);
-    if (parsed?.error) return `Error: ${parsed.error}`;
-    return outputStr;
-  } catch {
-    return outputStr;
-  }
-}
-
-function formatToolOutput(toolName: string, outputStr: string): string {
-  // Tool results are JSON; extract the text content for display
-  const text = extractOutputText(outputStr);
-
-  if (looksLikeErrorOutput(outputStr)) {
-    return text;
+/** Console line for a finished tool call */
+function formatToolOutput(named: NamedToolResult): string {
+  const { name, result } = named;
+  if (!result.success) {
+    return truncate(`Error: ${result.error ?? "tool failed"}`, 220);
   }
 
-  if (toolName === "scan_page_for_code") {
-    // Check for completion status
-    try {
-      const parsed = JSON.parse(outputStr);
-      if (parsed?.status === "COMPLETED") return `STATUS: COMPLETED — ${parsed.message || "All challenges finished!"}`;
-    } catch {}
-    // Fall through to line-based extraction from the output field
-    const lines = text.split("\n");
-    const picked: string[] = [];
-    for (const line of lines) {
-      if (
-        line.startsWith("URL:") ||
-        line.startsWith("Popups dismissed:") ||
-        line.startsWith("Auto:") ||
-        line.includes("STATUS: COMPLETED")
-      ) {
-        picked.push(line);
-      }
-      if (line.trim() === "CODE CANDIDATES:" && picked.length > 0) {
-        picked.push(line);
-      }
-      if (picked.length >= 6) break;
+  if (name === "scan_page_for_code") {
+    const data = result.data;
+    if (data.isCompletion) return "STATUS: COMPLETED — All challenges finished!";
+    const lines = [`URL: ${data.url}`];
+    if (data.popupsDismissed > 0) lines.push(`Popups dismissed: ${data.popupsDismissed}`);
+    if (data.autoActions.length > 0) {
+      lines.push(`Auto: ${data.autoActions.map((a) => `${a.type}(${a.detail})`).join(", ")}`);
     }
-    if (picked.length > 0) return picked.join("\n");
+    lines.push(
+      data.codes.length > 0
+        ? `CODE CANDIDATES: ${data.codes.slice(0, 3).map((c) => c.val).join(", ")}`
+        : "No code candidates found.",
+    );
+    return lines.join("\n");
   }
 
-  if (toolName === "enter_code") {
-    try {
-      const parsed = JSON.parse(outputStr);
-      if (parsed?.status === "OK") return `OK: "${parsed.code}" | ${parsed.newUrl} | urlChanged=${parsed.urlChanged}`;
-    } catch {}
+  if (name === "enter_code") {
+    return `OK: "${result.data.code}" | ${result.data.afterUrl} | urlChanged=${result.data.urlChanged}`;
   }
 
-  return truncate(text, 220);
+  return truncate(formatToolResult(named), 220);
 }
 
-/** Extract a brief summary from tool output for the challenge timeline */
-function briefToolSummary(toolName: string, outputStr: string): string {
-  try {
-    const parsed = typeof outputStr === "string" ? JSON.parse(outputStr) : outputStr;
-    if (parsed?.error) return `error: ${truncate(parsed.error, 60)}`;
-    if (toolName === "scan_page_for_code") {
-      if (parsed?.status === "COMPLETED") return "COMPLETED";
-      const text = parsed?.output || "";
-      const codeMatch = text.match(/CODE CANDIDATES:\n\s+\[([^\]]+)\]\s+(\S+)/);
-      if (codeMatch) return `found: ${codeMatch[2]}`;
-      if (text.includes("No code candidates")) return "no codes found";
-      return "scanned";
-    }
-    if (toolName === "enter_code") {
-      if (parsed?.status === "OK") return `submitted "${parsed.code}" → step ${getStepFromUrl(parsed.newUrl) || "?"}`;
-      return "submitted";
-    }
-    if (toolName === "escalate") return `escalate: ${parsed?.reason || "?"}`;
-    if (toolName === "get_url") return parsed?.url || "got url";
-    if (parsed?.result) return truncate(String(parsed.result), 60);
-    if (parsed?.output) return truncate(String(parsed.output), 60);
-  } catch {}
-  return truncate(outputStr, 60);
+/** Brief summary of a tool call for the challenge timeline */
+function briefToolSummary(named: NamedToolResult): string {
+  const blocked = named.result.blockedNavigation?.length ?? 0;
+  const summary = briefResult(named);
+  return blocked > 0 ? `${summary} [navigation blocked]` : summary;
+}
+
+function briefResult(named: NamedToolResult): string {
+  const { name, result } = named;
+  if (!result.success) return `error: ${truncate(result.error ?? "tool failed", 60)}`;
+  switch (name) {
+    case "scan_page_for_code":
+      if (result.data.isCompletion) return "COMPLETED";
+      return result.data.codes.length > 0 ? `found: ${result.data.codes[0].val}` : "no codes found";
+    case "enter_code":
+      return `submitted "${result.data.code}" → step ${getStepFromUrl(result.data.afterUrl) || "?"}`;
+    case "escalate":
+      return `escalate: ${result.data.reason || "?"}`;
+    case "get_url":
+      return result.data.url;
+    default:
+      return truncate(formatToolResult(named), 60);
+  }
 }
 
 /** Extract step number from URL like /step5?version=2 */
@@ -492,7 +607,7 @@ function getStepFromUrl(url: string): number | null {
 async function createAdapter(
   providerID: string,
   modelID: string,
-  adapterMode: "auto" | "opencode" | "env",
+  adapterMode: AdapterMode,
 ) {
   if (providerID === "anthropic") {
     if (adapterMode === "env") {
@@ -526,6 +641,61 @@ async function createAdapter(
   return anthropicText(modelID as any);
 }
 
+/** Print which credential sources exist for a provider and whether the
+ *  adapter mode can be satisfied. Returns false if the run can't proceed. */
+async function checkAuth(providerID: string, adapterMode: AdapterMode): Promise<boolean> {
+  let hasOpenCodeAuth = false;
+  const hasEnvAuth = providerID === "openai"
+    ? !!process.env.OPENAI_API_KEY
+    : !!process.env.ANTHROPIC_API_KEY;
+
+  if (providerID === "openai") {
+    try {
+      const { loadOpenAIAuth } = await import("./auth/opencode-openai-adapter")
+      const auth = await loadOpenAIAuth()
+      hasOpenCodeAuth = true
+      console.log(
+        `Auth(OpenCode): OpenAI ${auth.type === "oauth" ? "OAuth" : "API key"} ${green("found")}` +
+          (auth.type === "oauth" ? ` (expires: ${new Date((auth as any).expires).toLocaleTimeString()})` : ""),
+      )
+    } catch {
+      console.log(`Auth(OpenCode): OpenAI ${red("missing")}`)
+    }
+    console.log(`Auth(env): OPENAI_API_KEY ${hasEnvAuth ? green("set") : red("missing")}`)
+  } else {
+    try {
+      const { loadAnthropicAuth } = await import("./auth/opencode-auth");
+      const auth = await loadAnthropicAuth();
+      hasOpenCodeAuth = true;
+      console.log(
+        `Auth(OpenCode): Anthropic ${auth.type === "oauth" ? "OAuth" : "API key"} ${green("found")}` +
+          (auth.type === "oauth" ? ` (expires: ${new Date((auth as any).expires).toLocaleTimeString()})` : ""),
+      );
+    } catch {
+      console.log(`Auth(OpenCode): Anthropic ${red("missing")}`)
+    }
+    console.log(`Auth(env): ANTHROPIC_API_KEY ${hasEnvAuth ? green("set") : red("missing")}`)
+  }
+  if (adapterMode === "opencode" && !hasOpenCodeAuth) {
+    console.error(red(`Adapter mode is 'opencode' but OpenCode credentials for ${providerID} were not found.`))
+    return false
+  }
+  if (adapterMode === "env" && !hasEnvAuth) {
+    const envVar = providerID === "openai" ? "OPENAI_API_KEY" : "ANTHROPIC_API_KEY"
+    console.error(red(`Adapter mode is 'env' but ${envVar} is missing.`))
+    return false
+  }
+  if (adapterMode === "auto" && !hasOpenCodeAuth && !hasEnvAuth) {
+    if (providerID === "openai") {
+      console.error(red("No auth found. Connect OpenAI in OpenCode or set OPENAI_API_KEY."))
+    } else {
+      console.error(red("No auth found. Connect Anthropic in OpenCode or set ANTHROPIC_API_KEY."))
+    }
+    return false
+  }
+  return true
+}
+
 // ---- Tool sets ----
 // Tools for opus (no escalate)
 const TOOLS_OPUS = [
@@ -548,6 +718,28 @@ const TOOLS_WITH_ESCALATE = [
   escalate,
 ];
 
+// Guarded per attempt with the challenge version it runs (see runAttempt)
+const TOOL_SETS: Record<ToolSetName, typeof TOOLS_WITH_ESCALATE> = {
+  haiku: TOOLS_WITH_ESCALATE,
+  opus: TOOLS_OPUS,
+};
+
+/** Prompts, ladder and tools an attempt runs with. Experiments run several. */
+interface RunVariant {
+  name: string;
+  ladder: ModelRung[];
+  prompts: PromptSections;
+  /** Restrict every rung's tool set to these names (null = unrestricted) */
+  toolNames: string[] | null;
+}
+
+const DEFAULT_VARIANT: RunVariant = {
+  name: "default",
+  ladder: MODEL_LADDER,
+  prompts: DEFAULT_PROMPT_SECTIONS,
+  toolNames: null,
+};
+
 // ---- Timing & Observability ----
 interface ToolCallRecord {
   name: string;
@@ -576,6 +768,20 @@ interface ChallengeTimings {
   toolRecords: ToolCallRecord[];
   /** Thinking gap records */
   thinkingRecords: ThinkingRecord[];
+  /** Token usage summed over RUN_FINISHED chunks */
+  usage: TokenUsage;
+  /** Why --max-cost / --max-tokens-per-step stopped the attempt, if they did */
+  budgetExceeded: string | null;
+  /** Why the tool-call policy stopped the attempt, if it did */
+  policyStopped: string | null;
+  /** Earlier-step URL the page went to mid-attempt (regression watch) */
+  regressedUrl: string | null;
+  /** Model calls the stall watchdog aborted */
+  stalls: StallEvent[];
+  /** Model calls retried after a transient provider error */
+  providerRetries: number;
+  /** Last RUN_ERROR the stream carried */
+  providerError: ProviderError | null;
 }
 
 function newTimings(): ChallengeTimings {
@@ -588,239 +794,336 @@ function newTimings(): ChallengeTimings {
     currentToolStart: null,
     toolRecords: [],
     thinkingRecords: [],
+    usage: { promptTokens: 0, completionTokens: 0 },
+    budgetExceeded: null,
+    policyStopped: null,
+    regressedUrl: null,
+    stalls: [],
+    providerRetries: 0,
+    providerError: null,
   };
 }
 
-async function main() {
-  const totalStart = Date.now();
-  console.log(bold("=== Adcock Challenge Agent (TanStack AI) ==="));
-  console.log(`Challenge URL: ${CHALLENGE_URL}`);
-  console.log(
-    `Model ladder: ${MODEL_LADDER.map((m) => m.modelID).join(" → ")}`,
-  );
-  console.log(`Headed: ${process.env.HEADED === "true" ? "yes" : "no"}`);
-  if (TARGET_STEP) {
-    console.log(`Step: ${TARGET_STEP} (single step mode)`);
+/**
+ * Apply a finished tool call to the attempt state: escalate requests,
+ * the completion page (scan_page_for_code) and the URL enter_code landed on.
+ * Returns true when enter_code advanced past `step`.
+ */
+function applyToolResult(timings: ChallengeTimings, step: number, named: NamedToolResult): boolean {
+  if (named.name === "escalate") {
+    timings.escalateRequested = true;
   }
-  console.log(`Verbose: ${parsed.verbose ? "yes" : "no"}`);
-  console.log(`Debug chunks: ${parsed.debugChunks ? "yes" : "no"}`);
-  console.log(`Adapter mode: ${parsed.adapter}`);
-  console.log(`Per-challenge timeout: ${parsed.timeoutSeconds}s`);
-  // Check auth sources based on provider + adapter mode
-  let hasOpenCodeAuth = false;
-  const hasEnvAuth = parsed.provider === "openai"
-    ? !!process.env.OPENAI_API_KEY
-    : !!process.env.ANTHROPIC_API_KEY;
 
-  if (parsed.provider === "openai") {
-    try {
-      const { loadOpenAIAuth } = await import("./auth/opencode-openai-adapter")
-      const auth = await loadOpenAIAuth()
-      hasOpenCodeAuth = true
-      console.log(
-        `Auth(OpenCode): OpenAI ${auth.type === "oauth" ? "OAuth" : "API key"} ${green("found")}` +
-          (auth.type === "oauth" ? ` (expires: ${new Date((auth as any).expires).toLocaleTimeString()})` : ""),
-      )
-    } catch {
-      console.log(`Auth(OpenCode): OpenAI ${red("missing")}`)
-    }
-    console.log(`Auth(env): OPENAI_API_KEY ${hasEnvAuth ? green("set") : red("missing")}`)
-  } else {
-    try {
-      const { loadAnthropicAuth } = await import("./auth/opencode-auth");
-      const auth = await loadAnthropicAuth();
-      hasOpenCodeAuth = true;
-      console.log(
-        `Auth(OpenCode): Anthropic ${auth.type === "oauth" ? "OAuth" : "API key"} ${green("found")}` +
-          (auth.type === "oauth" ? ` (expires: ${new Date((auth as any).expires).toLocaleTimeString()})` : ""),
-      );
-    } catch {
-      console.log(`Auth(OpenCode): Anthropic ${red("missing")}`)
-    }
-    console.log(`Auth(env): ANTHROPIC_API_KEY ${hasEnvAuth ? green("set") : red("missing")}`)
-  }
-  if (parsed.debugToolInputs) {
-    process.env.OPENCODE_DEBUG_TOOL_INPUTS = "true";
-    console.log("Debug tool inputs: enabled");
-  }
-  if (parsed.adapter === "opencode" && !hasOpenCodeAuth) {
-    console.error(red("Adapter mode is 'opencode' but OpenCode credentials were not found."))
-    return
+  if (named.name === "scan_page_for_code" && named.result.data?.isCompletion) {
+    timings.lastEnterCodeUrl = "completion";
   }
-  if (parsed.adapter === "env" && !hasEnvAuth) {
-    const envVar = parsed.provider === "openai" ? "OPENAI_API_KEY" : "ANTHROPIC_API_KEY"
-    console.error(red(`Adapter mode is 'env' but ${envVar} is missing.`))
-    return
+
+  if (named.name !== "enter_code" || !named.result.success) return false;
+  const newUrl = named.result.data.afterUrl;
+  const newStep = getStepFromUrl(newUrl);
+  const currentStepFromUrl = getStepFromUrl(timings.lastEnterCodeUrl || "");
+  if (currentStepFromUrl && !(newStep && newStep > currentStepFromUrl)) return false;
+  timings.lastEnterCodeUrl = newUrl;
+  return !!newStep && newStep > step;
+}
+
+// ---- Instructions ----
+
+/** First attempt at a run: open the URL, then solve. Step URLs land directly
+ *  on a challenge; the landing page needs START clicked. */
+function navigateInstruction(url: string, isStepUrl: boolean): string {
+  if (isStepUrl) {
+    return `Navigate to the challenge step. Call scan_page_for_code with url="${url}" and navigate=true. Then find the code and call enter_code to submit it. STOP after entering the code.`;
   }
-  if (parsed.adapter === "auto" && !hasOpenCodeAuth && !hasEnvAuth) {
-    if (parsed.provider === "openai") {
-      console.error(red("No auth found. Connect OpenAI in OpenCode or set OPENAI_API_KEY."))
-    } else {
-      console.error(red("No auth found. Connect Anthropic in OpenCode or set ANTHROPIC_API_KEY."))
-    }
-    return
+  return `Navigate to the challenge and solve it. Call scan_page_for_code with url="${url}" and navigate=true to open the page (it will auto-click START). Then find the code and call enter_code to submit it. STOP after entering the code.`;
+}
+
+const SOLVE_INSTRUCTION = `Solve this challenge step. Call scan_page_for_code to read the page and find the code, then call enter_code to submit it. Do NOT navigate away. STOP after entering the code.`;
+
+/**
+ * Wait for tool work an attempt left running (a timed-out or cancelled call)
+ * before the next challenge starts. Work that won't stop — a page.evaluate
+ * can't be interrupted — goes down with the page; the fresh page is put back
+ * on the step the old one was on.
+ */
+async function settleToolWork(): Promise<void> {
+  const work = toolWork();
+  if (work.pending === 0) return;
+  console.log(dim(`  Waiting for ${work.pending} tool call(s) to stop...`));
+  if (await work.settle(TOOL_SETTLE_MS)) return;
+  console.log(yellow(`  Tool work still running after ${TOOL_SETTLE_MS / 1000}s — closing the page`));
+  const url = (await browserSession().page()).url();
+  const page = await browserSession().replacePage();
+  const target = parseStepUrl(url);
+  if (!target) return;
+  try {
+    await jumpToStep(page, target.baseUrl, target.step, target.version ?? parsed.version);
+  } catch (err: any) {
+    console.log(yellow(`  Could not reopen step ${target.step}: ${err.message}`));
   }
-  console.log("");
+}
 
-  // ---- Main challenge loop (URL-driven, no expectedStep counter) ----
-  let lastKnownStep = TARGET_STEP || 1;
-  let attemptForStep = 0;
-  let isFirstChallenge = true;
-  let totalRegressions = 0;
-  const finalStep = TARGET_STEP ?? MAX_CHALLENGES;
+/** Where the page ended up relative to `step` */
+function outcomeFromUrl(step: number, afterUrl: string): AttemptOutcome {
+  const afterStep = afterUrl ? getStepFromUrl(afterUrl) : null;
+  if (afterUrl === "completion" || afterUrl.includes("congratulations") || afterUrl.includes("complete")) {
+    return "completed";
+  }
+  if (afterStep && afterStep > step) return "solved";
+  if (afterStep && afterStep < step) return "regressed";
+  return "failed";
+}
 
-  // If a target step is specified, update the URL to point directly to it
-  if (TARGET_STEP) {
-    const baseUrl = CHALLENGE_URL.replace(/\/$/, "");
-    CHALLENGE_URL = `${baseUrl}/step${TARGET_STEP}?version=${parsed.version}`;
-  } else if (parsed.versionProvided) {
+/**
+ * After a regression to `regressedUrl`, jump the page back to `step` with the
+ * site's own router (as scan_page_for_code navigates). False when the site
+ * rejects the jump; the caller then re-solves from the earlier step. Replays
+ * take the result from the recording.
+ */
+async function recoverStep(step: number, regressedUrl: string, replayed: RecordedAttempt | null): Promise<boolean> {
+  let recovered = false;
+  if (replayed) {
+    recovered = replayed.recovered === true;
+  } else {
+    const target = parseStepUrl(regressedUrl);
+    if (!target) return false;
     try {
-      const urlObj = new URL(CHALLENGE_URL);
-      if (!urlObj.searchParams.has("version")) {
-        urlObj.searchParams.set("version", parsed.version);
-        CHALLENGE_URL = urlObj.toString();
-      }
-    } catch {}
+      recovered = await restoreStep(await browserSession().page(), target.baseUrl, step, target.version ?? parsed.version);
+    } catch (err: any) {
+      console.log(yellow(`  Could not jump back to step ${step}: ${err.message}`));
+    }
   }
+  console.log(
+    recovered
+      ? green(`  Regressed to step ${getStepFromUrl(regressedUrl)} — jumped back to step ${step}`)
+      : yellow(`  Regressed to step ${getStepFromUrl(regressedUrl)} — the site rejected the jump back to step ${step}`),
+  );
+  return recovered;
+}
 
-  const challengeResults: Array<{
-    step: number;
-    timeMs: number;
-    tools: number;
-    success: boolean;
-    model: string;
-  }> = [];
+interface AttemptResult {
+  timings: ChallengeTimings;
+  outcome: AttemptOutcome;
+  /** URL the attempt ended on ("completion" for the completion page, "" if none was captured) */
+  afterUrl: string;
+  afterStep: number | null;
+  timeMs: number;
+  /** Classification the prompt and tools were picked for */
+  challenge: ChallengeClassification | null;
+  /** What the attempt saw and tried, for the next attempt's instruction */
+  summary: AttemptSummary;
+  /** Regressed attempts: the page is back on the step, so the step can be retried in place */
+  recovered?: boolean;
+  /** The attempt ended on a provider error worth re-running the same rung for */
+  transient?: ProviderErrorKind;
+  error?: string;
+}
 
-  while (lastKnownStep <= finalStep) {
-    const timings = newTimings();
-    const currentStep = lastKnownStep;
-    const model = getModelForAttempt(attemptForStep);
+/** Run one model attempt at a step: a single chat() stream with its own
+ *  timeout, heartbeat and summary. The outcome is derived from the page URL
+ *  enter_code reports; the caller decides what to do next. */
+async function runAttempt(
+  step: number,
+  attempt: number,
+  model: ModelRung,
+  instruction: string,
+  challenge: ChallengeClassification | null,
+  recorder: RunRecorder | null,
+  variant: RunVariant = DEFAULT_VARIANT,
+  version = parsed.version,
+): Promise<AttemptResult> {
+  const timings = newTimings();
+  const attemptLog = createAttemptLog(step);
 
-    if (attemptForStep === 0) {
-      console.log(
-        bold(`\n${"=".repeat(20)} Challenge ${currentStep} ${"=".repeat(20)}`),
-      );
+  try {
+    // Create the adapter (async — may load OpenCode OAuth credentials).
+    // Replay swaps in recorded chunks and tool outputs; recording taps both.
+    const replayAttempt = REPLAY ? REPLAY.nextAttempt(step, attempt) : null;
+    const attemptRecorder = recorder?.beginAttempt({
+      step,
+      attempt,
+      rung: model,
+      instruction,
+      challenge,
+    });
+    let adapter = replayAttempt
+      ? replayAttempt.adapter
+      : await createAdapter(model.providerID, model.modelID, model.adapter);
+    // Reissue model calls that go quiet; replays carry the recorded stalls instead
+    if (replayAttempt) {
+      timings.stalls = [...(replayAttempt.record.stalls ?? [])];
+      timings.providerRetries = replayAttempt.record.providerRetries ?? 0;
     } else {
-      console.log(
-        yellow(
-          `\n  Attempt ${attemptForStep + 1}/${MAX_ATTEMPTS} — escalating to ${bold(model.modelID)}`,
-        ),
-      );
+      if (parsed.stallSeconds > 0) adapter = withStallWatchdog(adapter, {
+        stallMs: parsed.stallSeconds * 1000,
+        maxRetries: parsed.stallRetries,
+        onStall: (event) => {
+          timings.stalls.push(event);
+          attemptRecorder?.annotate({ stalls: timings.stalls });
+          const where = event.chunks === 0 ? "before its first chunk" : `after ${event.chunks} chunk(s)`;
+          console.log(
+            yellow(
+              `\n  Model call #${event.iteration} stalled ${where} (no chunk for ${parsed.stallSeconds}s)` +
+                (event.retried ? " — reissuing it" : ""),
+            ),
+          );
+        },
+      });
+      // Outside the watchdog, so backoff waits don't count as stalls
+      adapter = withProviderRetry(adapter, {
+        maxRetries: parsed.providerRetries,
+        hint: latestRetryHint,
+        onRetry: (event) => {
+          timings.providerRetries++;
+          attemptRecorder?.annotate({ providerRetries: timings.providerRetries });
+          console.log(
+            yellow(
+              `\n  Provider ${event.kind} error: ${truncate(event.message, 160)} — retrying in ${(event.delayMs / 1000).toFixed(1)}s (${event.retry}/${parsed.providerRetries})`,
+            ),
+          );
+        },
+      });
     }
+    // Select prompt and tools from the rung's settings and the step's type; page tools
+    // can't navigate away from the step, and revert to this attempt's version (see tools/nav-guard.ts)
+    let tools = withNavigationGuard(TOOL_SETS[model.tools], version);
+    if (isConfident(challenge)) tools = selectTools(tools, challenge.type);
+    if (variant.toolNames) {
+      const allowed = variant.toolNames;
+      tools = tools.filter((t) => allowed.includes(t.name));
+    }
+    const systemPrompt = buildSystemPrompt(variant.prompts, model.prompt, challenge, tools.map((t) => t.name));
+    // Per-call timeouts and abort signals; replays swap execute() out, so they start no timers
+    tools = withToolTimeouts(tools, TOOL_TIMEOUTS, toolWork());
+    if (replayAttempt) tools = replayAttempt.wrapTools(tools);
+    if (attemptRecorder) {
+      adapter = attemptRecorder.wrapAdapter(adapter);
+      tools = attemptRecorder.wrapTools(tools);
+    }
+    // A policy stop may submit a code outside chat(). Taken with timeouts, replay and recording
+    // around it but before the policy, which has stopped the attempt by then
+    const submitTool = tools.find((t) => t.name === "enter_code") ?? null;
+    const toolContext: ToolContext = { browser: browserSession() };
+    const abortController = new AbortController();
+    const policyConfig = resolveToolPolicy(model);
+    tools = withToolPolicy(tools, createToolPolicy(policyConfig), (reason) => {
+      if (timings.policyStopped) return;
+      timings.policyStopped = reason;
+      console.log(yellow(`\n  Tool policy: ${reason}. Ending attempt...`));
+      abortController.abort();
+    });
+    // Structured results by tool call ID; chat() and the model only see the formatted text
+    const toolResults = new Map<string, NamedToolResult>();
+    tools = withFormattedResults(tools, (toolCallId, result) => toolResults.set(toolCallId, result));
 
-    try {
-      // Build instruction — first challenge gets URL, subsequent ones don't
-      let instruction: string;
-      if (isFirstChallenge) {
-        if (TARGET_STEP) {
-          instruction = `Navigate to the challenge step. Call scan_page_for_code with url="${CHALLENGE_URL}" and navigate=true. Then find the code and call enter_code to submit it. STOP after entering the code.`;
-        } else {
-          instruction = `Navigate to the challenge and solve it. Call scan_page_for_code with url="${CHALLENGE_URL}" and navigate=true to open the page (it will auto-click START). Then find the code and call enter_code to submit it. STOP after entering the code.`;
-        }
-        isFirstChallenge = false;
-      } else {
-        instruction = `Solve this challenge step. Call scan_page_for_code to read the page and find the code, then call enter_code to submit it. Do NOT navigate away. STOP after entering the code.`;
-      }
-
-      // Select prompt and tools based on model
-      const isOpus =
-        model.modelID === MODEL_LADDER[MODEL_LADDER.length - 1].modelID;
-      const systemPrompt = isOpus ? SYSTEM_PROMPT_OPUS : SYSTEM_PROMPT_HAIKU;
-      const tools = isOpus ? TOOLS_OPUS : TOOLS_WITH_ESCALATE;
-
-      // Create the adapter (async — may load OpenCode OAuth credentials)
-      const adapter = await createAdapter(model.providerID, model.modelID, parsed.adapter);
+    console.log(
+      dim(
+        `  Model call: provider=${model.providerID} model=${model.modelID} adapter=${model.adapter} prompt=${model.prompt} tools=${tools.length} maxIterations=${parsed.maxIterations}` +
+          (variant === DEFAULT_VARIANT ? "" : ` variant=${variant.name}`),
+      ),
+    );
+    if (parsed.verbose) {
+      console.log(dim(`  Instruction: ${truncate(instruction, 220)}`));
+    }
 
+    const streamStart = Date.now();
+    let chunkCount = 0;
+    let firstChunkAt: number | null = null;
+    let lastChunkAt = Date.now();
+    let heartbeatPhase = "awaiting first chunk";
+    const thinkingSegments: string[] = [];
+    let lastToolEndedAt: number | null = null;
+    let lastToolNameForGap: string | null = null;
+    const toolStartById = new Map<string, number>();
+    const normalizer = createStreamNormalizer();
+    const reportedUnknown = new Set<string>();
+    // Latest scan's candidates and every code submitted, for a policy-forced submit
+    let lastCandidates: CodeCandidate[] = [];
+    const triedCodes = new Set<string>();
+
+    const timeoutHandle = setTimeout(() => {
       console.log(
-        dim(
-          `  Model call: provider=${model.providerID} model=${model.modelID} tools=${tools.length} maxIterations=20`,
+        yellow(
+          `\n  Challenge timeout after ${parsed.timeoutSeconds}s. Aborting model stream...`,
         ),
       );
-      if (parsed.verbose) {
-        console.log(dim(`  Instruction: ${truncate(instruction, 220)}`));
-      }
-
-      const abortController = new AbortController();
-      const streamStart = Date.now();
-      let chunkCount = 0;
-      let firstChunkAt: number | null = null;
-      let lastChunkAt = Date.now();
-      let heartbeatPhase = "awaiting first chunk";
-      const thinkingSegments: string[] = [];
-      let lastToolEndedAt: number | null = null;
-      let lastToolNameForGap: string | null = null;
-      let currentToolName: string | null = null;
-      const toolArgsById = new Map<string, string>();
-      const toolNameById = new Map<string, string>();
-      const toolStartById = new Map<string, number>();
-      const seenRunFinished = new Set<string>();
-
-      const timeoutHandle = setTimeout(() => {
-        console.log(
-          yellow(
-            `\n  Challenge timeout after ${parsed.timeoutSeconds}s. Aborting model stream...`,
-          ),
-        );
-        abortController.abort();
-      }, parsed.timeoutSeconds * 1000);
-
-      const heartbeatHandle = setInterval(() => {
-        const now = Date.now();
-        const elapsed = ((now - streamStart) / 1000).toFixed(1);
-        const sinceLastChunk = ((now - lastChunkAt) / 1000).toFixed(1);
-        console.log(
-          dim(
-            `  heartbeat: elapsed=${elapsed}s phase=${heartbeatPhase} chunks=${chunkCount} tools=${timings.toolCalls} lastChunkAgo=${sinceLastChunk}s`,
-          ),
-        );
-      }, 10000);
-
-      // Call TanStack AI chat() with streaming
-      const stream = chat({
-        adapter,
-        messages: [{ role: "user" as const, content: instruction }],
-        systemPrompts: [systemPrompt],
-        tools,
-        agentLoopStrategy: maxIterations(20),
-        abortController,
-      });
-
-      console.log(dim("  Stream created. Waiting for first chunk..."));
+      abortController.abort();
+    }, parsed.timeoutSeconds * 1000);
+
+    const onShutdown = () => abortController.abort();
+    if (SHUTDOWN.signal.aborted) onShutdown();
+    else SHUTDOWN.signal.addEventListener("abort", onShutdown, { once: true });
+
+    // Live runs watch for a decoy sending the page back; replays get it from the recording
+    const watch = replayAttempt
+      ? null
+      : watchForRegression(await browserSession().page(), step, (url) => {
+          timings.regressedUrl = url;
+          attemptRecorder?.annotate({ regressedTo: url });
+          console.log(yellow(`\n  Page went back to ${url} mid-attempt. Ending attempt...`));
+          abortController.abort();
+        });
 
-      // Process stream chunks for logging + state extraction
-      try {
-        for await (const chunk of stream) {
-          chunkCount++;
-          if (!firstChunkAt) {
-            firstChunkAt = Date.now();
+    // --heartbeat-seconds 0 turns the progress line off
+    const heartbeatHandle =
+      parsed.heartbeatSeconds > 0
+        ? setInterval(() => {
+            const now = Date.now();
+            const elapsed = ((now - streamStart) / 1000).toFixed(1);
+            const sinceLastChunk = ((now - lastChunkAt) / 1000).toFixed(1);
             console.log(
               dim(
-                `  First chunk received after ${((firstChunkAt - streamStart) / 1000).toFixed(2)}s`,
+                `  heartbeat: elapsed=${elapsed}s phase=${heartbeatPhase} chunks=${chunkCount} tools=${timings.toolCalls} lastChunkAgo=${sinceLastChunk}s`,
               ),
             );
-          }
-          lastChunkAt = Date.now();
-          const chunkType = (chunk as any).type as string;
-          heartbeatPhase = chunkType;
-          if (parsed.debugChunks) {
-            const preview = (() => {
-              try {
-                return JSON.stringify(chunk).slice(0, 800)
-              } catch {
-                return String(chunk)
-              }
-            })()
-            console.log(dim(`  chunk[${chunkCount}] type=${chunkType} ${preview}`));
-          }
-
-          if (chunkType === "TEXT_MESSAGE_CONTENT") {
-            if (parsed.verbose) {
-              const delta = (chunk as any).delta || (chunk as any).content || "";
-              if (delta) process.stdout.write(delta);
+          }, parsed.heartbeatSeconds * 1000)
+        : undefined;
+
+    // Call TanStack AI chat() with streaming
+    const stream = chat({
+      adapter,
+      messages: [{ role: "user" as const, content: instruction }],
+      systemPrompts: [systemPrompt],
+      tools,
+      agentLoopStrategy: maxIterations(parsed.maxIterations),
+      abortController,
+      // Tools act on the page of this run's browser session
+      context: toolContext,
+    });
+
+    console.log(dim("  Stream created. Waiting for first chunk..."));
+
+    // Process stream chunks for logging + state extraction
+    try {
+      for await (const chunk of stream) {
+        attemptRecorder?.recordChunk(chunk);
+        chunkCount++;
+        if (!firstChunkAt) {
+          firstChunkAt = Date.now();
+          console.log(
+            dim(
+              `  First chunk received after ${((firstChunkAt - streamStart) / 1000).toFixed(2)}s`,
+            ),
+          );
+        }
+        lastChunkAt = Date.now();
+        const chunkType: StreamChunk["type"] = chunk.type;
+        heartbeatPhase = chunkType;
+        if (parsed.debugChunks) {
+          const preview = (() => {
+            try {
+              return JSON.stringify(chunk).slice(0, 800)
+            } catch {
+              return String(chunk)
             }
-          } else if (chunkType === "TOOL_CALL_START") {
-            const toolCallId = (chunk as any).toolCallId as string;
-            const toolName = ((chunk as any).toolName || "?") as string;
+          })()
+          console.log(dim(`  chunk[${chunkCount}] type=${chunkType} ${preview}`));
+        }
+
+        for (const event of normalizer.push(chunk)) {
+          if (event.kind === "text") {
+            if (parsed.verbose) process.stdout.write(event.delta);
+          } else if (event.kind === "tool-started") {
             const now = Date.now();
 
             if (lastToolEndedAt) {
@@ -846,440 +1149,1327 @@ async function main() {
 
             timings.toolCalls++;
             timings.currentToolStart = now;
-            currentToolName = toolName;
-            toolNameById.set(toolCallId, toolName);
-            toolStartById.set(toolCallId, now);
-            process.stdout.write(`\n${cyan(`[${toolName}]`)} ${dim("calling")} {}\n`);
-          } else if (chunkType === "TOOL_CALL_ARGS") {
-            const toolCallId = ((chunk as any).toolCallId || "") as string;
-            const delta = ((chunk as any).delta || "") as string;
-            if (!toolCallId) continue;
-            const prev = toolArgsById.get(toolCallId) || "";
-            const next = prev + delta;
-            toolArgsById.set(toolCallId, next);
-          } else if (chunkType === "TOOL_CALL_END") {
-            const toolCallId = ((chunk as any).toolCallId || "") as string;
-            const toolName = ((chunk as any).toolName || toolNameById.get(toolCallId) || "?") as string;
-            const hasResult = (chunk as any).result !== undefined;
-            const output = (chunk as any).result;
-            const outputStr = hasResult
-              ? (typeof output === "string" ? output : JSON.stringify(output))
-              : "";
-
-            const inputObj = (chunk as any).input;
-            let parsedInput: any = inputObj;
-            if (!parsedInput) {
-              const rawArgs = toolArgsById.get(toolCallId) || "";
-              if (rawArgs) {
-                try {
-                  parsedInput = JSON.parse(rawArgs);
-                } catch {
-                  parsedInput = {};
-                }
-              }
-            }
-
-            if (toolName === "page_evaluate_js" && parsedInput?.code) {
+            toolStartById.set(event.toolCallId, now);
+            process.stdout.write(`\n${cyan(`[${event.toolName}]`)} ${dim("calling")} {}\n`);
+          } else if (event.kind === "tool-finished") {
+            const { toolName, input, output } = event;
+            if (toolName === "page_evaluate_js" && input.code) {
               process.stdout.write(
-                `  ${dim(`[js] ${truncate(String(parsedInput.code).replace(/\s+/g, " "), 300)}`)}\n`,
+                `  ${dim(`[js] ${truncate(String(input.code).replace(/\s+/g, " "), 300)}`)}\n`,
               );
               if (parsed.debugToolInputs) {
-                process.stdout.write(`  ${dim(`[js:raw] ${truncate(JSON.stringify(parsedInput), 500)}`)}\n`);
-              }
-            }
-
-            // Detect escalation (now JSON: { action: "ESCALATE", reason: "..." })
-            if (toolName === "escalate") {
-              timings.escalateRequested = true;
-            }
-
-            // Detect completion page from scan_page_for_code (now JSON with status field)
-            if (toolName === "scan_page_for_code") {
-              try {
-                const parsed = typeof output === "object" ? output : JSON.parse(outputStr);
-                if (parsed?.status === "COMPLETED") {
-                  timings.lastEnterCodeUrl = "completion";
-                }
-              } catch {
-                // Fallback: check raw string
-                if (outputStr.includes("COMPLETED")) {
-                  timings.lastEnterCodeUrl = "completion";
-                }
-              }
-            }
-
-            // Capture URL from enter_code output (now JSON with newUrl field)
-            let stepAdvanced = false;
-            if (toolName === "enter_code") {
-              try {
-                const parsed = typeof output === "object" ? output : JSON.parse(outputStr);
-                if (parsed?.newUrl) {
-                  const newUrl = parsed.newUrl;
-                  const newStep = getStepFromUrl(newUrl);
-                  const currentStepFromUrl = getStepFromUrl(timings.lastEnterCodeUrl || "");
-                  if (!currentStepFromUrl || (newStep && newStep > currentStepFromUrl)) {
-                    timings.lastEnterCodeUrl = newUrl;
-                    if (newStep && newStep > currentStep) {
-                      stepAdvanced = true;
-                    }
-                  }
-                }
-              } catch {
-                // Fallback: regex match
-                const urlMatch = outputStr.match(/\|\s*(https?:\/\/[^\s]+)/);
-                if (urlMatch) {
-                  const newUrl = urlMatch[1];
-                  const newStep = getStepFromUrl(newUrl);
-                  const currentStepFromUrl = getStepFromUrl(timings.lastEnterCodeUrl || "");
-                  if (!currentStepFromUrl || (newStep && newStep > currentStepFromUrl)) {
-                    timings.lastEnterCodeUrl = newUrl;
-                    if (newStep && newStep > currentStep) {
-                      stepAdvanced = true;
-                    }
-                  }
-                }
-              }
-            }
-
-            if (hasResult) {
-              const startedAt = toolStartById.get(toolCallId) || timings.currentToolStart || Date.now();
-              const toolDuration = Date.now() - startedAt;
-              timings.toolTimeMs += toolDuration;
-              timings.currentToolStart = null;
-              currentToolName = null;
-              toolStartById.delete(toolCallId);
-
-              const isError = looksLikeErrorOutput(outputStr);
-              const brief = briefToolSummary(toolName, outputStr);
-              timings.toolRecords.push({
-                name: toolName,
-                durationMs: toolDuration,
-                success: !isError,
-                summary: brief,
-              });
-
-              const durationStr = toolDuration >= 1000
-                ? yellow(`${(toolDuration / 1000).toFixed(1)}s`)
-                : green(`${(toolDuration / 1000).toFixed(1)}s`);
-              process.stdout.write(
-                `${cyan(`[${toolName}]`)} ${isError ? red("err") : green("done")} (${durationStr}) ${formatToolOutput(toolName, outputStr)}\n`,
-              );
-
-              lastToolEndedAt = Date.now();
-              lastToolNameForGap = toolName;
-            }
-
-            // Abort the stream immediately after enter_code advances the step.
-            // The outer loop will start a fresh chat() for the next challenge,
-            // keeping context small and giving each step its own summary/timeout.
-            if (stepAdvanced) {
-              console.log(dim(`  Step advanced — ending chat to start fresh for next challenge`));
-              abortController.abort();
-            }
-          } else if (chunkType === "RUN_FINISHED") {
-            const usage = (chunk as any).usage;
-            const runId = (chunk as any).runId || "unknown";
-            const inTok = usage?.promptTokens;
-            const outTok = usage?.completionTokens;
-            const key = `${runId}:${inTok ?? "?"}:${outTok ?? "?"}`;
-            if (!seenRunFinished.has(key)) {
-              seenRunFinished.add(key);
-              if (typeof inTok === "number" && typeof outTok === "number") {
-                console.log(`${dim(`--- step (in:${inTok} out:${outTok}) ---`)}`);
+                process.stdout.write(`  ${dim(`[js:raw] ${truncate(JSON.stringify(input), 500)}`)}\n`);
               }
             }
-          } else if (chunkType === "tool-result") {
-            const toolName = (chunk as any).name || (chunk as any).toolName || "?";
-            const output = (chunk as any).output ?? (chunk as any).result ?? "";
-            const outputStr = typeof output === "string" ? output : JSON.stringify(output);
 
-            if (!timings.currentToolStart && !parsed.debugChunks) {
-              continue;
-            }
+            // No structured result means chat() failed the call itself (unknown tool,
+            // invalid arguments, or the tool threw) and sent the model its own error
+            const named = toolResults.get(event.toolCallId) ?? null;
+            const callError = typeof event.result?.error === "string" ? event.result.error : output;
+            const stepAdvanced = named ? applyToolResult(timings, step, named) : false;
+            if (named?.name === "scan_page_for_code" && named.result.success) lastCandidates = named.result.data.codes;
+            if (named?.name === "enter_code" && named.result.data?.code) triedCodes.add(named.result.data.code);
 
-            const toolDuration = timings.currentToolStart
-              ? Date.now() - timings.currentToolStart
-              : 0;
+            const startedAt = toolStartById.get(event.toolCallId) || timings.currentToolStart || Date.now();
+            const toolDuration = Date.now() - startedAt;
             timings.toolTimeMs += toolDuration;
             timings.currentToolStart = null;
-            currentToolName = null;
-
-            // Detect escalation (now JSON: { action: "ESCALATE", reason: "..." })
-            if (toolName === "escalate") {
-              timings.escalateRequested = true;
-            }
+            toolStartById.delete(event.toolCallId);
 
-            // Detect completion page from scan_page_for_code (now JSON with status field)
-            if (toolName === "scan_page_for_code") {
-              try {
-                const parsedOutput = typeof output === "object" ? output : JSON.parse(outputStr);
-                if (parsedOutput?.status === "COMPLETED") {
-                  timings.lastEnterCodeUrl = "completion";
-                }
-              } catch {
-                if (outputStr.includes("COMPLETED")) {
-                  timings.lastEnterCodeUrl = "completion";
-                }
-              }
-            }
-
-            // Capture URL from enter_code output (now JSON with newUrl field)
-            let stepAdvanced2 = false;
-            if (toolName === "enter_code") {
-              try {
-                const parsedOutput = typeof output === "object" ? output : JSON.parse(outputStr);
-                if (parsedOutput?.newUrl) {
-                  const newUrl = parsedOutput.newUrl;
-                  const newStep = getStepFromUrl(newUrl);
-                  const currentStepFromUrl = getStepFromUrl(timings.lastEnterCodeUrl || "");
-                  if (!currentStepFromUrl || (newStep && newStep > currentStepFromUrl)) {
-                    timings.lastEnterCodeUrl = newUrl;
-                    if (newStep && newStep > currentStep) {
-                      stepAdvanced2 = true;
-                    }
-                  }
-                }
-              } catch {
-                const urlMatch = outputStr.match(/\|\s*(https?:\/\/[^\s]+)/);
-                if (urlMatch) {
-                  const newUrl = urlMatch[1];
-                  const newStep = getStepFromUrl(newUrl);
-                  const currentStepFromUrl = getStepFromUrl(timings.lastEnterCodeUrl || "");
-                  if (!currentStepFromUrl || (newStep && newStep > currentStepFromUrl)) {
-                    timings.lastEnterCodeUrl = newUrl;
-                    if (newStep && newStep > currentStep) {
-                      stepAdvanced2 = true;
-                    }
-                  }
-                }
-              }
-            }
-
-            const isError = looksLikeErrorOutput(outputStr);
-            const brief = briefToolSummary(toolName, outputStr);
-            timings.toolRecords.push({
-              name: toolName,
-              durationMs: toolDuration,
-              success: !isError,
-              summary: brief,
-            });
+            const isError = !named?.result.success;
+            const summary = named ? briefToolSummary(named) : `error: ${truncate(callError, 60)}`;
+            timings.toolRecords.push({ name: toolName, durationMs: toolDuration, success: !isError, summary });
+            attemptLog.record({ name: toolName, input, result: named, summary });
 
             const isDebug =
               (toolName === "page_evaluate_js" || toolName === "drag_and_drop") &&
               parsed.debugToolInputs;
-            const outputDisplay = isDebug ? outputStr : formatToolOutput(toolName, outputStr);
-            const durationStr2 = toolDuration >= 1000
+            const durationStr = toolDuration >= 1000
               ? yellow(`${(toolDuration / 1000).toFixed(1)}s`)
               : green(`${(toolDuration / 1000).toFixed(1)}s`);
             process.stdout.write(
-              `${cyan(`[${toolName}]`)} ${isError ? red("err") : green("done")} (${durationStr2}) ${dim(outputDisplay)}\n`,
+              `${cyan(`[${toolName}]`)} ${isError ? red("err") : green("done")} (${durationStr}) ${isDebug || !named ? output : formatToolOutput(named)}\n`,
             );
+
             lastToolEndedAt = Date.now();
-            lastToolNameForGap = currentToolName || toolName;
+            lastToolNameForGap = toolName;
 
             // Abort the stream immediately after enter_code advances the step.
-            if (stepAdvanced2) {
+            // The outer loop will start a fresh chat() for the next challenge,
+            // keeping context small and giving each step its own summary/timeout.
+            if (stepAdvanced) {
               console.log(dim(`  Step advanced — ending chat to start fresh for next challenge`));
               abortController.abort();
             }
-          } else if (chunkType === "thinking") {
-            // Could log thinking segments here if desired
-          } else if (chunkType === "RUN_ERROR") {
-            const err = (chunk as any).error;
-            const errorMsg = err?.message || (chunk as any).message || "unknown error";
-            process.stdout.write(`\n${red("[error]")} ${errorMsg}\n`);
-          } else if (chunkType === "error") {
-            const errorMsg = (chunk as any).error || (chunk as any).message || "unknown error";
-            process.stdout.write(`\n${red("[error]")} ${errorMsg}\n`);
+          } else if (event.kind === "run-finished") {
+            if (event.usage) {
+              const { promptTokens: inTok, completionTokens: outTok } = event.usage;
+              timings.usage.promptTokens += inTok;
+              timings.usage.completionTokens += outTok;
+              console.log(`${dim(`--- step (in:${inTok} out:${outTok}) ---`)}`);
+              const overBudget = stepBudget().record(model, event.usage);
+              if (overBudget && !timings.budgetExceeded) {
+                timings.budgetExceeded = overBudget;
+                console.log(yellow(`  Budget: ${overBudget}. Aborting model stream...`));
+                abortController.abort();
+              }
+            }
+          } else if (event.kind === "run-error") {
+            timings.providerError = { message: event.message, code: event.code };
+            process.stdout.write(`\n${red("[error]")} ${event.message}\n`);
+          } else if (event.kind === "unknown") {
+            // Once per chunk type, so a chatty new event doesn't flood the log
+            if (!reportedUnknown.has(event.chunkType)) {
+              reportedUnknown.add(event.chunkType);
+              console.log(yellow(`  Unhandled stream chunk ${event.chunkType}: ${event.reason}`));
+            }
           }
         }
-      } finally {
-        clearTimeout(timeoutHandle);
-        clearInterval(heartbeatHandle);
       }
-      // Capture final thinking gap (between last tool and stream end)
-      if (lastToolEndedAt) {
-        const finalGapMs = Date.now() - lastToolEndedAt;
-        if (finalGapMs >= 300) {
-          timings.thinkingRecords.push({ afterTool: lastToolNameForGap, durationMs: finalGapMs });
-        }
+    } finally {
+      clearTimeout(timeoutHandle);
+      clearInterval(heartbeatHandle);
+      SHUTDOWN.signal.removeEventListener("abort", onShutdown);
+      watch?.stop();
+      attemptRecorder?.save();
+      await settleToolWork();
+    }
+    if (replayAttempt?.record.regressedTo) timings.regressedUrl = replayAttempt.record.regressedTo;
+    // A policy stop ends the attempt on the best code not yet tried, or as escalated
+    if (timings.policyStopped && !timings.lastEnterCodeUrl && !timings.regressedUrl && !SHUTDOWN.requested) {
+      const best = scoreCandidates(lastCandidates).find((c) => !triedCodes.has(c.code));
+      if (policyConfig.onStop === "force-submit" && best && submitTool?.execute) {
+        console.log(yellow(`  Tool policy: submitting best candidate "${best.code}" (${best.src})`));
+        const startedAt = Date.now();
+        const named = await executeTool(submitTool, { code: best.code }, { abortSignal: SHUTDOWN.signal, context: toolContext });
+        const durationMs = Date.now() - startedAt;
+        applyToolResult(timings, step, named);
+        const summary = `forced: ${briefToolSummary(named)}`;
+        timings.toolCalls++;
+        timings.toolTimeMs += durationMs;
+        timings.toolRecords.push({ name: "enter_code", durationMs, success: named.result.success, summary });
+        attemptLog.record({ name: "enter_code", input: { code: best.code }, result: named, summary });
+        process.stdout.write(
+          `${cyan("[enter_code]")} ${named.result.success ? green("done") : red("err")} ${formatToolOutput(named)}\n`,
+        );
+        // Saved once already when the stream ended; again so the recording has this call
+        attemptRecorder?.save();
+      } else {
+        timings.escalateRequested = true;
       }
+    }
 
-      const challengeTime = Date.now() - timings.challengeStart;
-      const totalThinkingMs = timings.thinkingRecords.reduce((s, r) => s + r.durationMs, 0);
+    // Capture final thinking gap (between last tool and stream end)
+    if (lastToolEndedAt) {
+      const finalGapMs = Date.now() - lastToolEndedAt;
+      if (finalGapMs >= 300) {
+        timings.thinkingRecords.push({ afterTool: lastToolNameForGap, durationMs: finalGapMs });
+      }
+    }
 
-      // ---- Challenge Summary ----
-      console.log("");
-      console.log(bold(`  Challenge ${currentStep} Summary`));
-      console.log(dim(`  ${"─".repeat(50)}`));
-      console.log(
-        `  ${bold("Total:")} ${bold((challengeTime / 1000).toFixed(1) + "s")}  │  ` +
-          `${cyan("Tools:")} ${(timings.toolTimeMs / 1000).toFixed(1)}s (${timings.toolCalls} calls)  │  ` +
-          `${magenta("Thinking:")} ${(totalThinkingMs / 1000).toFixed(1)}s`,
-      );
+    const challengeTime = Date.now() - timings.challengeStart;
+    const totalThinkingMs = timings.thinkingRecords.reduce((s, r) => s + r.durationMs, 0);
 
-      // Tool timeline — interleave thinking gaps and tool calls chronologically
-      if (timings.toolRecords.length > 0) {
-        console.log(dim(`  ${"─".repeat(50)}`));
-        let thinkIdx = 0;
-        for (let i = 0; i < timings.toolRecords.length; i++) {
-          // Show thinking gap(s) that occurred before this tool call
-          while (thinkIdx < timings.thinkingRecords.length && thinkIdx <= i) {
-            const think = timings.thinkingRecords[thinkIdx];
-            if (think.durationMs >= 300) {
-              console.log(dim(`    ${magenta("⋯")} thinking ${(think.durationMs / 1000).toFixed(1)}s`));
-            }
-            thinkIdx++;
-            break; // one thinking gap per tool
-          }
-          const rec = timings.toolRecords[i];
-          const durStr = rec.durationMs >= 3000
-            ? red(`${(rec.durationMs / 1000).toFixed(1)}s`)
-            : rec.durationMs >= 1000
-              ? yellow(`${(rec.durationMs / 1000).toFixed(1)}s`)
-              : green(`${(rec.durationMs / 1000).toFixed(1)}s`);
-          const statusIcon = rec.success ? green("✓") : red("✗");
-          console.log(
-            `    ${statusIcon} ${cyan(rec.name)} ${durStr} ${dim("→")} ${rec.summary}`,
-          );
-        }
-        // Show any remaining thinking gaps (e.g. final gap after last tool)
-        while (thinkIdx < timings.thinkingRecords.length) {
+    // ---- Challenge Summary ----
+    console.log("");
+    console.log(bold(`  Challenge ${step} Summary`));
+    console.log(dim(`  ${"─".repeat(50)}`));
+    console.log(
+      `  ${bold("Total:")} ${bold((challengeTime / 1000).toFixed(1) + "s")}  │  ` +
+        `${cyan("Tools:")} ${(timings.toolTimeMs / 1000).toFixed(1)}s (${timings.toolCalls} calls)  │  ` +
+        `${magenta("Thinking:")} ${(totalThinkingMs / 1000).toFixed(1)}s  │  ` +
+        `in:${timings.usage.promptTokens} out:${timings.usage.completionTokens} ${formatCost(estimateCost(model, timings.usage, PRICES))}`,
+    );
+
+    // Tool timeline — interleave thinking gaps and tool calls chronologically
+    if (timings.toolRecords.length > 0) {
+      console.log(dim(`  ${"─".repeat(50)}`));
+      let thinkIdx = 0;
+      for (let i = 0; i < timings.toolRecords.length; i++) {
+        // Show thinking gap(s) that occurred before this tool call
+        while (thinkIdx < timings.thinkingRecords.length && thinkIdx <= i) {
           const think = timings.thinkingRecords[thinkIdx];
           if (think.durationMs >= 300) {
             console.log(dim(`    ${magenta("⋯")} thinking ${(think.durationMs / 1000).toFixed(1)}s`));
           }
           thinkIdx++;
+          break; // one thinking gap per tool
+        }
+        const rec = timings.toolRecords[i];
+        const durStr = rec.durationMs >= 3000
+          ? red(`${(rec.durationMs / 1000).toFixed(1)}s`)
+          : rec.durationMs >= 1000
+            ? yellow(`${(rec.durationMs / 1000).toFixed(1)}s`)
+            : green(`${(rec.durationMs / 1000).toFixed(1)}s`);
+        const statusIcon = rec.success ? green("✓") : red("✗");
+        console.log(
+          `    ${statusIcon} ${cyan(rec.name)} ${durStr} ${dim("→")} ${rec.summary}`,
+        );
+      }
+      // Show any remaining thinking gaps (e.g. final gap after last tool)
+      while (thinkIdx < timings.thinkingRecords.length) {
+        const think = timings.thinkingRecords[thinkIdx];
+        if (think.durationMs >= 300) {
+          console.log(dim(`    ${magenta("⋯")} thinking ${(think.durationMs / 1000).toFixed(1)}s`));
         }
+        thinkIdx++;
       }
-      console.log(dim(`  ${"─".repeat(50)}`));
+    }
+    console.log(dim(`  ${"─".repeat(50)}`));
+
+    // ---- Determine outcome from browser URL (source of truth) ----
+    const afterUrl = timings.regressedUrl || timings.lastEnterCodeUrl || "";
+    const afterStep = afterUrl ? getStepFromUrl(afterUrl) : null;
+    let outcome: AttemptOutcome =
+      timings.escalateRequested && !afterUrl ? "escalated" : outcomeFromUrl(step, afterUrl);
+    // A step the model finished anyway still counts; otherwise the budget is why it stopped
+    if (timings.budgetExceeded && outcome !== "solved" && outcome !== "completed") {
+      outcome = "over-budget";
+    }
+    if (SHUTDOWN.requested && outcome !== "solved" && outcome !== "completed") {
+      outcome = "interrupted";
+    }
+    // A provider error the retries couldn't absorb (it came mid-stream, or
+    // kept coming) says nothing about the model; replays take the verdict
+    // from the recording
+    let transient: ProviderErrorKind | undefined;
+    if (outcome === "failed" && timings.providerError) {
+      transient = replayAttempt
+        ? replayAttempt.record.transientError
+        : (classifyProviderError(timings.providerError, latestRetryHint()) ?? undefined);
+      if (transient) {
+        outcome = "error";
+        attemptRecorder?.annotate({ transientError: transient });
+        attemptRecorder?.save();
+      }
+    }
+    const summary = attemptLog.summarize({
+      attempt,
+      rung: model,
+      outcome,
+      challenge,
+      stoppedBy: timings.policyStopped ?? timings.budgetExceeded,
+    });
+    if (outcome === "regressed") {
+      const recovered = await recoverStep(step, afterUrl, replayAttempt?.record ?? null);
+      attemptRecorder?.annotate({ recovered });
+      attemptRecorder?.save();
+      return { timings, outcome, afterUrl, afterStep, timeMs: challengeTime, challenge, summary, recovered };
+    }
+    if (transient) {
+      const error = timings.providerError!.message;
+      return { timings, outcome, afterUrl, afterStep, timeMs: challengeTime, challenge, summary, transient, error };
+    }
+    return { timings, outcome, afterUrl, afterStep, timeMs: challengeTime, challenge, summary };
+  } catch (err: any) {
+    if (err instanceof StreamStallError) {
+      console.log(yellow(`  Provider stream stalled on step ${step} (${model.modelID}): ${err.message}`));
+      return {
+        timings,
+        outcome: "stalled",
+        afterUrl: timings.regressedUrl || timings.lastEnterCodeUrl || "",
+        afterStep: null,
+        timeMs: Date.now() - timings.challengeStart,
+        challenge,
+        summary: attemptLog.summarize({ attempt, rung: model, outcome: "stalled", challenge, stoppedBy: err.message }),
+        error: err.message,
+      };
+    }
+    console.error(
+      red(
+        `  Error on step ${step} (${model.modelID}): ${err.message}`,
+      ),
+    );
+    // e.g. the OAuth refresh behind createAdapter() failing on a 5xx
+    const transient = REPLAY ? null : classifyProviderError({ message: err.message, code: err.code }, latestRetryHint());
+    return {
+      timings,
+      outcome: "error",
+      afterUrl: timings.regressedUrl || timings.lastEnterCodeUrl || "",
+      afterStep: null,
+      timeMs: Date.now() - timings.challengeStart,
+      challenge,
+      summary: attemptLog.summarize({ attempt, rung: model, outcome: "error", challenge, stoppedBy: err.message }),
+      ...(transient ? { transient } : {}),
+      error: err.message,
+    };
+  }
+}
+
+/** Build the --report entry for a finished attempt */
+function toAttemptReport(
+  step: number,
+  attempt: number,
+  rung: ModelRung,
+  result: AttemptResult,
+  variant: RunVariant = DEFAULT_VARIANT,
+  run?: number,
+): AttemptReport {
+  const { timings } = result;
+  return {
+    step,
+    attempt,
+    rung,
+    ...(variant === DEFAULT_VARIANT ? {} : { variant: variant.name }),
+    ...(run !== undefined ? { run } : {}),
+    ...(result.challenge ? { challenge: { type: result.challenge.type, confidence: result.challenge.confidence } } : {}),
+    startedAt: new Date(timings.challengeStart).toISOString(),
+    durationMs: result.timeMs,
+    toolCalls: timings.toolCalls,
+    toolTimeMs: timings.toolTimeMs,
+    thinkingMs: timings.thinkingRecords.reduce((s, r) => s + r.durationMs, 0),
+    tools: timings.toolRecords,
+    thinking: timings.thinkingRecords,
+    usage: timings.usage,
+    costUsd: estimateCost(rung, timings.usage, PRICES),
+    finalUrl: timings.regressedUrl ?? timings.lastEnterCodeUrl,
+    outcome: result.outcome,
+    ...(timings.policyStopped ? { policyStop: timings.policyStopped } : {}),
+    ...(result.recovered !== undefined ? { recovered: result.recovered } : {}),
+    ...(timings.stalls.length > 0 ? { stalls: timings.stalls.length } : {}),
+    ...(timings.providerRetries > 0 ? { providerRetries: timings.providerRetries } : {}),
+    ...(result.transient ? { transientError: result.transient } : {}),
+    ...(result.error ? { error: result.error } : {}),
+  };
+}
+
+// ---- Fast path ----
+
+interface FastPathResult extends AttemptResult {
+  /** The scan ran, so the page is open (no navigate instruction needed) */
+  scanned: boolean;
+}
+
+/** A tool the fast path calls directly, in the shape the recorder wraps */
+interface FastPathTool {
+  name: string;
+  execute: (args: any, context?: ToolCallContext) => Promise<ToolResult<any>>;
+}
+
+/** Scan the step and, when one code candidate is unambiguous, submit it
+ *  without a model call (see orchestrator/fast-path.ts). `navigateUrl` opens
+ *  the page first, as the first model attempt of a run would. */
+async function runFastPath(
+  step: number,
+  navigateUrl: string | null,
+  recorder: RunRecorder | null,
+): Promise<FastPathResult> {
+  const timings = newTimings();
+  const attemptLog = createAttemptLog(step);
+  const finish = (scanned: boolean, error?: string): FastPathResult => {
+    const afterUrl = timings.lastEnterCodeUrl || "";
+    let outcome = error ? "error" : outcomeFromUrl(step, afterUrl);
+    if (SHUTDOWN.requested && outcome !== "solved" && outcome !== "completed") outcome = "interrupted";
+    return {
+      timings,
+      outcome,
+      afterUrl,
+      afterStep: afterUrl ? getStepFromUrl(afterUrl) : null,
+      timeMs: Date.now() - timings.challengeStart,
+      challenge: null,
+      summary: attemptLog.summarize({
+        attempt: FAST_PATH_ATTEMPT,
+        rung: FAST_PATH_RUNG,
+        outcome,
+        challenge: null,
+        stoppedBy: error ?? null,
+      }),
+      scanned,
+      ...(error ? { error } : {}),
+    };
+  };
+
+  // Same recording/replay wrapping as a model attempt, minus the adapter
+  const replayAttempt = REPLAY ? REPLAY.nextAttempt(step, FAST_PATH_ATTEMPT) : null;
+  const attemptRecorder = recorder?.beginAttempt({
+    step,
+    attempt: FAST_PATH_ATTEMPT,
+    rung: FAST_PATH_RUNG,
+    instruction: "(fast path)",
+    fastPath: true,
+  });
+  let tools: FastPathTool[] = withToolTimeouts(
+    [
+      { name: "scan_page_for_code", execute: scanPage },
+      { name: "enter_code", execute: submitCode },
+    ],
+    TOOL_TIMEOUTS,
+    toolWork(),
+  );
+  if (replayAttempt) tools = replayAttempt.wrapTools(tools);
+  if (attemptRecorder) tools = attemptRecorder.wrapTools(tools);
+  const [scanTool, enterTool] = tools;
+
+  const toolContext: ToolContext = { browser: browserSession() };
+  const callTool = async (tool: FastPathTool, args: unknown): Promise<NamedToolResult> => {
+    const startedAt = Date.now();
+    const named = await executeTool(tool, args, { abortSignal: SHUTDOWN.signal, context: toolContext });
+    const durationMs = Date.now() - startedAt;
+    applyToolResult(timings, step, named);
+    const summary = briefToolSummary(named);
+    timings.toolCalls++;
+    timings.toolTimeMs += durationMs;
+    timings.toolRecords.push({ name: tool.name, durationMs, success: named.result.success, summary });
+    attemptLog.record({ name: tool.name, input: args, result: named, summary });
+    const durationStr = durationMs >= 1000
+      ? yellow(`${(durationMs / 1000).toFixed(1)}s`)
+      : green(`${(durationMs / 1000).toFixed(1)}s`);
+    process.stdout.write(
+      `${cyan(`[${tool.name}]`)} ${named.result.success ? green("done") : red("err")} (${durationStr}) ${formatToolOutput(named)}\n`,
+    );
+    return named;
+  };
+
+  console.log(dim(`  Fast path: scanning before calling the model`));
+  try {
+    const scan = await callTool(scanTool, navigateUrl ? { url: navigateUrl, navigate: true } : {});
+    if (scan.name !== "scan_page_for_code" || !scan.result.success) return finish(false);
+    if (SHUTDOWN.requested) return finish(true);
+    if (scan.result.data.isCompletion) return finish(true);
+
+    const scored = scoreCandidates(scan.result.data.codes);
+    const pick = pickConfidentCode(scored);
+    if (!pick) {
+      const top = scored.slice(0, 3).map((c) => `${c.code}(${c.src}:${c.score})`).join(", ");
+      console.log(dim(`  Fast path: no confident code${top ? ` — top: ${top}` : ""}; handing over to the model`));
+      return finish(true);
+    }
 
-      // Handle escalation
-      if (timings.escalateRequested && !timings.lastEnterCodeUrl) {
+    console.log(dim(`  Fast path: submitting "${pick.code}" (${pick.src}, score ${pick.score})`));
+    await callTool(enterTool, { code: pick.code });
+    const result = finish(true);
+    if (result.outcome === "failed") {
+      console.log(yellow(`  Fast path: "${pick.code}" did not advance the page; handing over to the model`));
+    } else if (result.outcome === "regressed") {
+      result.recovered = await recoverStep(step, result.afterUrl, replayAttempt?.record ?? null);
+      attemptRecorder?.annotate({ recovered: result.recovered });
+    }
+    return result;
+  } catch (err: any) {
+    console.error(red(`  Fast path error on step ${step}: ${err.message}`));
+    return finish(timings.toolCalls > 0, err.message);
+  } finally {
+    attemptRecorder?.save();
+    await settleToolWork();
+  }
+}
+
+/** Whether to run the fast path before the next model attempt; a replay
+ *  only runs it where the recording has one. */
+function shouldRunFastPath(): boolean {
+  if (!parsed.fastPath) return false;
+  return REPLAY ? REPLAY.nextIsFastPath() : true;
+}
+
+// ---- Challenge classification ----
+
+/** Classify the open step page; replays reuse the recorded classification.
+ *  Null when no page is open yet (the attempt navigates) or it can't be read. */
+async function classifyStep(): Promise<ChallengeClassification | null> {
+  let challenge: ChallengeClassification | null = null;
+  if (REPLAY) {
+    challenge = REPLAY.peek()?.challenge ?? null;
+  } else {
+    try {
+      const features = await readPageFeatures(await browserSession().page());
+      challenge = features ? classifyChallenge(features) : null;
+    } catch (err: any) {
+      console.log(yellow(`  Could not classify the page: ${err.message}`));
+    }
+  }
+  if (challenge) {
+    const signals = challenge.signals.length > 0 ? ` — ${challenge.signals.join(", ")}` : "";
+    console.log(
+      dim(
+        `  Challenge type: ${challenge.type} (confidence ${challenge.confidence}` +
+          `${isConfident(challenge) ? "" : ", too low — full prompt and tools"})${signals}`,
+      ),
+    );
+  }
+  return challenge;
+}
+
+/** Ladder index to start a step at, logging when the type skips rungs */
+function routeStep(challenge: ChallengeClassification | null, ladder: ModelRung[]): number {
+  const start = routeRung(challenge, ladder);
+  if (start > 0 && challenge) {
+    console.log(
+      yellow(
+        `  ${CHALLENGE_PROFILES[challenge.type].label} challenge — starting at rung ${start + 1} (${bold(ladder[start].modelID)})`,
+      ),
+    );
+  }
+  return start;
+}
+
+// ---- Step snapshots ----
+
+/**
+ * Snapshot the step page for retries to rewind to. `fresh` means the step
+ * was opened in a fresh browser context, so the bare recipe for the URL the
+ * page is on stands in for a capture. Null in replays (the browser isn't
+ * used), with --no-rewind, or when the page isn't on `step`.
+ */
+async function snapshotStep(step: number, fresh: boolean): Promise<StepSnapshot | null> {
+  if (REPLAY || !parsed.rewind) return null;
+  try {
+    const page = await browserSession().page();
+    const snapshot = fresh ? freshStepSnapshot(page.url()) : await captureStepSnapshot(page);
+    return snapshot?.step === step ? snapshot : null;
+  } catch (err: any) {
+    console.log(yellow(`  Could not snapshot step ${step}: ${err.message}`));
+    return null;
+  }
+}
+
+/** Rewind the page to a step snapshot before a retry. False if it didn't get back to the step. */
+async function rewindStep(snapshot: StepSnapshot): Promise<boolean> {
+  const start = Date.now();
+  try {
+    const url = await restoreStepSnapshot(await browserSession().page(), snapshot);
+    if (getStepFromUrl(url) !== snapshot.step) {
+      console.log(yellow(`  Rewind ended on ${url}, not step ${snapshot.step}; retrying from there`));
+      return false;
+    }
+    console.log(dim(`  Rewound step ${snapshot.step} to its starting state (${((Date.now() - start) / 1000).toFixed(1)}s)`));
+    return true;
+  } catch (err: any) {
+    console.log(yellow(`  Could not rewind step ${snapshot.step}: ${err.message}; retrying on the page as it is`));
+    return false;
+  }
+}
+
+// ---- Bench mode ----
+
+/** One bench run of a step: fresh browser context, navigate straight to the
+ *  step, then walk the ladder until the step is solved or every rung failed. */
+async function benchRun(
+  step: number,
+  run: number,
+  recorder: RunRecorder | null,
+  attemptReports: AttemptReport[],
+  variant: RunVariant = DEFAULT_VARIANT,
+  version = parsed.version,
+): Promise<BenchSample> {
+  await browserSession().reset();
+  stepBudget().beginStep();
+  const url = stepUrl(CHALLENGE_URL, step, version);
+  const sample: BenchSample = {
+    step,
+    run,
+    success: false,
+    solvedBy: null,
+    attempts: 0,
+    totalMs: 0,
+    toolMs: 0,
+    thinkingMs: 0,
+    toolCalls: 0,
+  };
+
+  const addTimes = (report: AttemptReport) => {
+    sample.totalMs += report.durationMs;
+    sample.toolMs += report.toolTimeMs;
+    sample.thinkingMs += report.thinkingMs;
+    sample.toolCalls += report.toolCalls;
+  };
+
+  // The fast path's time counts toward the run, but not as a ladder attempt
+  let navigated = false;
+  const summaries: AttemptSummary[] = [];
+  // Every run starts from a fresh context, so the bare recipe is the step's starting state
+  const snapshot = REPLAY || !parsed.rewind ? null : freshStepSnapshot(url);
+  let touched = false;
+  if (shouldRunFastPath()) {
+    const fast = await runFastPath(step, url, recorder);
+    const report = toAttemptReport(step, FAST_PATH_ATTEMPT, FAST_PATH_RUNG, fast, variant, run);
+    attemptReports.push(report);
+    addTimes(report);
+    if (fast.outcome === "solved" || fast.outcome === "completed") {
+      sample.success = true;
+      sample.solvedBy = formatRung(FAST_PATH_RUNG);
+      return sample;
+    }
+    if ((fast.outcome === "regressed" && !fast.recovered) || fast.outcome === "interrupted") return sample;
+    navigated = fast.scanned;
+    touched = fast.scanned;
+    if (fast.summary.rejectedCodes.length > 0) summaries.push(fast.summary);
+  }
+
+  // Without the fast path's scan the page isn't open yet, so there's nothing to classify
+  const challenge = navigated ? await classifyStep() : null;
+  const firstAttempt = routeStep(challenge, variant.ladder);
+
+  const maxAttempts = variant.ladder.length;
+  let stallReruns = 0;
+  let providerReruns = 0;
+  let rerun = false;
+  for (let attempt = firstAttempt; attempt < maxAttempts; attempt++) {
+    if (REPLAY && REPLAY.remaining() === 0) break;
+    const model = getModelForAttempt(attempt, variant.ladder);
+    if (attempt > firstAttempt && !rerun) {
+      console.log(yellow(`\n  Attempt ${attempt + 1}/${maxAttempts} — escalating to ${bold(model.modelID)}`));
+    }
+    // A re-run carries on from the page as the provider failure left it
+    if (touched && snapshot && !rerun && (await rewindStep(snapshot))) navigated = true;
+    rerun = false;
+    let instruction = !navigated ? navigateInstruction(url, true) : SOLVE_INSTRUCTION;
+    const retryContext = formatRetryContext(summaries);
+    if (retryContext) instruction += `\n\n${retryContext}`;
+    const result = await runAttempt(step, attempt, model, instruction, challenge, recorder, variant, version);
+    navigated = true;
+    touched = true;
+    const report = toAttemptReport(step, attempt, model, result, variant, run);
+    attemptReports.push(report);
+    addTimes(report);
+
+    // A hung stream or a provider error says nothing about the rung — run it again
+    if (result.outcome === "stalled" && stallReruns < parsed.stallRetries) {
+      stallReruns++;
+      rerun = true;
+      attempt--;
+      continue;
+    }
+    if (result.transient && providerReruns < parsed.providerRetries) {
+      if (!REPLAY) await backoff(retryDelay(providerReruns, latestRetryHint()), SHUTDOWN.signal);
+      providerReruns++;
+      rerun = true;
+      attempt--;
+      continue;
+    }
+    summaries.push(result.summary);
+    sample.attempts++;
+
+    if (result.outcome === "solved" || result.outcome === "completed") {
+      sample.success = true;
+      sample.solvedBy = formatRung(model);
+      break;
+    }
+    // A decoy sent the page back and the site wouldn't jump forward again — this run of the step is lost
+    if (result.outcome === "regressed" && !result.recovered) break;
+    if (result.outcome === "over-budget" || result.outcome === "interrupted") break;
+  }
+  return sample;
+}
+
+async function runBench(recorder: RunRecorder | null, attemptReports: AttemptReport[]): Promise<void> {
+  const steps = STEP_LIST ?? [TARGET_STEP ?? 1];
+  let baseline: BenchResult | null = null;
+  if (parsed.baseline) {
+    try {
+      baseline = loadBenchResult(parsed.baseline);
+    } catch (err: any) {
+      console.error(red(err.message));
+      return;
+    }
+  }
+
+  console.log(bold(`Bench: steps ${steps.join(",")} × ${parsed.repeat} runs (fresh browser context per run)`));
+  const samples: BenchSample[] = [];
+
+  // Rounds are interleaved (every step once per round) so provider latency
+  // drift spreads evenly over all steps instead of skewing the last ones.
+  rounds: for (let run = 1; run <= parsed.repeat; run++) {
+    for (const step of steps) {
+      if (REPLAY && REPLAY.remaining() === 0) {
+        console.log(yellow("\n  Replay exhausted — no more recorded attempts."));
+        break rounds;
+      }
+      if (BUDGET.exhausted()) {
+        console.log(red(`\n  Budget exhausted (${formatCost(BUDGET.spentUsd)} spent) — stopping bench.`));
+        break rounds;
+      }
+      console.log(bold(`\n${"=".repeat(16)} Bench step ${step} · run ${run}/${parsed.repeat} ${"=".repeat(16)}`));
+      const sample = await benchRun(step, run, recorder, attemptReports);
+      // A run cut short would skew the step's stats; its attempts are still in the report
+      if (SHUTDOWN.requested) {
+        await saveInterruptScreenshot(step, recorder);
+        break rounds;
+      }
+      samples.push(sample);
+      console.log(
+        sample.success
+          ? green(`  Run ${run}: solved in ${(sample.totalMs / 1000).toFixed(1)}s (${sample.toolCalls} tools, ${sample.solvedBy})`)
+          : red(`  Run ${run}: failed after ${sample.attempts} attempts`),
+      );
+    }
+  }
+
+  const result = createBenchResult({
+    challengeUrl: CHALLENGE_URL,
+    ladder: MODEL_LADDER,
+    repeat: parsed.repeat,
+    steps,
+    samples,
+  });
+
+  console.log(bold("\n" + "=".repeat(60)));
+  console.log(bold("BENCH SUMMARY"));
+  console.log(bold("=".repeat(60)));
+  console.log(`Model ladder: ${MODEL_LADDER.map(formatRung).join(" → ")}`);
+  if (baseline) {
+    console.log(dim(`Baseline: ${parsed.baseline} (${baseline.createdAt}) — deltas in parentheses`));
+  }
+  for (const line of formatBenchTable(result.stats, samples, baseline)) {
+    console.log(`  ${line}`);
+  }
+  if (parsed.benchOut) {
+    saveBenchResult(parsed.benchOut, result);
+    console.log(dim(`\nBench results written: ${parsed.benchOut}`));
+  }
+}
+
+// ---- Experiment mode ----
+
+async function runExperiment(recorder: RunRecorder | null, attemptReports: AttemptReport[]): Promise<void> {
+  let experiment: ExperimentConfig;
+  let steps: number[];
+  try {
+    experiment = loadExperiment(parsed.experiment!, parsed.adapter);
+    steps = STEP_LIST ?? (experiment.steps ? parseStepList(experiment.steps) : [TARGET_STEP ?? 1]);
+  } catch (err: any) {
+    console.error(red(err.message));
+    return;
+  }
+  const repeat = experiment.repeat ?? parsed.repeat;
+  const variants: RunVariant[] = experiment.variants.map((v) => ({
+    name: v.name,
+    ladder: v.ladder ?? MODEL_LADDER,
+    prompts: { ...DEFAULT_PROMPT_SECTIONS, ...v.prompts },
+    toolNames: v.toolNames,
+  }));
+
+  console.log(bold(`Experiment: ${experiment.file} — steps ${steps.join(",")} × ${repeat} runs × ${variants.length} variants`));
+  for (const [i, v] of experiment.variants.entries()) {
+    const changes = [
+      ...Object.keys(v.prompts).map((section) => `prompt.${section}`),
+      ...(v.ladder ? [`ladder=${v.ladder.map(formatRung).join(" → ")}`] : []),
+      ...(v.toolNames ? [`tools=${v.toolNames.join(",")}`] : []),
+    ];
+    console.log(dim(`  ${i === 0 ? "control" : "variant"} ${v.name}: ${changes.join(" ") || "(defaults)"}`));
+  }
+
+  // Variant ladders may name providers the main ladder doesn't use
+  if (!REPLAY) {
+    const authChecked = new Set(MODEL_LADDER.map((r) => `${r.providerID}:${r.adapter}`));
+    for (const rung of variants.flatMap((v) => v.ladder)) {
+      const key = `${rung.providerID}:${rung.adapter}`;
+      if (authChecked.has(key)) continue;
+      authChecked.add(key);
+      if (!(await checkAuth(rung.providerID, rung.adapter))) return;
+    }
+  }
+
+  const samples = new Map<string, BenchSample[]>(variants.map((v) => [v.name, []]));
+
+  rounds: for (let run = 1; run <= repeat; run++) {
+    for (const step of steps) {
+      // Rotate which variant goes first so none always gets the warm (or cold) slot
+      for (let k = 0; k < variants.length; k++) {
+        const variant = variants[(k + run - 1) % variants.length];
+        if (REPLAY && REPLAY.remaining() === 0) {
+          console.log(yellow("\n  Replay exhausted — no more recorded attempts."));
+          break rounds;
+        }
+        if (BUDGET.exhausted()) {
+          console.log(red(`\n  Budget exhausted (${formatCost(BUDGET.spentUsd)} spent) — stopping experiment.`));
+          break rounds;
+        }
         console.log(
-          yellow(`  Escalate requested — will retry with stronger model`),
+          bold(`\n${"=".repeat(12)} Experiment step ${step} · run ${run}/${repeat} · ${variant.name} ${"=".repeat(12)}`),
         );
-        attemptForStep++;
-        if (attemptForStep >= MAX_ATTEMPTS) {
-          console.log(
-            red(`  All ${MAX_ATTEMPTS} models failed on step ${currentStep}. Skipping.`),
-          );
-          challengeResults.push({
-            step: currentStep,
-            timeMs: challengeTime,
-            tools: timings.toolCalls,
-            success: false,
-            model: model.modelID,
-          });
-          attemptForStep = 0;
-          lastKnownStep = currentStep + 1;
+        const sample = await benchRun(step, run, recorder, attemptReports, variant);
+        if (SHUTDOWN.requested) {
+          await saveInterruptScreenshot(step, recorder);
+          break rounds;
         }
-        continue;
+        samples.get(variant.name)!.push(sample);
+        console.log(
+          sample.success
+            ? green(`  ${variant.name}: solved in ${(sample.totalMs / 1000).toFixed(1)}s (${sample.toolCalls} tools)`)
+            : red(`  ${variant.name}: failed after ${sample.attempts} attempts`),
+        );
       }
+    }
+  }
 
-      // ---- Determine outcome from browser URL (source of truth) ----
-      const afterUrl = timings.lastEnterCodeUrl || "";
-      const afterStep = afterUrl ? getStepFromUrl(afterUrl) : null;
+  const summary = summarizeExperiment(samples);
+  console.log(bold("\n" + "=".repeat(60)));
+  console.log(bold("EXPERIMENT SUMMARY"));
+  console.log(bold("=".repeat(60)));
+  for (const line of formatExperimentSummary(summary)) {
+    console.log(`  ${line}`);
+  }
+  if (parsed.benchOut) {
+    saveExperimentResult(parsed.benchOut, { experiment: experiment.file, steps, repeat, samples, summary });
+    console.log(dim(`\nExperiment results written: ${parsed.benchOut}`));
+  }
+}
+
+// ---- Matrix mode ----
 
-      if (afterUrl) {
-        console.log(dim(`  Page URL: ${afterUrl}`));
+/**
+ * Run every (step, version) pair once, each like a bench run, and summarize
+ * them as one grid. With --concurrency N, up to N pairs run side by side, each
+ * in a browser session and lane of its own; their attempts are recorded in
+ * pair order so the recording replays one pair at a time.
+ */
+async function runMatrix(recorder: RunRecorder | null, attemptReports: AttemptReport[]): Promise<void> {
+  const steps = STEP_LIST ?? (TARGET_STEP ? [TARGET_STEP] : Array.from({ length: MAX_CHALLENGES }, (_, i) => i + 1));
+  const versions = VERSION_LIST ?? [parsed.version];
+  const pairs = versions.flatMap((version) => steps.map((step) => ({ step, version })));
+  const concurrency = Math.min(parsed.concurrency, pairs.length);
+  console.log(
+    bold(
+      `Matrix: steps ${steps.join(",")} × versions ${versions.join(",")} (fresh browser context per pair` +
+        (concurrency > 1 ? `, ${concurrency} at a time)` : ")"),
+    ),
+  );
+  if (concurrency > 1) prefixLaneLogs();
+  const cells: MatrixCell[] = [];
+  let stopped = false;
+
+  // Held attempts of pairs running side by side, committed in pair order as they finish
+  const pairRecorders = pairs.map(() => (recorder && concurrency > 1 ? recorder.defer() : null));
+  const finished = pairs.map(() => false);
+  let committed = 0;
+  const commitFinished = () => {
+    while (committed < pairs.length && finished[committed]) pairRecorders[committed++]?.commit();
+  };
+
+  const runPair = async ({ step, version }: { step: number; version: string }, index: number) => {
+    if (REPLAY && REPLAY.remaining() === 0) {
+      console.log(yellow("\n  Replay exhausted — no more recorded attempts."));
+      stopped = true;
+      return;
+    }
+    if (BUDGET.exhausted()) {
+      if (!stopped) console.log(red(`\n  Budget exhausted (${formatCost(BUDGET.spentUsd)} spent) — stopping matrix.`));
+      stopped = true;
+      return;
+    }
+    console.log(bold(`\n${"=".repeat(16)} Step ${step} · version ${version} ${"=".repeat(16)}`));
+    const pairReports: AttemptReport[] = [];
+    const pairRecorder = pairRecorders[index] ?? recorder;
+    const sample = await benchRun(step, 1, pairRecorder, pairReports, DEFAULT_VARIANT, version);
+    // Each pair runs once, so the pair's version names it rather than a run number
+    attemptReports.push(...pairReports.map(({ run: _run, ...report }) => ({ ...report, version })));
+    // A pair cut short isn't a result; its attempts are still in the report
+    if (SHUTDOWN.requested) {
+      await saveInterruptScreenshot(step, recorder);
+      return;
+    }
+    cells.push({ step, version, sample });
+    console.log(
+      sample.success
+        ? green(`  Step ${step} v${version}: solved in ${(sample.totalMs / 1000).toFixed(1)}s (${sample.toolCalls} tools, ${sample.solvedBy})`)
+        : red(`  Step ${step} v${version}: failed after ${sample.attempts} attempts`),
+    );
+  };
+
+  try {
+    await runPool(
+      pairs,
+      concurrency,
+      concurrency > 1
+        ? (pair, index) => {
+            const browser = createBrowserSession();
+            const lane = { label: `s${pair.step} v${pair.version}`, toolWork: createToolWork(), budget: BUDGET.forLane(), browser };
+            return runInLane(lane, () => runWithOwnRetryHints(() => runPair(pair, index))).finally(async () => {
+              await browser.reset();
+              finished[index] = true;
+              commitFinished();
+            });
+          }
+        : runPair,
+      () => stopped || SHUTDOWN.requested !== null,
+    );
+  } finally {
+    // Pairs never started leave gaps; what did run is still saved, in order
+    for (const pairRecorder of pairRecorders.slice(committed)) pairRecorder?.commit();
+  }
+
+  console.log(bold("\n" + "=".repeat(60)));
+  console.log(bold(`MATRIX SUMMARY${SHUTDOWN.requested ? ` (interrupted by ${SHUTDOWN.requested})` : ""}`));
+  console.log(bold("=".repeat(60)));
+  console.log(`Model ladder: ${MODEL_LADDER.map(formatRung).join(" → ")}`);
+  for (const line of formatMatrixTable(steps, versions, cells)) {
+    console.log(`  ${line}`);
+  }
+  const failed = cells.filter((c) => !c.sample.success);
+  if (failed.length > 0) {
+    console.log(red(`Failed: ${failed.map((c) => `step ${c.step} v${c.version}`).join(", ")}`));
+  }
+  const costUsd = attemptReports.reduce((sum, a) => sum + (a.costUsd ?? 0), 0);
+  console.log(`Est. cost: ${formatCost(costUsd)}`);
+}
+
+/** Screenshot the page a signal stopped the run on, next to the run's recording or report */
+async function saveInterruptScreenshot(step: number, recorder: RunRecorder | null): Promise<void> {
+  const page = REPLAY ? null : browserSession().openPage();
+  if (!page) return;
+  const dir = recorder?.dir ?? path.dirname(parsed.report ?? parsed.junit ?? parsed.checkpoint ?? DEFAULT_CHECKPOINT_PATH);
+  const file = path.join(dir, `interrupted-step-${step}.png`);
+  try {
+    await page.screenshot({ path: file, fullPage: true, timeout: 5000 });
+    console.log(dim(`Screenshot of step ${step}: ${file}`));
+  } catch (err: any) {
+    console.error(yellow(`Could not save screenshot: ${err.message}`));
+  }
+}
+
+/** Write --report / --junit for everything recorded so far */
+function writeReports(totalStart: number, attemptReports: AttemptReport[]): void {
+  if (!parsed.report && !parsed.junit) return;
+  const report = buildRunReport({
+    startedAt: totalStart,
+    challengeUrl: CHALLENGE_URL,
+    ladder: MODEL_LADDER,
+    args: parsed,
+    attempts: attemptReports,
+  });
+  try {
+    writeRunReport(report, { json: parsed.report, junit: parsed.junit });
+    console.log(dim(`\nReport written: ${[parsed.report, parsed.junit].filter(Boolean).join(", ")}`));
+  } catch (err: any) {
+    console.error(red(`Could not write report: ${err.message}`));
+  }
+}
+
+let fixtureServer: FixtureServer | null = null;
+
+async function main() {
+  // --print-config: show what the run would use, start nothing
+  if (RESOLVED.printConfig) {
+    const from = REPLAY ? `recording ${parsed.replay}` : RESUME ? `checkpoint ${parsed.resume}` : null;
+    console.log(bold(`Resolved settings${from ? ` (from ${from})` : ""}:`));
+    console.log(formatSettings(parsed, from ? null : RESOLVED.sources));
+    console.log(bold("Ladder:"));
+    MODEL_LADDER.forEach((rung, i) =>
+      console.log(`  rung ${i + 1}: ${formatRung(rung)} adapter=${rung.adapter} prompt=${rung.prompt} tools=${rung.tools}`),
+    );
+    console.log(bold("Tool timeouts (s):"), JSON.stringify(TOOL_TIMEOUTS));
+    if (CONFIG_SECTIONS.prices) console.log(bold("Configured prices:"), JSON.stringify(CONFIG_SECTIONS.prices));
+    return;
+  }
+  // A resumed run carries over the time spent before the checkpoint
+  const totalStart = Date.now() - (RESUME?.elapsedMs ?? 0);
+  if (parsed.fixtures && !REPLAY) {
+    fixtureServer = await startFixtureServer();
+    CHALLENGE_URL = fixtureServer.url;
+  }
+  console.log(bold("=== Adcock Challenge Agent (TanStack AI) ==="));
+  console.log(`Challenge URL: ${CHALLENGE_URL}`);
+  console.log(`Model ladder: ${MODEL_LADDER.map(formatRung).join(" → ")}`);
+  for (const [i, rung] of MODEL_LADDER.entries()) {
+    console.log(dim(`  rung ${i + 1}: adapter=${rung.adapter} prompt=${rung.prompt} tools=${rung.tools}`));
+  }
+  if (parsed.config) {
+    console.log(`Config: ${parsed.config}${parsed.profile ? ` (profile ${parsed.profile})` : ""}`);
+  }
+  console.log(`Headed: ${process.env.HEADED === "true" ? "yes" : "no"}`);
+  if (TARGET_STEP) {
+    console.log(`Step: ${TARGET_STEP} (${parsed.only ? "single step mode" : `through step ${MAX_CHALLENGES}`})`);
+  }
+  console.log(`Verbose: ${parsed.verbose ? "yes" : "no"}`);
+  console.log(`Debug chunks: ${parsed.debugChunks ? "yes" : "no"}`);
+  console.log(`Per-challenge timeout: ${parsed.timeoutSeconds}s`);
+  console.log(
+    `Stall watchdog: ${parsed.stallSeconds > 0 ? `${parsed.stallSeconds}s, up to ${parsed.stallRetries} reissues` : "off"}`,
+  );
+  if (parsed.debugToolInputs) {
+    console.log("Debug tool inputs: enabled");
+  }
+  if (RESUME?.finished) {
+    console.log(yellow(`Checkpoint ${parsed.resume} is from a finished run — nothing to resume.`));
+    return;
+  }
+
+  if (REPLAY) {
+    console.log(`Replay: ${REPLAY.dir} (${REPLAY.remaining()} recorded attempts, no provider calls)`);
+  } else {
+    // Check auth once per distinct provider + adapter mode in the ladder
+    const authChecked = new Set<string>();
+    for (const rung of MODEL_LADDER) {
+      const key = `${rung.providerID}:${rung.adapter}`;
+      if (authChecked.has(key)) continue;
+      authChecked.add(key);
+      if (!(await checkAuth(rung.providerID, rung.adapter))) return;
+    }
+  }
+  const recorder = parsed.record ? createRecorder(parsed.record, parsed, MODEL_LADDER) : null;
+  if (recorder) {
+    console.log(`Recording: ${recorder.dir}`);
+  }
+  if (parsed.report || parsed.junit) {
+    console.log(`Report: ${[parsed.report, parsed.junit].filter(Boolean).join(", ")}`);
+  }
+  console.log("");
+
+  if (parsed.bench || parsed.experiment) {
+    const attemptReports: AttemptReport[] = [];
+    if (parsed.experiment) {
+      await runExperiment(recorder, attemptReports);
+    } else {
+      await runBench(recorder, attemptReports);
+    }
+    writeReports(totalStart, attemptReports);
+    await closeBrowser();
+    console.log("\nDone. Browser closed. Exiting.");
+    return;
+  }
+
+  // --steps (or --versions) outside bench and experiment mode: each pair on its own
+  if (STEP_LIST || VERSION_LIST || parsed.concurrency > 1) {
+    const attemptReports: AttemptReport[] = [];
+    await runMatrix(recorder, attemptReports);
+    writeReports(totalStart, attemptReports);
+    await closeBrowser();
+    console.log("\nDone. Browser closed. Exiting.");
+    return;
+  }
+
+  // ---- Main challenge loop (URL-driven, no expectedStep counter) ----
+  let lastKnownStep = RESUME ? RESUME.step : TARGET_STEP || 1;
+  let attemptForStep = 0;
+  let isFirstChallenge = true;
+  let stepChallenge: ChallengeClassification | null = null;
+  // What failed attempts at the current step saw and tried, for the next one
+  let stepSummaries: AttemptSummary[] = [];
+  // Page state at the start of the current step; retries rewind to it
+  let stepSnapshot: StepSnapshot | null = null;
+  let stepTouched = false;
+  let stepInFreshBrowser = false;
+  let totalRegressions = RESUME?.regressions ?? 0;
+  // Attempts re-run at the current step because the provider stream stalled
+  let stepStallReruns = 0;
+  // ...or because it ended on a transient provider error
+  let stepProviderReruns = 0;
+  let rerunPending = false;
+  // --no-only starts at --step and carries on to the end
+  const finalStep = TARGET_STEP && parsed.only ? TARGET_STEP : MAX_CHALLENGES;
+
+  // If a target step is specified, update the URL to point directly to it
+  if (TARGET_STEP) {
+    CHALLENGE_URL = stepUrl(CHALLENGE_URL, TARGET_STEP, parsed.version);
+  } else if (parsed.versionProvided) {
+    try {
+      const urlObj = new URL(CHALLENGE_URL);
+      if (!urlObj.searchParams.has("version")) {
+        urlObj.searchParams.set("version", parsed.version);
+        CHALLENGE_URL = urlObj.toString();
       }
+    } catch {}
+  }
 
-      // Check for completion page
-      if (
-        afterUrl === "completion" ||
-        afterUrl.includes("congratulations") ||
-        afterUrl.includes("complete")
-      ) {
-        console.log(green("\n=== All challenges completed! ==="));
-        challengeResults.push({
-          step: currentStep,
-          timeMs: challengeTime,
-          tools: timings.toolCalls,
-          success: true,
-          model: model.modelID,
-        });
-        break;
+  const challengeResults: Array<{
+    step: number;
+    timeMs: number;
+    tools: number;
+    success: boolean;
+    model: string;
+  }> = [...(RESUME?.results ?? [])];
+  const attemptReports: AttemptReport[] = [...(RESUME?.attempts ?? [])];
+
+  // Checkpoint after every solved step (not for replays — those are offline re-runs)
+  const checkpointPath = parsed.checkpoint ?? DEFAULT_CHECKPOINT_PATH;
+  let pageVersion = RESUME?.pageVersion ?? parsed.version;
+  const writeCheckpoint = (url: string, finished: boolean) => {
+    if (REPLAY) return;
+    try {
+      saveCheckpoint(checkpointPath, {
+        args: parsed,
+        ladder: MODEL_LADDER,
+        step: lastKnownStep,
+        pageVersion,
+        url,
+        elapsedMs: Date.now() - totalStart,
+        regressions: totalRegressions,
+        finished,
+        results: challengeResults,
+        attempts: attemptReports,
+      });
+    } catch (err: any) {
+      console.error(yellow(`  Could not write checkpoint ${checkpointPath}: ${err.message}`));
+    }
+  };
+
+  if (RESUME) {
+    // Relaunch the browser directly on the saved step; the first attempt then
+    // solves in place like any later step would.
+    console.log(
+      bold(`Resuming from ${parsed.resume}: step ${lastKnownStep}, ${challengeResults.length} earlier results`),
+    );
+    const baseUrl = `${new URL(CHALLENGE_URL).origin}/`;
+    try {
+      await jumpToStep(await browserSession().page(), baseUrl, lastKnownStep, pageVersion);
+      isFirstChallenge = false;
+    } catch (err: any) {
+      // Let the first attempt navigate there itself instead
+      console.log(yellow(`  Could not jump to step ${lastKnownStep} (${err.message}); the model will navigate.`));
+      CHALLENGE_URL = stepUrl(baseUrl, lastKnownStep, pageVersion);
+    }
+  }
+
+  while (lastKnownStep <= finalStep) {
+    if (SHUTDOWN.requested) break;
+    if (REPLAY && REPLAY.remaining() === 0) {
+      console.log(yellow("\n  Replay exhausted — no more recorded attempts."));
+      break;
+    }
+    if (BUDGET.exhausted()) {
+      console.log(red(`\n  Budget exhausted (${formatCost(BUDGET.spentUsd)} spent of --max-cost ${formatCost(parsed.maxCost)}). Stopping.`));
+      break;
+    }
+    const currentStep = lastKnownStep;
+    let model = getModelForAttempt(attemptForStep);
+    // A re-run repeats the last attempt, even the step's first one
+    const rerun = rerunPending;
+    rerunPending = false;
+    const stepStart = attemptForStep === 0 && !rerun;
+
+    if (rerun) {
+      // Announced when it was scheduled
+    } else if (attemptForStep === 0) {
+      BUDGET.beginStep();
+      stepSummaries = [];
+      stepStallReruns = 0;
+      stepProviderReruns = 0;
+      console.log(
+        bold(`\n${"=".repeat(20)} Challenge ${currentStep} ${"=".repeat(20)}`),
+      );
+      // Without a page open yet, the snapshot is taken once the first attempt has navigated
+      stepInFreshBrowser = isFirstChallenge;
+      stepSnapshot = isFirstChallenge ? null : await snapshotStep(currentStep, false);
+      stepTouched = false;
+    } else {
+      console.log(
+        yellow(
+          `\n  Attempt ${attemptForStep + 1}/${MAX_ATTEMPTS} — escalating to ${bold(model.modelID)}`,
+        ),
+      );
+    }
+
+    // LLM-free fast path before the first model attempt at a step. Only a
+    // result that moved the page is kept; otherwise the model takes over.
+    let fastResult: FastPathResult | null = null;
+    if (stepStart && shouldRunFastPath()) {
+      const fast = await runFastPath(currentStep, isFirstChallenge ? CHALLENGE_URL : null, recorder);
+      attemptReports.push(toAttemptReport(currentStep, FAST_PATH_ATTEMPT, FAST_PATH_RUNG, fast));
+      if (fast.scanned) {
+        isFirstChallenge = false;
+        stepTouched = true;
+      }
+      if (fast.outcome === "solved" || fast.outcome === "completed" || (fast.outcome === "regressed" && !fast.recovered)) {
+        fastResult = fast;
+      } else {
+        if (fast.outcome === "interrupted") break;
+        if (fast.summary.rejectedCodes.length > 0) stepSummaries.push(fast.summary);
+        if (REPLAY && REPLAY.remaining() === 0) {
+          console.log(yellow("\n  Replay exhausted — no more recorded attempts."));
+          break;
+        }
+      }
+    }
+
+    // Classify once per step; the type picks playbooks and tools for every
+    // attempt at it, and may skip rungs that would only escalate
+    if (stepStart && !fastResult) {
+      stepChallenge = isFirstChallenge ? null : await classifyStep();
+      attemptForStep = routeStep(stepChallenge, MODEL_LADDER);
+      model = getModelForAttempt(attemptForStep);
+    }
+
+    let result: AttemptResult;
+    if (fastResult) {
+      result = fastResult;
+    } else {
+      // A retry starts from the step page as it was, not as the last attempt
+      // left it; a re-run after a provider failure carries on where it stopped
+      if (stepTouched && !rerun) {
+        stepSnapshot ??= stepInFreshBrowser ? await snapshotStep(currentStep, true) : null;
+        if (stepSnapshot) await rewindStep(stepSnapshot);
+      }
+
+      // Build instruction — first challenge gets URL, subsequent ones don't
+      let instruction: string;
+      if (isFirstChallenge) {
+        instruction = navigateInstruction(CHALLENGE_URL, !!TARGET_STEP || !!RESUME);
+        isFirstChallenge = false;
+      } else {
+        instruction = SOLVE_INSTRUCTION;
       }
+      const retryContext = formatRetryContext(stepSummaries);
+      if (retryContext) instruction += `\n\n${retryContext}`;
+
+      // A signal during the rewind or classification: don't start a model call
+      if (SHUTDOWN.requested) break;
+      result = await runAttempt(currentStep, attemptForStep, model, instruction, stepChallenge, recorder);
+      attemptReports.push(toAttemptReport(currentStep, attemptForStep, model, result));
+      // The step didn't finish, so it stays out of the results; the checkpoint resumes it
+      if (result.outcome === "interrupted") break;
+      if (result.outcome !== "stalled" && !result.transient) stepSummaries.push(result.summary);
+      stepTouched = true;
+    }
+    const rung = fastResult ? FAST_PATH_RUNG : model;
+    const { timings, afterUrl, afterStep, timeMs: challengeTime } = result;
+
+    // A hung provider stream or a transient provider error isn't the model
+    // failing: run the same rung again on the same page, without spending an
+    // escalation
+    if (result.outcome === "stalled" && stepStallReruns < parsed.stallRetries) {
+      stepStallReruns++;
+      rerunPending = true;
+      console.log(yellow(`  Re-running ${rung.modelID} on step ${currentStep} (stall re-run ${stepStallReruns}/${parsed.stallRetries})`));
+      continue;
+    }
+    if (result.transient && stepProviderReruns < parsed.providerRetries) {
+      const delayMs = REPLAY ? 0 : retryDelay(stepProviderReruns, latestRetryHint());
+      stepProviderReruns++;
+      rerunPending = true;
+      console.log(
+        yellow(
+          `  Provider ${result.transient} error — re-running ${rung.modelID} on step ${currentStep} in ${(delayMs / 1000).toFixed(1)}s (${stepProviderReruns}/${parsed.providerRetries})`,
+        ),
+      );
+      await backoff(delayMs, SHUTDOWN.signal);
+      continue;
+    }
 
-      if (afterStep && afterStep > currentStep) {
-        // Success — page advanced
+    if (result.outcome === "error" || result.outcome === "stalled") {
+      challengeResults.push({
+        step: currentStep,
+        timeMs: challengeTime,
+        tools: timings.toolCalls,
+        success: false,
+        model: rung.modelID,
+      });
+      attemptForStep++;
+      if (attemptForStep >= MAX_ATTEMPTS) {
         console.log(
-          green(
-            `  Step ${currentStep} solved! Page now on step ${afterStep}${attemptForStep > 0 ? ` (needed ${model.modelID})` : ""}`,
+          red(
+            `  All ${MAX_ATTEMPTS} models failed on step ${currentStep}. Skipping.`,
           ),
         );
-        challengeResults.push({
-          step: currentStep,
-          timeMs: challengeTime,
-          tools: timings.toolCalls,
-          success: true,
-          model: model.modelID,
-        });
-        lastKnownStep = afterStep;
         attemptForStep = 0;
+        lastKnownStep = currentStep + 1;
+      }
+      continue;
+    }
 
-        // --only / --step: exit after solving the targeted step
-        if (parsed.only) {
-          break;
-        }
-      } else if (afterStep && afterStep < currentStep) {
-        // Browser regressed
-        totalRegressions++;
+    // Budget stop — escalating would only spend more on the same step
+    if (result.outcome === "over-budget") {
+      challengeResults.push({
+        step: currentStep,
+        timeMs: challengeTime,
+        tools: timings.toolCalls,
+        success: false,
+        model: rung.modelID,
+      });
+      if (!BUDGET.exhausted()) {
+        console.log(red(`  Step ${currentStep} over its token budget. Skipping.`));
+      }
+      attemptForStep = 0;
+      lastKnownStep = currentStep + 1;
+      continue;
+    }
+
+    // Handle escalation
+    if (result.outcome === "escalated") {
+      console.log(
+        yellow(`  Escalate requested — will retry with stronger model`),
+      );
+      attemptForStep++;
+      if (attemptForStep >= MAX_ATTEMPTS) {
         console.log(
-          yellow(
-            `  Browser regressed to step ${afterStep} (was on step ${currentStep}). Resetting to step ${afterStep}.`,
-          ),
+          red(`  All ${MAX_ATTEMPTS} models failed on step ${currentStep}. Skipping.`),
         );
-        lastKnownStep = afterStep;
-        attemptForStep = 0;
-        if (totalRegressions > 10) {
-          console.log(red("  Too many regressions. Stopping."));
-          break;
-        }
-      } else {
-        // Failed to advance
-        if (!afterStep && !afterUrl) {
-          console.log(
-            yellow(`  No URL captured — assuming still on step ${currentStep}`),
-          );
-        } else {
-          console.log(
-            yellow(`  Still on step ${currentStep} — ${model.modelID} failed`),
-          );
-        }
         challengeResults.push({
           step: currentStep,
           timeMs: challengeTime,
           tools: timings.toolCalls,
           success: false,
-          model: model.modelID,
+          model: rung.modelID,
         });
-        attemptForStep++;
-        if (attemptForStep >= MAX_ATTEMPTS) {
-          console.log(
-            red(
-              `  All ${MAX_ATTEMPTS} models failed on step ${currentStep}. Skipping.`,
-            ),
-          );
-          attemptForStep = 0;
-          lastKnownStep = currentStep + 1;
-        }
+        attemptForStep = 0;
+        lastKnownStep = currentStep + 1;
       }
-    } catch (err: any) {
-      const challengeTime = Date.now() - timings.challengeStart;
-      const errorModel = getModelForAttempt(attemptForStep);
-      console.error(
-        red(
-          `  Error on step ${currentStep} (${errorModel.modelID}): ${err.message}`,
+      continue;
+    }
+
+    if (afterUrl) {
+      console.log(dim(`  Page URL: ${afterUrl}`));
+    }
+
+    // Check for completion page
+    if (result.outcome === "completed") {
+      console.log(green("\n=== All challenges completed! ==="));
+      challengeResults.push({
+        step: currentStep,
+        timeMs: challengeTime,
+        tools: timings.toolCalls,
+        success: true,
+        model: rung.modelID,
+      });
+      break;
+    }
+
+    if (result.outcome === "solved") {
+      // Success — page advanced
+      console.log(
+        green(
+          `  Step ${currentStep} solved! Page now on step ${afterStep}${fastResult ? " (fast path, no model call)" : attemptForStep > 0 ? ` (needed ${rung.modelID})` : ""}`,
         ),
       );
+      challengeResults.push({
+        step: currentStep,
+        timeMs: challengeTime,
+        tools: timings.toolCalls,
+        success: true,
+        model: rung.modelID,
+      });
+      lastKnownStep = afterStep!;
+      attemptForStep = 0;
+      pageVersion = new URL(afterUrl).searchParams.get("version") ?? pageVersion;
+      writeCheckpoint(afterUrl, false);
+
+      // --only / --step: exit after solving the targeted step
+      if (parsed.only) {
+        break;
+      }
+    } else if (result.outcome === "regressed" && !result.recovered) {
+      // Browser regressed and the jump back was rejected — re-solve from the earlier step
+      totalRegressions++;
+      console.log(
+        yellow(
+          `  Browser regressed to step ${afterStep} (was on step ${currentStep}). Resetting to step ${afterStep}.`,
+        ),
+      );
+      lastKnownStep = afterStep!;
+      attemptForStep = 0;
+      if (totalRegressions > 10) {
+        console.log(red("  Too many regressions. Stopping."));
+        break;
+      }
+    } else {
+      // Failed to advance (or regressed, and the page is back on the step)
+      if (result.outcome === "regressed") {
+        totalRegressions++;
+        console.log(yellow(`  ${rung.modelID} sent the page back to step ${afterStep}; retrying step ${currentStep}`));
+      } else if (!afterStep && !afterUrl) {
+        console.log(
+          yellow(`  No URL captured — assuming still on step ${currentStep}`),
+        );
+      } else {
+        console.log(
+          yellow(`  Still on step ${currentStep} — ${rung.modelID} failed`),
+        );
+      }
       challengeResults.push({
         step: currentStep,
         timeMs: challengeTime,
         tools: timings.toolCalls,
         success: false,
-        model: errorModel.modelID,
+        model: rung.modelID,
       });
       attemptForStep++;
       if (attemptForStep >= MAX_ATTEMPTS) {
@@ -1294,26 +2484,29 @@ async function main() {
     }
   }
 
+  // An interrupted run stays resumable from the step it was on
+  writeCheckpoint("", !SHUTDOWN.requested);
+  if (SHUTDOWN.requested) {
+    await saveInterruptScreenshot(lastKnownStep, recorder);
+  }
+
   // ---- Final summary ----
   const totalTime = Date.now() - totalStart;
   console.log(bold("\n" + "=".repeat(60)));
-  console.log(bold("FINAL SUMMARY"));
+  console.log(bold(SHUTDOWN.requested ? `FINAL SUMMARY (interrupted by ${SHUTDOWN.requested})` : "FINAL SUMMARY"));
   console.log(bold("=".repeat(60)));
   console.log(`Total time: ${(totalTime / 1000).toFixed(1)}s`);
-  console.log(
-    `Model ladder: ${MODEL_LADDER.map((m) => m.modelID).join(" → ")}`,
-  );
+  console.log(`Model ladder: ${MODEL_LADDER.map(formatRung).join(" → ")}`);
 
   const stepsAttempted = new Set(challengeResults.map((r) => r.step)).size;
   const successes = challengeResults.filter((r) => r.success).length;
-  const escalations = challengeResults.filter(
-    (r) => r.success && r.model !== MODEL_LADDER[0].modelID,
-  ).length;
+  // Same count as the report's: rung changes after a failure, not routing or re-runs
+  const escalations = countEscalations(attemptReports);
   console.log(`Steps attempted: ${stepsAttempted}`);
   console.log(`Solved: ${successes}/${stepsAttempted}`);
   if (escalations > 0) {
     console.log(
-      `Escalations needed: ${escalations} (solved by stronger model)`,
+      `Escalations needed: ${escalations} (solved on a later rung after a failed one)`,
     );
   }
   console.log(
@@ -1325,6 +2518,41 @@ async function main() {
   console.log(
     `Avg tool calls: ${challengeResults.length > 0 ? (challengeResults.reduce((s, r) => s + r.tools, 0) / challengeResults.length).toFixed(1) : 0}`,
   );
+  const totalStalls = attemptReports.reduce((s, a) => s + (a.stalls ?? 0), 0);
+  if (totalStalls > 0) {
+    console.log(`Provider stalls: ${totalStalls} (reissued or re-run; not counted as failures)`);
+  }
+  const totalProviderRetries = attemptReports.reduce((s, a) => s + (a.providerRetries ?? 0), 0);
+  const transientAttempts = attemptReports.filter((a) => a.transientError).length;
+  if (totalProviderRetries + transientAttempts > 0) {
+    console.log(
+      `Provider errors: ${totalProviderRetries} call(s) retried, ${transientAttempts} attempt(s) ended on one`,
+    );
+  }
+
+  // Tokens and estimated cost, overall and per model
+  const byModel = new Map<string, { rung: ModelRung; usage: TokenUsage; cost: number | null }>();
+  for (const a of attemptReports) {
+    const key = formatRung(a.rung);
+    const entry = byModel.get(key) ?? { rung: a.rung, usage: { promptTokens: 0, completionTokens: 0 }, cost: 0 };
+    entry.usage.promptTokens += a.usage.promptTokens;
+    entry.usage.completionTokens += a.usage.completionTokens;
+    const cost = a.costUsd ?? estimateCost(a.rung, a.usage, PRICES);
+    entry.cost = entry.cost === null || cost === null ? null : entry.cost + cost;
+    byModel.set(key, entry);
+  }
+  const totalIn = attemptReports.reduce((s, a) => s + a.usage.promptTokens, 0);
+  const totalOut = attemptReports.reduce((s, a) => s + a.usage.completionTokens, 0);
+  const totalCost = [...byModel.values()].reduce((s, e) => s + (e.cost ?? 0), 0);
+  const unpriced = [...byModel.values()].some((e) => e.cost === null);
+  console.log(
+    `Tokens: in:${totalIn} out:${totalOut}  │  Est. cost: ${formatCost(totalCost)}${unpriced ? dim(" (some models unpriced)") : ""}`,
+  );
+  for (const [key, entry] of byModel) {
+    console.log(
+      dim(`  ${key}: in:${entry.usage.promptTokens} out:${entry.usage.completionTokens} ${formatCost(entry.cost)}`),
+    );
+  }
   console.log("");
 
   // Group results by step for display
@@ -1355,11 +2583,19 @@ async function main() {
     }
   }
 
+  writeReports(totalStart, attemptReports);
+
   await closeBrowser();
   console.log("\nDone. Browser closed. Exiting.");
 }
 
-main().catch((err) => {
-  console.error("Fatal error:", err);
-  closeBrowser().catch(() => {});
-});
+main()
+  .catch((err) => {
+    console.error("Fatal error:", err);
+    closeBrowser().catch(() => {});
+  })
+  .finally(() => {
+    // An open fixture server would keep the process alive after early returns
+    fixtureServer?.close().catch(() => {});
+    if (SHUTDOWN.requested) process.exitCode = SHUTDOWN.exitCode;
+  });
@@ -13,11 +13,15 @@
  * Supports both credential types stored by OpenCode:
  *   - type: "api"   → uses x-api-key header (standard path)
  *   - type: "oauth"  → uses custom fetch wrapper with Bearer auth
+ *
+ * Failed responses and failed refreshes are noted as retry hints
+ * (./retry-hints) for the orchestrator's provider-error retries.
  */
 import path from "node:path"
 import os from "node:os"
 import { promises as fs } from "node:fs"
 import Anthropic_SDK from "@anthropic-ai/sdk"
+import { noteResponse, noteOAuthRefreshFailure } from "./retry-hints"
 
 // Same client_id that opencode-anthropic-auth@0.0.13 uses
 const ANTHROPIC_OAUTH_CLIENT_ID = "9d1c250a-e61b-44d9-88ed-5944d1962f5e"
@@ -65,6 +69,7 @@ async function writeAuthJson(data: AuthJson): Promise<void> {
 
 /** In-memory cache so we don't re-read auth.json on every fetch call */
 let cachedAuth: OAuthAuth | null = null
+let refreshing: Promise<OAuthAuth> | null = null
 
 async function getOrRefreshOAuth(): Promise<OAuthAuth> {
   if (!cachedAuth) {
@@ -78,47 +83,60 @@ async function getOrRefreshOAuth(): Promise<OAuthAuth> {
 
   // Refresh if expired or near-expiry
   if (!cachedAuth.access || cachedAuth.expires < Date.now() + REFRESH_BUFFER_MS) {
-    console.log("  Refreshing Anthropic OAuth token...")
-    const response = await fetch(ANTHROPIC_TOKEN_URL, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        grant_type: "refresh_token",
-        refresh_token: cachedAuth.refresh,
-        client_id: ANTHROPIC_OAUTH_CLIENT_ID,
-      }),
+    // Requests that find the token expired together share one refresh
+    refreshing ??= refreshOAuth(cachedAuth).finally(() => {
+      refreshing = null
     })
+    cachedAuth = await refreshing
+  }
 
-    if (!response.ok) {
-      const body = await response.text().catch(() => "")
-      throw new Error(`OAuth token refresh failed: ${response.status} ${body}`)
-    }
+  return cachedAuth
+}
 
-    const json = (await response.json()) as {
-      access_token: string
-      refresh_token: string
-      expires_in: number
-    }
+async function refreshOAuth(auth: OAuthAuth): Promise<OAuthAuth> {
+  console.log("  Refreshing Anthropic OAuth token...")
+  const response = await fetch(ANTHROPIC_TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      grant_type: "refresh_token",
+      refresh_token: auth.refresh,
+      client_id: ANTHROPIC_OAUTH_CLIENT_ID,
+    }),
+  }).catch((err) => {
+    noteOAuthRefreshFailure(null)
+    throw err
+  })
 
-    cachedAuth = {
-      type: "oauth",
-      access: json.access_token,
-      refresh: json.refresh_token,
-      expires: Date.now() + json.expires_in * 1000,
-      accountId: cachedAuth.accountId,
-    }
+  if (!response.ok) {
+    noteOAuthRefreshFailure(response.status)
+    const body = await response.text().catch(() => "")
+    throw new Error(`OAuth token refresh failed: ${response.status} ${body}`)
+  }
 
-    // Persist refreshed tokens
-    const allAuth = await readAuthJson()
-    allAuth["anthropic"] = cachedAuth
-    await writeAuthJson(allAuth)
+  const json = (await response.json()) as {
+    access_token: string
+    refresh_token: string
+    expires_in: number
+  }
 
-    console.log(
-      `  Token refreshed. Expires: ${new Date(cachedAuth.expires).toLocaleTimeString()}`,
-    )
+  const refreshed: OAuthAuth = {
+    type: "oauth",
+    access: json.access_token,
+    refresh: json.refresh_token,
+    expires: Date.now() + json.expires_in * 1000,
+    accountId: auth.accountId,
   }
 
-  return cachedAuth
+  // Persist refreshed tokens
+  const allAuth = await readAuthJson()
+  allAuth["anthropic"] = refreshed
+  await writeAuthJson(allAuth)
+
+  console.log(
+    `  Token refreshed. Expires: ${new Date(refreshed.expires).toLocaleTimeString()}`,
+  )
+  return refreshed
 }
 
 /**
@@ -308,6 +326,7 @@ async function oauthFetch(
     body,
     headers: requestHeaders,
   })
+  noteResponse(response)
 
   // Transform streaming response to rename MCP-prefixed tool names back
   // to the local tool names expected by TanStack AI.
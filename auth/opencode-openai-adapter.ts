@@ -2,6 +2,7 @@ import path from "node:path"
 import os from "node:os"
 import { promises as fs } from "node:fs"
 import { createOpenaiChat } from "@tanstack/ai-openai"
+import { noteResponse, noteOAuthRefreshFailure } from "./retry-hints"
 
 const OPENAI_OAUTH_CLIENT_ID = "app_EMoamEEZ73f0CkXaXp7hrann"
 const OPENAI_OAUTH_ISSUER = "https://auth.openai.com"
@@ -43,6 +44,7 @@ async function writeAuthJson(data: AuthJson): Promise<void> {
 }
 
 let cachedAuth: OAuthAuth | null = null
+let refreshing: Promise<OAuthAuth> | null = null
 
 async function getOrRefreshOAuth(): Promise<OAuthAuth> {
   if (!cachedAuth) {
@@ -55,42 +57,55 @@ async function getOrRefreshOAuth(): Promise<OAuthAuth> {
   }
 
   if (!cachedAuth.access || cachedAuth.expires < Date.now() + REFRESH_BUFFER_MS) {
-    const response = await fetch(OPENAI_OAUTH_TOKEN_URL, {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body: new URLSearchParams({
-        grant_type: "refresh_token",
-        refresh_token: cachedAuth.refresh,
-        client_id: OPENAI_OAUTH_CLIENT_ID,
-      }).toString(),
+    // Requests that find the token expired together share one refresh
+    refreshing ??= refreshOAuth(cachedAuth).finally(() => {
+      refreshing = null
     })
+    cachedAuth = await refreshing
+  }
 
-    if (!response.ok) {
-      const body = await response.text().catch(() => "")
-      throw new Error(`OpenAI OAuth token refresh failed: ${response.status} ${body}`)
-    }
+  return cachedAuth
+}
 
-    const json = (await response.json()) as {
-      access_token: string
-      refresh_token: string
-      expires_in?: number
-      id_token?: string
-    }
+async function refreshOAuth(auth: OAuthAuth): Promise<OAuthAuth> {
+  const response = await fetch(OPENAI_OAUTH_TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "refresh_token",
+      refresh_token: auth.refresh,
+      client_id: OPENAI_OAUTH_CLIENT_ID,
+    }).toString(),
+  }).catch((err) => {
+    noteOAuthRefreshFailure(null)
+    throw err
+  })
 
-    cachedAuth = {
-      type: "oauth",
-      access: json.access_token,
-      refresh: json.refresh_token,
-      expires: Date.now() + (json.expires_in ?? 3600) * 1000,
-      accountId: cachedAuth.accountId,
-    }
+  if (!response.ok) {
+    noteOAuthRefreshFailure(response.status)
+    const body = await response.text().catch(() => "")
+    throw new Error(`OpenAI OAuth token refresh failed: ${response.status} ${body}`)
+  }
 
-    const allAuth = await readAuthJson()
-    allAuth["openai"] = cachedAuth
-    await writeAuthJson(allAuth)
+  const json = (await response.json()) as {
+    access_token: string
+    refresh_token: string
+    expires_in?: number
+    id_token?: string
   }
 
-  return cachedAuth
+  const refreshed: OAuthAuth = {
+    type: "oauth",
+    access: json.access_token,
+    refresh: json.refresh_token,
+    expires: Date.now() + (json.expires_in ?? 3600) * 1000,
+    accountId: auth.accountId,
+  }
+
+  const allAuth = await readAuthJson()
+  allAuth["openai"] = refreshed
+  await writeAuthJson(allAuth)
+  return refreshed
 }
 
 export async function loadOpenAIAuth(): Promise<OpenAIAuthInfo> {
@@ -182,6 +197,7 @@ async function openAIOAuthFetch(input: RequestInfo | URL, init?: RequestInit): P
     body,
     headers,
   })
+  noteResponse(response)
 
   if (debug || !response.ok) {
     const text = await response.clone().text().catch(() => "")
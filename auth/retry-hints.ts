@@ -0,0 +1,72 @@
+/**
+ * Retry hints from the OAuth fetch wrappers.
+ *
+ * A failed provider call reaches the orchestrator as a RUN_ERROR chunk with a
+ * message and a status code — the response headers are gone by then. The
+ * fetch wrappers note what the failed response said about retrying
+ * (retry-after-ms / retry-after) and whether the OAuth refresh that should
+ * have preceded the request failed, and the orchestrator reads the latest
+ * hint when it decides whether and when to retry. A successful response
+ * clears it, so a hint always belongs to the most recent failure.
+ * Steps running side by side (--concurrency) each keep their own hint
+ * (runWithOwnRetryHints()), so one step's retry-after doesn't time another
+ * step's unrelated retry.
+ */
+import { AsyncLocalStorage } from "node:async_hooks"
+
+export interface RetryHint {
+  /** HTTP status of the failed response; null for a network failure */
+  status: number | null
+  /** Delay the provider asked for; null when the response didn't say */
+  retryAfterMs: number | null
+  /** The OAuth token refresh failed, so the request was never sent */
+  oauthRefresh: boolean
+  at: number
+}
+
+/** Hints older than this belong to some earlier failure */
+const HINT_MAX_AGE_MS = 60_000
+
+interface HintSlot {
+  latest: RetryHint | null
+}
+
+const processSlot: HintSlot = { latest: null }
+const slots = new AsyncLocalStorage<HintSlot>()
+
+const slot = (): HintSlot => slots.getStore() ?? processSlot
+
+/** Run `fn` with a hint of its own, unseen by calls outside it */
+export function runWithOwnRetryHints<T>(fn: () => Promise<T>): Promise<T> {
+  return slots.run({ latest: null }, fn)
+}
+
+/** retry-after-ms, or retry-after in seconds or as an HTTP date */
+function parseRetryAfter(headers: Headers): number | null {
+  const ms = Number(headers.get("retry-after-ms"))
+  if (headers.has("retry-after-ms") && Number.isFinite(ms) && ms >= 0) return ms
+  const value = headers.get("retry-after")
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/** Note a provider response: a failed one becomes the hint, an ok one clears it */
+export function noteResponse(response: Response): void {
+  slot().latest = response.ok
+    ? null
+    : { status: response.status, retryAfterMs: parseRetryAfter(response.headers), oauthRefresh: false, at: Date.now() }
+}
+
+/** Note a failed OAuth refresh; `status` is null when the token endpoint wasn't reached */
+export function noteOAuthRefreshFailure(status: number | null): void {
+  slot().latest = { status, retryAfterMs: null, oauthRefresh: true, at: Date.now() }
+}
+
+/** The latest hint, if recent */
+export function latestRetryHint(): RetryHint | null {
+  const { latest } = slot()
+  return latest && Date.now() - latest.at <= HINT_MAX_AGE_MS ? latest : null
+}
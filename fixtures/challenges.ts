@@ -0,0 +1,245 @@
+/**
+ * Challenge corpus for the offline fixture site.
+ *
+ * Each challenge is rendered client-side by a small vanilla-JS renderer
+ * (kept as source text — it runs in the browser, not in Node). Renderers
+ * receive a ctx object:
+ *   ctx.root          — the challenge container
+ *   ctx.code          — this step's 6-character code
+ *   ctx.reveal()      — show the code in #result (call when the challenge is solved)
+ *   ctx.later(fn, ms) — setTimeout that is cancelled on route change
+ *   ctx.on(el, evt, fn) — addEventListener that is removed on route change
+ *
+ * Renderers deliberately trigger the same heuristics the agent relies on
+ * (autoSolve text patterns, drag_and_drop locators, shadow level buttons),
+ * so keep instruction copy in sync with tools/scan-page.ts when editing.
+ */
+
+export type FixtureType =
+  | "visible"
+  | "reveal"
+  | "scroll"
+  | "wait"
+  | "click-n"
+  | "hover"
+  | "drag"
+  | "shadow"
+  | "memory"
+  | "capture"
+
+export interface FixtureChallenge {
+  type: FixtureType
+  title: string
+  /** Show a blocking newsletter modal on top of the step */
+  popup?: boolean
+  /** Client-side renderer: `function (ctx) { ... }` */
+  render: string
+}
+
+export const FIXTURE_CHALLENGES: FixtureChallenge[] = [
+  {
+    type: "visible",
+    title: "Warm-up",
+    render: `function (ctx) {
+      ctx.root.innerHTML =
+        '<p>Enter the code shown below to continue.</p>' +
+        '<p>Code: <code>' + ctx.code + '</code></p>';
+    }`,
+  },
+  {
+    type: "reveal",
+    title: "Hidden Code",
+    popup: true,
+    render: `function (ctx) {
+      ctx.root.innerHTML =
+        '<p>The code is hidden. Click the button to show it.</p>' +
+        '<button id="reveal-btn" type="button">Reveal Code</button>';
+      ctx.on(ctx.root.querySelector('#reveal-btn'), 'click', function () { ctx.reveal(); });
+    }`,
+  },
+  {
+    type: "scroll",
+    title: "Scroll Challenge",
+    render: `function (ctx) {
+      var target = 600;
+      ctx.root.innerHTML =
+        '<p>Scroll down ' + target + 'px to reveal the code.</p>' +
+        '<p id="scroll-progress">Scrolled: 0px / ' + target + 'px</p>' +
+        '<div style="height:2400px"></div>';
+      var progress = ctx.root.querySelector('#scroll-progress');
+      ctx.on(window, 'scroll', function () {
+        var y = Math.round(window.scrollY);
+        progress.textContent = 'Scrolled: ' + Math.min(y, target) + 'px / ' + target + 'px';
+        if (y >= target) ctx.reveal();
+      });
+    }`,
+  },
+  {
+    type: "wait",
+    title: "Patience Challenge",
+    popup: true,
+    render: `function (ctx) {
+      ctx.root.innerHTML = '<p>The code will appear after waiting 3 seconds.</p>';
+      ctx.later(function () { ctx.reveal(); }, 3000);
+    }`,
+  },
+  {
+    type: "click-n",
+    title: "Click Challenge",
+    render: `function (ctx) {
+      var remaining = 5;
+      ctx.root.innerHTML =
+        '<p>Keep clicking the box to reveal the code.</p>' +
+        '<div id="click-box" class="click-box cursor-pointer" style="padding:24px;border:2px solid #333;display:inline-block">' +
+        '<span id="click-label">Click here ' + remaining + ' more times</span></div>';
+      var label = ctx.root.querySelector('#click-label');
+      ctx.on(ctx.root.querySelector('#click-box'), 'click', function () {
+        if (remaining <= 0) return;
+        remaining--;
+        label.textContent = remaining > 0 ? 'Click here ' + remaining + ' more times' : 'Done!';
+        if (remaining === 0) ctx.reveal();
+      });
+    }`,
+  },
+  {
+    type: "hover",
+    title: "Hover Challenge",
+    render: `function (ctx) {
+      ctx.root.innerHTML =
+        '<p>Hover over the box and hold still to reveal the code.</p>' +
+        '<div id="hover-target" class="hover-target" style="width:220px;height:120px;background:#dde">Hover me</div>';
+      var pending = null;
+      var box = ctx.root.querySelector('#hover-target');
+      ctx.on(box, 'mouseenter', function () {
+        pending = setTimeout(function () { ctx.reveal(); }, 400);
+      });
+      ctx.on(box, 'mouseleave', function () { clearTimeout(pending); });
+    }`,
+  },
+  {
+    type: "drag",
+    title: "Drag and Drop Challenge",
+    popup: true,
+    render: `function (ctx) {
+      var pieces = ['Q', 'K', 'Z', 'C', 'T', 'V', 'M', 'B'];
+      var html = '<p>Drag any 6 pieces into the 6 slots to reveal the code.</p>' +
+        '<p id="filled-count">0/6 filled</p><div class="tray" style="display:flex;gap:8px">';
+      pieces.forEach(function (p) {
+        html += '<div class="piece" draggable="true" data-piece="' + p + '" style="padding:12px;border:1px solid #333">' + p + '</div>';
+      });
+      html += '</div><div class="targets" style="display:flex;gap:8px;margin-top:16px">';
+      for (var i = 1; i <= 6; i++) {
+        html += '<div class="slot border-dashed" data-slot-index="' + i + '" style="padding:16px;border:2px dashed #999">Slot ' + i + '</div>';
+      }
+      html += '</div>';
+      ctx.root.innerHTML = html;
+
+      var dragging = null;
+      var filled = 0;
+      ctx.on(ctx.root, 'dragstart', function (e) {
+        var piece = e.target.closest && e.target.closest('.piece');
+        if (!piece) return;
+        dragging = piece.getAttribute('data-piece');
+        if (e.dataTransfer) e.dataTransfer.setData('text/plain', dragging);
+      });
+      ctx.on(ctx.root, 'dragover', function (e) {
+        if (e.target.closest && e.target.closest('.slot')) e.preventDefault();
+      });
+      ctx.on(ctx.root, 'drop', function (e) {
+        var slot = e.target.closest && e.target.closest('.slot');
+        if (!slot) return;
+        e.preventDefault();
+        var letter = (e.dataTransfer && e.dataTransfer.getData('text/plain')) || dragging;
+        dragging = null;
+        if (!letter || slot.getAttribute('data-filled')) return;
+        slot.setAttribute('data-filled', letter);
+        slot.textContent = 'Slot ' + slot.getAttribute('data-slot-index') + ': ' + letter;
+        var piece = ctx.root.querySelector('.piece[data-piece="' + letter + '"]');
+        if (piece) piece.style.visibility = 'hidden';
+        filled++;
+        ctx.root.querySelector('#filled-count').textContent = filled + '/6 filled';
+        if (filled === 6) ctx.reveal();
+      });
+    }`,
+  },
+  {
+    type: "shadow",
+    title: "Shadow DOM Challenge",
+    render: `function (ctx) {
+      var levels = 3;
+      ctx.root.innerHTML =
+        '<p>Shadow DOM Challenge: click through ' + levels + ' nested shadow layers, then unlock the code.</p>' +
+        '<div id="shadow-host"></div>';
+      function mount(host, n) {
+        var root = host.attachShadow({ mode: 'open' });
+        root.innerHTML =
+          '<div style="margin-left:' + (n * 12) + 'px;padding:8px;border-left:3px solid #88c">' +
+          '<button type="button">Shadow Level ' + n + '</button><div class="inner"></div></div>';
+        var opened = false;
+        root.querySelector('button').addEventListener('click', function () {
+          if (opened) return;
+          opened = true;
+          var inner = root.querySelector('.inner');
+          if (n < levels) {
+            mount(inner, n + 1);
+          } else {
+            var btn = document.createElement('button');
+            btn.type = 'button';
+            btn.textContent = 'Reveal Code';
+            btn.addEventListener('click', function () { ctx.reveal(); });
+            inner.appendChild(btn);
+          }
+        });
+      }
+      mount(ctx.root.querySelector('#shadow-host'), 1);
+    }`,
+  },
+  {
+    type: "memory",
+    title: "Memory Challenge",
+    render: `function (ctx) {
+      ctx.root.innerHTML =
+        '<p>Memorize the code. It will disappear in 2 seconds.</p>' +
+        '<div id="flash" style="font-size:28px">' + ctx.code + '</div><div id="after"></div>';
+      ctx.later(function () {
+        var flash = ctx.root.querySelector('#flash');
+        if (flash) flash.remove();
+        var after = ctx.root.querySelector('#after');
+        after.innerHTML =
+          '<p>Did you memorize it?</p>' +
+          '<button id="remember-btn" type="button">I Remember</button> ' +
+          '<button id="again-btn" type="button">Show Again</button>';
+        ctx.on(after.querySelector('#remember-btn'), 'click', function () { ctx.reveal(); });
+        ctx.on(after.querySelector('#again-btn'), 'click', function () {
+          after.querySelector('p').textContent = 'No second chances.';
+        });
+      }, 2000);
+    }`,
+  },
+  {
+    type: "capture",
+    title: "Capture Window Challenge",
+    popup: true,
+    render: `function (ctx) {
+      ctx.root.innerHTML =
+        '<p>A capture window will appear soon. Click the capture button while it is open.</p>' +
+        '<div id="window-slot" style="min-height:48px"></div>';
+      var slot = ctx.root.querySelector('#window-slot');
+      var captured = false;
+      function open() {
+        if (captured) return;
+        slot.innerHTML = '<button id="capture-btn" type="button">Capture Now!</button>';
+        slot.querySelector('#capture-btn').addEventListener('click', function () {
+          captured = true;
+          slot.innerHTML = '<p>Captured!</p>';
+          ctx.reveal();
+        });
+        ctx.later(function () {
+          if (!captured) slot.innerHTML = '<p>Window closed. Wait for the next one...</p>';
+        }, 1500);
+        ctx.later(open, 4000);
+      }
+      ctx.later(open, 1500);
+    }`,
+  },
+]
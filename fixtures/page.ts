@@ -0,0 +1,206 @@
+/**
+ * HTML shell + client runtime for the fixture site.
+ *
+ * The same document is served for every route; a tiny client-side router
+ * mirrors the live challenge site's contract:
+ *   /                    landing page with a START button
+ *   /stepN?version=V     challenge N, code derived from (N, V)
+ *   /complete            congratulations page after the last step
+ *   window.jumpTo(n)     client-side jump used by scan_page_for_code
+ *
+ * Every step has a 6-character code input, decoy buttons that send the
+ * browser back a step, and (for some steps, or every step on version 3)
+ * blocking popups.
+ */
+import { FIXTURE_CHALLENGES } from "./challenges"
+
+const STYLES = `
+  body { font-family: system-ui, sans-serif; margin: 0; padding: 24px; }
+  header h1 { margin: 0 0 4px; font-size: 20px; }
+  #challenge { margin: 16px 0; }
+  #code-form { margin-top: 16px; display: flex; gap: 8px; }
+  #feedback { min-height: 20px; color: #a33; }
+  .decoys { margin-top: 24px; display: flex; gap: 8px; }
+`
+
+// Client runtime. Plain ES5 in a string: it runs in the page, never in Node.
+// Avoid backticks and template placeholders in here.
+const RUNTIME = `
+(function () {
+  var CHALLENGES = window.__FIXTURE_CHALLENGES__;
+  var TOTAL = CHALLENGES.length;
+  var cleanups = [];
+
+  function codeFor(step, version) {
+    var seed = 2166136261;
+    var key = 'fixture:' + step + ':' + version;
+    for (var i = 0; i < key.length; i++) {
+      seed ^= key.charCodeAt(i);
+      seed = Math.imul(seed, 16777619) >>> 0;
+    }
+    var letters = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+    var digits = '23456789';
+    var out = '';
+    for (var j = 0; j < 6; j++) {
+      seed = Math.imul(seed ^ (seed >>> 15), 2246822507) >>> 0;
+      seed = (seed ^ (seed >>> 13)) >>> 0;
+      // First char is always a letter and the fourth a digit so codes match
+      // the scanner's mixed letter+digit pattern.
+      var pool = j === 0 ? letters : j === 3 ? digits : letters + digits;
+      out += pool.charAt(seed % pool.length);
+    }
+    return out;
+  }
+
+  function currentVersion() {
+    return new URLSearchParams(location.search).get('version') || '2';
+  }
+
+  function navigate(path) {
+    history.pushState(null, '', path);
+    render();
+  }
+
+  function stepPath(step) {
+    return '/step' + step + '?version=' + currentVersion();
+  }
+
+  window.jumpTo = function (step) { navigate(stepPath(step)); };
+  window.addEventListener('popstate', render);
+
+  function cleanup() {
+    while (cleanups.length) cleanups.pop()();
+    document.querySelectorAll('[data-fixture-popup]').forEach(function (el) { el.remove(); });
+  }
+
+  function showPopups(step) {
+    var modal = document.createElement('div');
+    modal.setAttribute('data-fixture-popup', '');
+    modal.className = 'modal-overlay';
+    modal.style.cssText = 'position:fixed;inset:0;background:rgba(0,0,0,.5);z-index:1000;display:flex;align-items:center;justify-content:center';
+    modal.innerHTML =
+      '<div class="modal" role="dialog" aria-modal="true" style="background:#fff;padding:24px;max-width:320px">' +
+      '<p>Subscribe to our newsletter for more challenges!</p>' +
+      '<button type="button" class="modal-close" aria-label="Close">\\u00d7</button> ' +
+      '<button type="button" class="modal-decoy">Continue</button></div>';
+    modal.querySelector('.modal-close').addEventListener('click', function () { modal.remove(); });
+    modal.querySelector('.modal-decoy').addEventListener('click', function () { decoy(step); });
+    document.body.appendChild(modal);
+
+    var banner = document.createElement('div');
+    banner.setAttribute('data-fixture-popup', '');
+    banner.className = 'cookie-banner';
+    banner.style.cssText = 'position:fixed;left:0;right:0;bottom:0;background:#222;color:#fff;padding:12px;z-index:60';
+    banner.innerHTML = 'We use cookies. <button type="button">Accept</button>';
+    banner.querySelector('button').addEventListener('click', function () { banner.remove(); });
+    document.body.appendChild(banner);
+  }
+
+  // Decoys send the browser back one step, like the live site's traps
+  function decoy(step) {
+    if (step > 1) navigate(stepPath(step - 1));
+  }
+
+  function renderLanding(app) {
+    app.innerHTML =
+      '<h1>Browser Challenge Fixtures</h1>' +
+      '<p>' + TOTAL + ' offline challenges. Press START to begin.</p>' +
+      '<button type="button" id="start-btn">START</button>';
+    app.querySelector('#start-btn').addEventListener('click', function () { navigate(stepPath(1)); });
+  }
+
+  function renderComplete(app) {
+    app.innerHTML =
+      '<h1>Congratulations!</h1>' +
+      '<p>You completed all ' + TOTAL + ' challenges.</p>';
+  }
+
+  function renderStep(app, step) {
+    var challenge = CHALLENGES[step - 1];
+    var version = currentVersion();
+    var code = codeFor(step, version);
+    app.innerHTML =
+      '<header><h1>Step ' + step + ' of ' + TOTAL + '</h1><p>' + challenge.title + '</p></header>' +
+      '<section id="challenge"></section>' +
+      '<div id="result"></div>' +
+      '<form id="code-form" autocomplete="off">' +
+      '<input id="code-input" name="code" type="text" maxlength="6" placeholder="Enter 6-character code" />' +
+      '<button type="submit">Submit Code</button></form>' +
+      '<p id="feedback"></p>' +
+      '<div class="decoys"><button type="button">Continue</button>' +
+      '<button type="button">Next Step</button><button type="button">Proceed</button></div>';
+
+    var ctx = {
+      root: app.querySelector('#challenge'),
+      code: code,
+      step: step,
+      version: version,
+      reveal: function () {
+        app.querySelector('#result').innerHTML = '<p>Your code: <code>' + code + '</code></p>';
+      },
+      later: function (fn, ms) {
+        var id = setTimeout(fn, ms);
+        cleanups.push(function () { clearTimeout(id); });
+      },
+      on: function (target, evt, fn) {
+        target.addEventListener(evt, fn);
+        cleanups.push(function () { target.removeEventListener(evt, fn); });
+      },
+    };
+    challenge.render(ctx);
+
+    app.querySelector('#code-form').addEventListener('submit', function (e) {
+      e.preventDefault();
+      var value = app.querySelector('#code-input').value.trim().toUpperCase();
+      if (value === code) {
+        navigate(step >= TOTAL ? '/complete?version=' + version : stepPath(step + 1));
+      } else {
+        app.querySelector('#feedback').textContent = 'Incorrect code. Try again.';
+      }
+    });
+    app.querySelectorAll('.decoys button').forEach(function (btn) {
+      btn.addEventListener('click', function () { decoy(step); });
+    });
+
+    if (challenge.popup || version === '3') {
+      ctx.later(function () { showPopups(step); }, 300);
+    }
+  }
+
+  function render() {
+    cleanup();
+    window.scrollTo(0, 0);
+    var app = document.getElementById('app');
+    var path = location.pathname;
+    var stepMatch = path.match(/^\\/step(\\d+)/);
+    if (stepMatch) {
+      var step = parseInt(stepMatch[1], 10);
+      if (step >= 1 && step <= TOTAL) return renderStep(app, step);
+    }
+    if (path.indexOf('/complete') === 0) return renderComplete(app);
+    renderLanding(app);
+  }
+
+  render();
+})();
+`
+
+export function renderFixturePage(): string {
+  const challenges = FIXTURE_CHALLENGES.map(
+    (c) => `{ type: ${JSON.stringify(c.type)}, title: ${JSON.stringify(c.title)}, popup: ${!!c.popup}, render: ${c.render} }`,
+  ).join(",\n")
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Challenge Fixtures</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<div id="app"></div>
+<script>window.__FIXTURE_CHALLENGES__ = [${challenges}];</script>
+<script>${RUNTIME}</script>
+</body>
+</html>`
+}
@@ -0,0 +1,73 @@
+/**
+ * Offline challenge fixture server.
+ *
+ * Serves the fixture single-page app for /, /stepN and /complete so the
+ * agent and its tools can be developed without the live challenge site.
+ *
+ * Usage:
+ *   npm run fixtures [-- --port 4173]
+ *   npm run agent -- --fixtures          (starts an in-process server on a free port)
+ *   npm run agent -- http://127.0.0.1:4173/ --step 7
+ */
+import http from "node:http"
+import type { AddressInfo } from "node:net"
+import { fileURLToPath } from "node:url"
+import { renderFixturePage } from "./page"
+import { FIXTURE_CHALLENGES } from "./challenges"
+
+export interface FixtureServer {
+  url: string
+  port: number
+  close(): Promise<void>
+}
+
+const APP_ROUTE = /^\/(?:step\d+|complete)?\/?$/
+
+export async function startFixtureServer(port = 0, host = "127.0.0.1"): Promise<FixtureServer> {
+  const html = renderFixturePage()
+
+  const server = http.createServer((req, res) => {
+    const { pathname } = new URL(req.url || "/", "http://fixture.local")
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      res.writeHead(405).end()
+      return
+    }
+    if (pathname === "/healthz") {
+      res.writeHead(200, { "content-type": "application/json" })
+      res.end(JSON.stringify({ ok: true, challenges: FIXTURE_CHALLENGES.map((c) => c.type) }))
+      return
+    }
+    if (!APP_ROUTE.test(pathname)) {
+      res.writeHead(404, { "content-type": "text/plain" }).end("not found")
+      return
+    }
+    res.writeHead(200, { "content-type": "text/html; charset=utf-8", "cache-control": "no-store" })
+    res.end(req.method === "HEAD" ? undefined : html)
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject)
+    server.listen(port, host, () => resolve())
+  })
+
+  const address = server.address() as AddressInfo
+  return {
+    url: `http://${host}:${address.port}/`,
+    port: address.port,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections()
+        server.close((err) => (err ? reject(err) : resolve()))
+      }),
+  }
+}
+
+// CLI entry: run the server standalone until interrupted
+if (process.argv[1] && fileURLToPath(import.meta.url) === process.argv[1]) {
+  const portIdx = process.argv.indexOf("--port")
+  const port = portIdx >= 0 ? parseInt(process.argv[portIdx + 1], 10) : 4173
+  startFixtureServer(Number.isNaN(port) ? 4173 : port).then((fixture) => {
+    console.log(`Fixture site: ${fixture.url}`)
+    FIXTURE_CHALLENGES.forEach((c, i) => console.log(`  step ${i + 1}: ${c.type} — ${c.title}`))
+  })
+}
@@ -0,0 +1,129 @@
+/**
+ * What an attempt at a step saw and tried, carried into the next attempt.
+ *
+ * Each chat() starts fresh, so without this a stronger model escalated to
+ * after a failure rescans the page and often resubmits the code that was
+ * just rejected. An AttemptLog collects every tool call of an attempt; its
+ * summary (page type, code candidates, rejected codes, actions and results,
+ * escalate reason) is rendered by formatRetryContext() and appended to the
+ * next attempt's instruction.
+ */
+import type { NamedToolResult } from "../tools/types"
+import { parseStepUrl } from "../tools/step-nav"
+import type { ChallengeClassification } from "./classifier"
+import { formatRung, type ModelRung } from "./ladder"
+import type { AttemptOutcome } from "./report"
+
+export interface SummaryAction {
+  tool: string
+  /** Short rendering of the call's input */
+  input: string
+  /** Short rendering of the result, as in the challenge timeline */
+  result: string
+  success: boolean
+}
+
+export interface AttemptSummary {
+  step: number
+  attempt: number
+  /** "provider:model", or the fast-path pseudo-rung */
+  rung: string
+  outcome: AttemptOutcome
+  challenge: { type: string; confidence: number } | null
+  /** Distinct code candidates from every scan, best-known source first */
+  candidates: Array<{ code: string; src: string }>
+  /** Codes submitted that did not advance the page */
+  rejectedCodes: string[]
+  actions: SummaryAction[]
+  escalateReason: string | null
+  /** Why the orchestrator stopped the attempt (tool policy, budget, error) */
+  stoppedBy: string | null
+}
+
+export interface AttemptLog {
+  record(entry: { name: string; input: unknown; result: NamedToolResult | null; summary: string }): void
+  summarize(meta: {
+    attempt: number
+    rung: ModelRung
+    outcome: AttemptOutcome
+    challenge: ChallengeClassification | null
+    stoppedBy?: string | null
+  }): AttemptSummary
+}
+
+const MAX_ACTIONS = 12
+const MAX_CANDIDATES = 10
+const MAX_INPUT = 120
+
+function briefInput(name: string, input: unknown): string {
+  const raw =
+    name === "page_evaluate_js" && input && typeof input === "object" && "code" in input
+      ? String((input as { code: unknown }).code)
+      : JSON.stringify(input ?? {})
+  const flat = raw.replace(/\s+/g, " ").trim()
+  return flat.length <= MAX_INPUT ? flat : `${flat.slice(0, MAX_INPUT)}...`
+}
+
+export function createAttemptLog(step: number): AttemptLog {
+  const actions: SummaryAction[] = []
+  const candidates = new Map<string, string>()
+  const rejected: string[] = []
+  let escalateReason: string | null = null
+
+  return {
+    record({ name, input, result, summary }) {
+      actions.push({ tool: name, input: briefInput(name, input), result: summary, success: !!result?.result.success })
+      if (!result) return
+      if (result.name === "scan_page_for_code" && result.result.success) {
+        for (const c of result.result.data.codes) if (!candidates.has(c.val)) candidates.set(c.val, c.src)
+      } else if (result.name === "enter_code" && result.result.data?.code) {
+        const { code, afterUrl } = result.result.data
+        const after = parseStepUrl(afterUrl ?? "")?.step
+        const advanced = result.result.success && after !== undefined && after > step
+        if (!advanced && !rejected.includes(code)) rejected.push(code)
+      } else if (result.name === "escalate" && result.result.success) {
+        escalateReason = result.result.data.reason
+      }
+    },
+    summarize({ attempt, rung, outcome, challenge, stoppedBy }) {
+      return {
+        step,
+        attempt,
+        rung: formatRung(rung),
+        outcome,
+        challenge: challenge ? { type: challenge.type, confidence: challenge.confidence } : null,
+        candidates: [...candidates].slice(0, MAX_CANDIDATES).map(([code, src]) => ({ code, src })),
+        rejectedCodes: rejected,
+        actions: actions.slice(-MAX_ACTIONS),
+        escalateReason,
+        stoppedBy: stoppedBy ?? null,
+      }
+    },
+  }
+}
+
+/** Instruction section describing earlier attempts at the step; "" when there are none */
+export function formatRetryContext(summaries: AttemptSummary[]): string {
+  if (summaries.length === 0) return ""
+  const lines = ["## Previous attempts at this step — do not repeat what failed"]
+  for (const s of summaries) {
+    const label = s.attempt < 0 ? "Orchestrator fast path" : `Attempt ${s.attempt + 1} (${s.rung})`
+    lines.push(`${label}: ${s.outcome}${s.escalateReason ? ` — escalated: "${s.escalateReason}"` : ""}`)
+    if (s.stoppedBy) lines.push(`  Stopped by the orchestrator: ${s.stoppedBy}`)
+    if (s.challenge) lines.push(`  Page classified as: ${s.challenge.type} (confidence ${s.challenge.confidence})`)
+    if (s.candidates.length > 0) {
+      lines.push(`  Code candidates seen: ${s.candidates.map((c) => `${c.code} [${c.src}]`).join(", ")}`)
+    }
+    if (s.rejectedCodes.length > 0) lines.push(`  Submitted and REJECTED: ${s.rejectedCodes.join(", ")}`)
+    if (s.actions.length > 0) {
+      lines.push("  Actions:")
+      for (const a of s.actions) lines.push(`    ${a.success ? "ok " : "err"} ${a.tool} ${a.input} → ${a.result}`)
+    }
+  }
+  const rejected = [...new Set(summaries.flatMap((s) => s.rejectedCodes))]
+  if (rejected.length > 0) {
+    lines.push(`Do NOT submit ${rejected.map((c) => `"${c}"`).join(", ")} again — ${rejected.length === 1 ? "it" : "they"} did not advance the page.`)
+  }
+  lines.push("Start from what the page shows now; take a different approach than the attempts above.")
+  return lines.join("\n")
+}
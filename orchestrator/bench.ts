@@ -0,0 +1,168 @@
+/**
+ * Benchmark aggregation.
+ *
+ * Bench mode reruns each selected step N times, each run in a fresh browser
+ * context, and collects one sample per run. This module turns the samples
+ * into per-step distributions (p50/p90/max) and a comparison table, and
+ * reads/writes bench files so a later run can be compared against a
+ * baseline — the measure/compare loop from optimize_challenge.md.
+ */
+import { readFileSync, writeFileSync } from "node:fs"
+import type { ModelRung } from "./ladder"
+
+const BENCH_VERSION = 1
+
+export interface BenchSample {
+  step: number
+  /** 1-based run number */
+  run: number
+  success: boolean
+  /** "provider:model" of the rung that solved the step */
+  solvedBy: string | null
+  attempts: number
+  totalMs: number
+  toolMs: number
+  thinkingMs: number
+  toolCalls: number
+}
+
+export interface Distribution {
+  p50: number
+  p90: number
+  max: number
+  mean: number
+}
+
+export interface BenchStepStats {
+  step: number
+  runs: number
+  successes: number
+  successRate: number
+  totalMs: Distribution
+  toolMs: Distribution
+  thinkingMs: Distribution
+  toolCalls: Distribution
+}
+
+export interface BenchResult {
+  version: number
+  createdAt: string
+  challengeUrl: string
+  ladder: ModelRung[]
+  repeat: number
+  steps: number[]
+  samples: BenchSample[]
+  stats: BenchStepStats[]
+}
+
+/** Nearest-rank percentile (p in 0..100) */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))]
+}
+
+export function distribution(values: number[]): Distribution {
+  return {
+    p50: percentile(values, 50),
+    p90: percentile(values, 90),
+    max: values.length ? Math.max(...values) : 0,
+    mean: values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0,
+  }
+}
+
+export function aggregateBench(samples: BenchSample[]): BenchStepStats[] {
+  const byStep = new Map<number, BenchSample[]>()
+  for (const sample of samples) {
+    if (!byStep.has(sample.step)) byStep.set(sample.step, [])
+    byStep.get(sample.step)!.push(sample)
+  }
+  return [...byStep]
+    .sort(([a], [b]) => a - b)
+    .map(([step, runs]) => {
+      const successes = runs.filter((r) => r.success).length
+      return {
+        step,
+        runs: runs.length,
+        successes,
+        successRate: successes / runs.length,
+        totalMs: distribution(runs.map((r) => r.totalMs)),
+        toolMs: distribution(runs.map((r) => r.toolMs)),
+        thinkingMs: distribution(runs.map((r) => r.thinkingMs)),
+        toolCalls: distribution(runs.map((r) => r.toolCalls)),
+      }
+    })
+}
+
+const sec = (ms: number) => (ms / 1000).toFixed(1)
+
+function delta(current: number, baseline: number | undefined, format: (n: number) => string): string {
+  if (baseline === undefined) return ""
+  const d = current - baseline
+  if (Math.abs(d) < 1e-9) return " (=)"
+  return ` (${d > 0 ? "+" : "-"}${format(Math.abs(d))})`
+}
+
+/**
+ * Plain-text comparison table, one row per step plus an "all" row.
+ * With a baseline, p50 total time, success rate and p50 tool calls get a delta.
+ */
+export function formatBenchTable(stats: BenchStepStats[], samples: BenchSample[], baseline?: BenchResult | null): string[] {
+  const base = new Map((baseline?.stats ?? []).map((s) => [s.step, s]))
+  const overall = aggregateBench(samples.map((s) => ({ ...s, step: 0 })))[0]
+  const baseOverall = baseline ? aggregateBench(baseline.samples.map((s) => ({ ...s, step: 0 })))[0] : undefined
+
+  const header = ["step", "ok", "total p50", "p90", "max", "tools p50", "think p50", "calls p50", "calls max"]
+  const rows = [...stats, ...(overall ? [overall] : [])].map((s) => {
+    const b = s.step === 0 ? baseOverall : base.get(s.step)
+    return [
+      s.step === 0 ? "all" : String(s.step),
+      `${s.successes}/${s.runs}` + delta(s.successRate * 100, b && b.successRate * 100, (n) => `${n.toFixed(0)}%`),
+      `${sec(s.totalMs.p50)}s` + delta(s.totalMs.p50, b?.totalMs.p50, (n) => `${sec(n)}s`),
+      `${sec(s.totalMs.p90)}s`,
+      `${sec(s.totalMs.max)}s`,
+      `${sec(s.toolMs.p50)}s`,
+      `${sec(s.thinkingMs.p50)}s`,
+      String(s.toolCalls.p50) + delta(s.toolCalls.p50, b?.toolCalls.p50, String),
+      String(s.toolCalls.max),
+    ]
+  })
+
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)))
+  const line = (cells: string[]) =>
+    cells.map((c, i) => (i === 0 ? c.padStart(widths[i]) : c.padEnd(widths[i]))).join("  ").trimEnd()
+  return [line(header), widths.map((w) => "─".repeat(w)).join("  "), ...rows.map(line)]
+}
+
+export function saveBenchResult(file: string, result: BenchResult): void {
+  writeFileSync(file, JSON.stringify(result, null, 2))
+}
+
+export function loadBenchResult(file: string): BenchResult {
+  let result: BenchResult
+  try {
+    result = JSON.parse(readFileSync(file, "utf8"))
+  } catch (e: any) {
+    throw new Error(`Could not read bench baseline ${file}: ${e.message}`)
+  }
+  if (result.version !== BENCH_VERSION) {
+    throw new Error(`Bench baseline ${file} has version ${result.version}, expected ${BENCH_VERSION}`)
+  }
+  return result
+}
+
+export function createBenchResult(opts: {
+  challengeUrl: string
+  ladder: ModelRung[]
+  repeat: number
+  steps: number[]
+  samples: BenchSample[]
+}): BenchResult {
+  return {
+    version: BENCH_VERSION,
+    createdAt: new Date().toISOString(),
+    ...opts,
+    stats: aggregateBench(opts.samples),
+  }
+}
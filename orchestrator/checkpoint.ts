@@ -0,0 +1,74 @@
+/**
+ * Run checkpoints for --resume.
+ *
+ * After every solved step the orchestrator saves where it is (next step,
+ * page version), what it has measured so far (results + per-attempt report
+ * entries) and the run settings. `--resume <file>` restores all of that,
+ * relaunches the browser straight onto the saved step and keeps accumulating
+ * into the same summary and report.
+ *
+ * Writes go through a temp file + rename so a crash mid-write can't leave a
+ * truncated checkpoint behind.
+ */
+import { readFileSync, renameSync, writeFileSync, mkdirSync } from "node:fs"
+import path from "node:path"
+import type { ModelRung } from "./ladder"
+import type { AttemptReport } from "./report"
+
+const CHECKPOINT_VERSION = 1
+
+export const DEFAULT_CHECKPOINT_PATH = ".agent-checkpoint.json"
+
+export interface CheckpointResult {
+  step: number
+  timeMs: number
+  tools: number
+  success: boolean
+  model: string
+}
+
+export interface RunCheckpoint<TArgs = unknown> {
+  version: number
+  savedAt: string
+  /** Run settings; resume reuses them so the run continues unchanged */
+  args: TArgs
+  ladder: ModelRung[]
+  /** Next step to solve */
+  step: number
+  /** ?version= of the challenge pages */
+  pageVersion: string
+  /** Page URL when the checkpoint was taken */
+  url: string
+  /** Run time before the checkpoint, carried into the resumed summary */
+  elapsedMs: number
+  regressions: number
+  /** True once the run loop has ended; nothing left to resume */
+  finished: boolean
+  results: CheckpointResult[]
+  attempts: AttemptReport[]
+}
+
+export function saveCheckpoint<TArgs>(file: string, checkpoint: Omit<RunCheckpoint<TArgs>, "version" | "savedAt">): void {
+  const doc: RunCheckpoint<TArgs> = {
+    version: CHECKPOINT_VERSION,
+    savedAt: new Date().toISOString(),
+    ...checkpoint,
+  }
+  mkdirSync(path.dirname(path.resolve(file)), { recursive: true })
+  const tmp = `${file}.tmp`
+  writeFileSync(tmp, JSON.stringify(doc, null, 2))
+  renameSync(tmp, file)
+}
+
+export function loadCheckpoint<TArgs>(file: string): RunCheckpoint<TArgs> {
+  let checkpoint: RunCheckpoint<TArgs>
+  try {
+    checkpoint = JSON.parse(readFileSync(file, "utf8"))
+  } catch (e: any) {
+    throw new Error(`Could not read checkpoint ${file}: ${e.message}`)
+  }
+  if (checkpoint.version !== CHECKPOINT_VERSION) {
+    throw new Error(`Checkpoint ${file} has version ${checkpoint.version}, expected ${CHECKPOINT_VERSION}`)
+  }
+  return checkpoint
+}
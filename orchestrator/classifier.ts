@@ -0,0 +1,236 @@
+/**
+ * Challenge-type classifier.
+ *
+ * Scores the open page (visible text plus DOM features such as canvases,
+ * draggable elements, iframes, shadow roots and progress counters) against
+ * each known challenge type and picks the best one with a confidence in [0, 1].
+ *
+ * A confident classification lets the orchestrator:
+ *   - send only the playbook sections for that type (plus the always-on
+ *     rules) instead of every playbook
+ *   - hand the model only the interaction tools the type needs
+ *   - route types the escalation-aware prompt would escalate anyway straight
+ *     to the first full-playbook rung
+ *   - tag attempts with the type in the run report
+ *
+ * Below CONFIDENT_AT the orchestrator keeps the full prompt and tool set.
+ */
+import type { PageFeatures } from "../tools/page-features"
+import type { ModelRung } from "./ladder"
+
+export type ChallengeType =
+  | "plain"
+  | "keyboard"
+  | "tabs"
+  | "form"
+  | "timer"
+  | "drag"
+  | "math"
+  | "memory"
+  | "hover"
+  | "capture"
+  | "split-parts"
+  | "sequence"
+  | "canvas"
+  | "shadow-dom"
+  | "decode"
+
+export interface ChallengeClassification {
+  type: ChallengeType
+  /** 0..1 */
+  confidence: number
+  /** What matched, e.g. "text:drag", "dom:draggable" */
+  signals: string[]
+}
+
+export interface ChallengeProfile {
+  label: string
+  /** Playbook headings ("### <heading>") to include besides ALWAYS_PLAYBOOKS */
+  playbooks: string[]
+  /** Interaction tools the type needs; CORE_TOOLS are always kept */
+  tools: string[]
+  /** The escalation-aware prompt tells the model to escalate on this type */
+  hard: boolean
+}
+
+export const CHALLENGE_PROFILES: Record<ChallengeType, ChallengeProfile> = {
+  plain: { label: "plain code", playbooks: [], tools: ["page_multi_action", "page_evaluate_js"], hard: false },
+  keyboard: { label: "keyboard sequence", playbooks: ["Keyboard sequences"], tools: ["page_multi_action"], hard: false },
+  tabs: {
+    label: "multi-tab",
+    playbooks: ["Multi-tab / tabbed challenges"],
+    tools: ["page_evaluate_js", "page_multi_action"],
+    hard: false,
+  },
+  form: {
+    label: "form",
+    playbooks: ["Form validation / multi-step forms"],
+    tools: ["page_multi_action", "page_evaluate_js"],
+    hard: false,
+  },
+  timer: { label: "timer / animation", playbooks: ["Timer / animation challenges"], tools: ["page_evaluate_js"], hard: false },
+  drag: {
+    label: "drag and drop",
+    playbooks: ["Drag and drop challenges", "Drag and drop (generalized, single-shot)"],
+    tools: ["drag_and_drop", "page_evaluate_js"],
+    hard: false,
+  },
+  math: { label: "math / puzzle", playbooks: ["Math / puzzle challenges"], tools: ["page_evaluate_js"], hard: true },
+  memory: {
+    label: "memory",
+    playbooks: ["Memory challenges"],
+    tools: ["page_multi_action", "page_evaluate_js"],
+    hard: true,
+  },
+  hover: {
+    label: "timed hover",
+    playbooks: ["Hover for duration"],
+    tools: ["page_multi_action", "page_evaluate_js"],
+    hard: true,
+  },
+  capture: { label: "timing / capture", playbooks: ["Timing / capture window challenges"], tools: ["page_evaluate_js"], hard: true },
+  "split-parts": {
+    label: "split parts",
+    playbooks: ["Split parts / hidden parts"],
+    tools: ["page_evaluate_js", "page_multi_action"],
+    hard: true,
+  },
+  sequence: {
+    label: "multi-step sequence",
+    playbooks: ["Sequence / multi-action challenges"],
+    tools: ["page_multi_action", "page_evaluate_js"],
+    hard: true,
+  },
+  canvas: { label: "canvas / gesture", playbooks: ["Canvas / gesture challenges"], tools: ["page_evaluate_js"], hard: true },
+  "shadow-dom": {
+    label: "iframe / shadow DOM",
+    playbooks: ["iframe / shadow DOM / shadow layers"],
+    tools: ["page_multi_action", "page_evaluate_js"],
+    hard: true,
+  },
+  decode: { label: "decode / encoded", playbooks: [], tools: ["page_evaluate_js"], hard: true },
+}
+
+/** Tools every step keeps, whatever its type */
+export const CORE_TOOLS = ["scan_page_for_code", "enter_code", "get_url", "escalate"]
+
+/** Playbooks that apply to every challenge */
+const ALWAYS_PLAYBOOKS = ["Instruction-first rule", "Failure reset", "Decoy buttons"]
+
+export const CONFIDENT_AT = 0.6
+
+/** Score at which a type is fully trusted (before the margin over the runner-up) */
+const STRONG_SCORE = 4
+
+interface Rule {
+  type: ChallengeType
+  signal: string
+  weight: number
+  test: (f: PageFeatures, text: string) => boolean
+}
+
+const textRule = (type: ChallengeType, name: string, pattern: RegExp, weight: number): Rule => ({
+  type,
+  signal: `text:${name}`,
+  weight,
+  test: (_f, text) => pattern.test(text),
+})
+
+const RULES: Rule[] = [
+  textRule("keyboard", "key-combo", /\b(control|ctrl|cmd|shift|alt)\s*\+\s*[a-z]\b/, 3),
+  textRule("tabs", "visit-tabs", /\bvisit (all|each|every) tabs?\b/, 2),
+  textRule("tabs", "tab-n", /\btab [1-9]\b/, 1),
+  { type: "tabs", signal: "dom:tabs", weight: 2, test: (f) => f.tabs > 1 },
+  textRule("form", "fill-form", /\b(fill (out|in) the form|required fields?)\b/, 2),
+  { type: "form", signal: "dom:form-fields", weight: 2, test: (f) => f.formFields >= 3 },
+  textRule("timer", "countdown", /\b(countdown|timer|animation)\b/, 1),
+  textRule("drag", "drag", /\bdrag\b/, 2),
+  textRule("drag", "slot-n", /\bslot [1-9]\b/, 1),
+  { type: "drag", signal: "dom:draggable", weight: 2, test: (f) => f.draggables > 0 },
+  textRule("math", "equation", /\d+\s*[-+*×x/]\s*\d+\s*=\s*\?/, 3),
+  textRule("math", "puzzle", /\b(puzzle|maze)\b/, 2),
+  { type: "math", signal: "button:solve", weight: 1, test: (f) => f.buttons.some((b) => /\bsolve\b/.test(b)) },
+  textRule("memory", "remember", /\b(remember|memori[sz]e|memory)\b/, 2),
+  textRule("memory", "code-will-flash", /\bcode will (flash|disappear)\b/, 2),
+  { type: "memory", signal: "button:remember", weight: 2, test: (f) => f.buttons.some((b) => b.includes("remember")) },
+  textRule("hover", "hover", /\bhover\b/, 2),
+  textRule("hover", "hover-seconds", /\bhover\b.{0,60}\b\d+\s*(s|sec|secs|seconds)\b/, 2),
+  textRule("capture", "window-will-appear", /\bwindow will appear\b/, 3),
+  textRule("capture", "capture", /\bcapture\b/, 2),
+  textRule("split-parts", "scattered-parts", /\b(parts? scattered|find (\d+|all) (the )?parts)\b/, 4),
+  textRule("sequence", "sequence-challenge", /\bsequence challenge\b/, 4),
+  textRule("sequence", "complete-n-actions", /\bcomplete \d+ actions\b/, 3),
+  textRule("sequence", "progress-n-of-n", /\bprogress:?\s*\d+\s*\/\s*\d+\b/, 1),
+  textRule("canvas", "draw", /\b(draw|gesture|stroke|trace)\b/, 2),
+  textRule("canvas", "canvas", /\bcanvas\b/, 1),
+  { type: "canvas", signal: "dom:canvas", weight: 2, test: (f) => f.canvases > 0 },
+  textRule("shadow-dom", "shadow", /\bshadow (dom|levels?|layers?|root)\b/, 3),
+  textRule("shadow-dom", "iframe", /\b(iframe|nested layers?)\b/, 2),
+  { type: "shadow-dom", signal: "dom:shadow-root", weight: 2, test: (f) => f.shadowHosts > 0 },
+  { type: "shadow-dom", signal: "dom:iframe", weight: 2, test: (f) => f.iframes > 0 },
+  textRule("decode", "decode", /\b(decode|encoded|base64|decrypt|cipher)\b/, 3),
+]
+
+export function classifyChallenge(features: PageFeatures): ChallengeClassification {
+  const text = features.bodyText.toLowerCase()
+  const scores = new Map<ChallengeType, { score: number; signals: string[] }>()
+  for (const rule of RULES) {
+    if (!rule.test(features, text)) continue
+    const entry = scores.get(rule.type) ?? { score: 0, signals: [] }
+    entry.score += rule.weight
+    entry.signals.push(rule.signal)
+    scores.set(rule.type, entry)
+  }
+
+  const ranked = [...scores].sort((a, b) => b[1].score - a[1].score)
+  const [top, second] = ranked
+  const round = (n: number) => Math.round(n * 100) / 100
+  // Nothing stood out: a plain code step, less sure the more weak signals there are
+  if (!top || top[1].score < 2) {
+    return { type: "plain", confidence: round(1 - (top?.[1].score ?? 0) / STRONG_SCORE), signals: top?.[1].signals ?? [] }
+  }
+
+  const [type, { score, signals }] = top
+  const margin = (score - (second?.[1].score ?? 0)) / score
+  return { type, confidence: round(Math.min(1, score / STRONG_SCORE) * margin), signals }
+}
+
+export function isConfident(classification: ChallengeClassification | null): classification is ChallengeClassification {
+  return !!classification && classification.confidence >= CONFIDENT_AT
+}
+
+/**
+ * Keep the "### " blocks of the playbook text that apply to `type`, plus any
+ * text before the first heading. Text with none of the known headings (e.g.
+ * an experiment's replacement section) is returned whole.
+ */
+export function selectPlaybooks(playbooks: string, type: ChallengeType): string {
+  const wanted = [...ALWAYS_PLAYBOOKS, ...CHALLENGE_PROFILES[type].playbooks]
+  const blocks = playbooks.split(/\n(?=### )/)
+  const heading = (block: string) => block.match(/^### (.+)$/m)?.[1].trim() ?? null
+  if (!blocks.some((b) => wanted.includes(heading(b) ?? ""))) return playbooks
+  return blocks
+    .filter((b) => {
+      const h = heading(b)
+      return h === null || wanted.includes(h)
+    })
+    .join("\n")
+}
+
+/** The tools of `tools` a step of this type is given */
+export function selectTools<T extends { name: string }>(tools: T[], type: ChallengeType): T[] {
+  const needed = CHALLENGE_PROFILES[type].tools
+  return tools.filter((t) => CORE_TOOLS.includes(t.name) || needed.includes(t.name))
+}
+
+/**
+ * Ladder index to start a step at. A confidently classified hard type skips
+ * escalation-aware rungs (which would only call escalate) and starts at the
+ * first full-playbook rung; everything else starts at rung 0.
+ */
+export function routeRung(classification: ChallengeClassification | null, ladder: ModelRung[]): number {
+  if (!isConfident(classification) || !CHALLENGE_PROFILES[classification.type].hard) return 0
+  if (ladder[0]?.prompt !== "haiku") return 0
+  const target = ladder.findIndex((rung) => rung.prompt === "opus")
+  return target > 0 ? target : 0
+}
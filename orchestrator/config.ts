@@ -0,0 +1,434 @@
+/**
+ * Run settings: defaults, config file, profiles, environment and CLI flags.
+ *
+ * Every setting is declared once in OPTIONS — its type, default and help —
+ * and resolved in layers, each one overriding the last:
+ *   1. built-in defaults
+ *   2. top-level settings in the config file: --config <file>, else
+ *      ./agent.config.json when it exists
+ *   3. the profile named by --profile (the file's "profiles" section)
+ *   4. environment variables: AGENT_TIMEOUT_SECONDS=120, AGENT_PROFILE=ci, ...
+ *   5. command-line flags: --timeout-seconds 120, --no-fast-path, ...
+ * Unknown flags and config keys are errors, and so are values that don't fit
+ * the setting — nothing is dropped silently. Unknown AGENT_* variables are
+ * ignored, since CI runners set their own (AGENT_OS, AGENT_NAME, ...); one
+ * that looks like a misspelt setting gets a warning.
+ *
+ * The config file also carries the "ladder", "prices" and "toolTimeouts"
+ * sections (see ./ladder, ./cost, ./tool-timeouts); a profile's sections
+ * replace the file's ladder and are merged over its prices and timeouts.
+ * Paths in settings are relative to the working directory.
+ *
+ * {
+ *   "timeoutSeconds": 150,
+ *   "ladder": ["anthropic:claude-haiku-4-5", "anthropic:claude-opus-4-6"],
+ *   "profiles": {
+ *     "ci": { "fixtures": true, "report": "reports/run.json", "maxCost": 2 }
+ *   }
+ * }
+ */
+import { existsSync, readFileSync } from "node:fs"
+import { z } from "zod"
+import { parseLadderEntries, parseLadderSpec, type AdapterMode, type ModelRung } from "./ladder"
+import { priceTableSchema, type PriceTable } from "./cost"
+import { toolTimeoutsSchema } from "./tool-timeouts"
+
+export const DEFAULT_CONFIG_FILE = "agent.config.json"
+
+const ENV_PREFIX = "AGENT_"
+
+type OptionKind = "string" | "integer" | "number" | "boolean"
+
+interface OptionSpec<T> {
+  kind: OptionKind
+  schema: z.ZodType<T>
+  default: T
+  help: string
+  /** Picks the run rather than tuning it: command line and environment only */
+  runOnly?: boolean
+}
+
+function option<T>(kind: OptionKind, schema: z.ZodType<T>, defaultValue: T, help: string, runOnly = false): OptionSpec<T> {
+  return { kind, schema, default: defaultValue, help, ...(runOnly ? { runOnly } : {}) }
+}
+
+const text = (defaultValue: string, help: string) => option("string", z.string().min(1), defaultValue, help)
+const optionalText = (help: string, runOnly = false) =>
+  option<string | null>("string", z.string().min(1).nullable(), null, help, runOnly)
+const integer = (defaultValue: number, min: number, help: string) =>
+  option("integer", z.number().int().min(min), defaultValue, help)
+const optionalInteger = (min: number, help: string) =>
+  option<number | null>("integer", z.number().int().min(min).nullable(), null, help)
+const flag = (defaultValue: boolean, help: string) => option("boolean", z.boolean(), defaultValue, help)
+
+const OPTIONS = {
+  url: text("https://serene-frangipane-7fd25b.netlify.app/", "Challenge site (also the first positional argument)"),
+  provider: text("anthropic", "Provider of the single-rung ladder"),
+  model: text("claude-opus-4-6", "Model of the single-rung ladder"),
+  adapter: option<AdapterMode>("string", z.enum(["auto", "opencode", "env"]), "auto", "Credentials: auto, opencode or env"),
+  ladder: optionalText("Escalation ladder as provider:model,... (overrides the config file's)", true),
+  config: optionalText(`Config file (default ./${DEFAULT_CONFIG_FILE} when it exists)`, true),
+  profile: optionalText("Named profile from the config file", true),
+  step: optionalInteger(1, "Start at this step"),
+  only: flag(false, "Run only --step (the default when --step is given; --no-only carries on past it)"),
+  version: text("2", "Challenge version"),
+  maxChallenges: integer(35, 1, "Last step of a full run"),
+  maxIterations: integer(20, 1, "Model calls per attempt"),
+  timeoutSeconds: integer(180, 1, "Per-challenge timeout"),
+  heartbeatSeconds: integer(10, 0, "Progress line while a model call runs (0 = off)"),
+  stallSeconds: integer(45, 0, "Reissue model calls that send nothing for this long (0 = off)"),
+  stallRetries: integer(2, 0, "Stall reissues and re-runs"),
+  providerRetries: integer(4, 0, "Retries for rate limits, overload, 5xx and dropped connections"),
+  fastPath: flag(true, "Try the orchestrator's own scan + submit before calling the model"),
+  rewind: flag(true, "Restore the step page before each retry"),
+  maxCost: option<number | null>("number", z.number().positive().nullable(), null, "Stop spending past this many USD"),
+  maxTokensPerStep: optionalInteger(1, "Token budget per step"),
+  fixtures: flag(false, "Run against the bundled offline fixture site"),
+  record: optionalText("Save model streams and tool I/O per attempt to this directory"),
+  replay: optionalText("Re-run the orchestrator offline from a recording", true),
+  report: optionalText("Write a JSON run report"),
+  junit: optionalText("Write a JUnit XML report"),
+  checkpoint: optionalText("Where to save progress after each solved step"),
+  resume: optionalText("Continue a crashed or aborted run from its checkpoint", true),
+  bench: flag(false, "Benchmark mode (also the positional argument \"bench\")"),
+  repeat: integer(5, 1, "Runs per step in bench and experiment mode"),
+  steps: optionalText("Steps for bench and experiment mode, or a step matrix, e.g. 3,7,12-15"),
+  versions: optionalText("Challenge versions for a step matrix, e.g. 1,2,3"),
+  concurrency: integer(1, 1, "Steps of a matrix run side by side, each in its own browser context"),
+  benchOut: optionalText("Write bench or experiment results as JSON"),
+  baseline: optionalText("Compare the bench against earlier results"),
+  experiment: optionalText("Run an A/B experiment file", true),
+  debugToolInputs: flag(false, "Log full tool inputs"),
+  verbose: flag(false, "Verbose logging"),
+  debugChunks: flag(false, "Log every stream chunk"),
+}
+
+type OptionName = keyof typeof OPTIONS
+
+export type RunSettings = { [K in OptionName]: (typeof OPTIONS)[K] extends OptionSpec<infer T> ? T : never } & {
+  /** Whether --version (or a config layer) picked the version rather than the default */
+  versionProvided: boolean
+}
+
+/** Where each setting's value came from, e.g. "default", "profile ci", "AGENT_STEP", "--step" */
+export type SettingSources = Record<OptionName, string>
+
+export interface ResolvedSettings {
+  settings: RunSettings
+  sources: SettingSources
+  /** --print-config: show the resolved settings and exit */
+  printConfig: boolean
+  /** --help: list the options and exit */
+  help: boolean
+  /** Problems that didn't stop the run, e.g. a misspelt AGENT_* variable */
+  warnings: string[]
+}
+
+const NAMES = Object.keys(OPTIONS) as OptionName[]
+
+function kebab(name: string): string {
+  return name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)
+}
+
+function envName(name: string): string {
+  return ENV_PREFIX + name.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase()
+}
+
+const BY_FLAG = new Map(NAMES.map((name) => [kebab(name), name]))
+const BY_ENV = new Map(NAMES.map((name) => [envName(name), name]))
+
+/** Text from the command line or the environment, as the JSON value a config file would hold */
+function fromText(kind: OptionKind, value: string): unknown {
+  if (kind === "integer" || kind === "number") {
+    return value.trim() !== "" && !Number.isNaN(Number(value)) ? Number(value) : value
+  }
+  if (kind === "boolean") {
+    if (/^(1|true|yes|on)$/i.test(value)) return true
+    if (/^(0|false|no|off)$/i.test(value)) return false
+  }
+  return value
+}
+
+function validate<K extends OptionName>(name: K, value: unknown, where: string): RunSettings[K] {
+  const result = OPTIONS[name].schema.safeParse(value)
+  if (!result.success) {
+    throw new Error(`Invalid value for ${where} (${JSON.stringify(value)}): ${result.error.issues[0].message}`)
+  }
+  return result.data as RunSettings[K]
+}
+
+/** Closest option name closer than `limit` edits, for "did you mean" hints */
+function suggest(input: string, candidates: Iterable<string>, limit = Math.max(3, Math.ceil(input.length / 3))): string | null {
+  let best: string | null = null
+  let bestDistance = limit
+  for (const candidate of candidates) {
+    const d = editDistance(input, candidate)
+    if (d < bestDistance) {
+      best = candidate
+      bestDistance = d
+    }
+  }
+  return best
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    prev = row
+  }
+  return prev[b.length]
+}
+
+type Layer = Partial<Record<OptionName, { value: unknown; source: string }>>
+
+function parseCommandLine(args: string[]): { layer: Layer; printConfig: boolean; help: boolean } {
+  const layer: Layer = {}
+  let printConfig = false
+  let help = false
+  let positionalUrl = false
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === "--print-config") {
+      printConfig = true
+      continue
+    }
+    if (arg === "--help" || arg === "-h") {
+      help = true
+      continue
+    }
+    if (!arg.startsWith("--")) {
+      // "bench" is the bench command; anything else is the challenge URL, once
+      if (arg === "bench") {
+        layer.bench = { value: true, source: "bench" }
+      } else if (!positionalUrl) {
+        layer.url = { value: arg, source: "command line" }
+        positionalUrl = true
+      } else {
+        throw new Error(`Unexpected argument "${arg}" (the challenge URL is already ${JSON.stringify(layer.url?.value)})`)
+      }
+      continue
+    }
+
+    const eq = arg.indexOf("=")
+    const key = eq === -1 ? arg.slice(2) : arg.slice(2, eq)
+    const inline = eq === -1 ? null : arg.slice(eq + 1)
+    const negated = key.startsWith("no-") && BY_FLAG.has(key.slice(3))
+    const name = BY_FLAG.get(negated ? key.slice(3) : key)
+    if (!name) {
+      const hint = suggest(key, [...BY_FLAG.keys(), "print-config", "help"])
+      throw new Error(`Unknown option --${key}${hint ? ` (did you mean --${hint}?)` : ""} — see --help`)
+    }
+    const spec = OPTIONS[name]
+    const flagName = `--${key}`
+    if (spec.kind === "boolean") {
+      if (negated && inline !== null) throw new Error(`${flagName} takes no value`)
+      const value = negated ? false : inline === null ? true : fromText("boolean", inline)
+      layer[name] = { value: validate(name, value, flagName), source: flagName }
+      continue
+    }
+    if (negated) throw new Error(`Unknown option --${key}: --${kebab(name)} is not an on/off flag`)
+    let raw = inline
+    if (raw === null) {
+      const next = args[i + 1]
+      if (next === undefined || next.startsWith("--")) throw new Error(`${flagName} needs a value`)
+      raw = next
+      i++
+    }
+    layer[name] = { value: validate(name, fromText(spec.kind, raw), flagName), source: flagName }
+  }
+  return { layer, printConfig, help }
+}
+
+/** Edits within which an unknown AGENT_* variable is taken for a misspelt setting */
+const ENV_TYPO_DISTANCE = 3
+
+function readEnvironment(env: NodeJS.ProcessEnv): { layer: Layer; warnings: string[] } {
+  const layer: Layer = {}
+  const warnings: string[] = []
+  for (const [key, raw] of Object.entries(env)) {
+    if (!key.startsWith(ENV_PREFIX) || raw === undefined || raw === "") continue
+    const name = BY_ENV.get(key)
+    if (!name) {
+      // Not ours, unless it's a near miss
+      const hint = suggest(key, BY_ENV.keys(), ENV_TYPO_DISTANCE)
+      if (hint) warnings.push(`Ignoring environment variable ${key} (did you mean ${hint}?)`)
+      continue
+    }
+    layer[name] = { value: validate(name, fromText(OPTIONS[name].kind, raw), key), source: key }
+  }
+  return { layer, warnings }
+}
+
+// ---- Config file ----
+
+/** Settings a config file or profile may hold: everything but the run-picking ones */
+const fileSettingsShape = Object.fromEntries(
+  NAMES.filter((name) => !OPTIONS[name].runOnly).map((name) => [name, OPTIONS[name].schema.optional()]),
+) as Record<string, z.ZodType>
+
+const sectionsShape = {
+  ladder: z.union([z.string(), z.array(z.unknown()).min(1)]).optional(),
+  prices: priceTableSchema.optional(),
+  toolTimeouts: toolTimeoutsSchema.optional(),
+}
+
+const profileSchema = z.object({ ...fileSettingsShape, ...sectionsShape }).strict()
+
+const configFileSchema = z
+  .object({
+    ...fileSettingsShape,
+    ...sectionsShape,
+    profiles: z.record(z.string(), profileSchema).optional(),
+  })
+  .strict()
+
+type ConfigFile = z.infer<typeof configFileSchema>
+type ConfigLevel = z.infer<typeof profileSchema>
+
+function readConfigFile(configPath: string): ConfigFile {
+  let raw: unknown
+  try {
+    raw = JSON.parse(readFileSync(configPath, "utf8"))
+  } catch (e: any) {
+    throw new Error(`Could not read config ${configPath}: ${e.message}`)
+  }
+  const result = configFileSchema.safeParse(raw)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    throw new Error(`Invalid config ${configPath} at ${issue.path.map(String).join(".") || "<root>"}: ${issue.message}`)
+  }
+  return result.data
+}
+
+function selectProfile(file: ConfigFile, configPath: string, profile: string): ConfigLevel {
+  const selected = file.profiles?.[profile]
+  if (!selected) {
+    const names = Object.keys(file.profiles ?? {})
+    throw new Error(
+      `Unknown profile "${profile}" — ${configPath} ${names.length > 0 ? `has ${names.join(", ")}` : "has no profiles"}`,
+    )
+  }
+  return selected
+}
+
+function settingsLayer(level: ConfigLevel, source: string): Layer {
+  const layer: Layer = {}
+  // Run-picking names aren't file settings ("ladder" there is the section)
+  for (const name of NAMES.filter((n) => !OPTIONS[n].runOnly)) {
+    const value = (level as Record<string, unknown>)[name]
+    if (value !== undefined) layer[name] = { value, source }
+  }
+  return layer
+}
+
+/** Resolve the run's settings from defaults, the config file, profile, environment and `args` (argv without node + script) */
+export function resolveSettings(args: string[], env: NodeJS.ProcessEnv): ResolvedSettings {
+  const cli = parseCommandLine(args)
+  const { layer: fromEnv, warnings } = readEnvironment(env)
+  const pick = <K extends OptionName>(name: K) => (cli.layer[name] ?? fromEnv[name])?.value as RunSettings[K] | undefined
+
+  const configPath = pick("config") ?? (existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : null)
+  const profile = pick("profile") ?? null
+  const layers: Layer[] = []
+  if (configPath) {
+    const file = readConfigFile(configPath)
+    layers.push(settingsLayer(file, configPath))
+    if (profile) layers.push(settingsLayer(selectProfile(file, configPath, profile), `profile ${profile}`))
+  } else if (profile) {
+    throw new Error(`--profile ${profile} needs a config file (--config, or ./${DEFAULT_CONFIG_FILE})`)
+  }
+  layers.push(fromEnv, cli.layer)
+
+  const settings = {} as Record<OptionName, unknown>
+  const sources = {} as SettingSources
+  for (const name of NAMES) {
+    settings[name] = OPTIONS[name].default
+    sources[name] = "default"
+    for (const layer of layers) {
+      const entry = layer[name]
+      if (entry) {
+        settings[name] = entry.value
+        sources[name] = entry.source
+      }
+    }
+  }
+  settings.config = configPath
+  if (configPath && sources.config === "default") sources.config = "found in working directory"
+
+  // --step runs just that step unless "only" was set some other way
+  if (settings.step !== null && sources.only === "default") {
+    settings.only = true
+    sources.only = "--step"
+  }
+
+  return {
+    settings: { ...(settings as Omit<RunSettings, "versionProvided">), versionProvided: sources.version !== "default" },
+    sources,
+    printConfig: cli.printConfig,
+    help: cli.help,
+    warnings,
+  }
+}
+
+export interface ConfigSections {
+  /** null when neither the file nor the profile has a ladder */
+  ladder: ModelRung[] | null
+  /** Price entries over the built-in table */
+  prices: PriceTable | null
+  /** Tool timeouts over the built-in ones */
+  toolTimeouts: Record<string, number> | null
+}
+
+/** The ladder, prices and toolTimeouts sections of a config file, with the profile's applied */
+export function loadConfigSections(configPath: string, profile: string | null, defaultAdapter: AdapterMode): ConfigSections {
+  const file = readConfigFile(configPath)
+  const selected = profile ? selectProfile(file, configPath, profile) : null
+  const ladderSource = selected?.ladder !== undefined ? selected : file
+  const ladderAt: PropertyKey[] = selected?.ladder !== undefined ? ["profiles", profile!, "ladder"] : ["ladder"]
+  const ladder = ladderSource.ladder
+  return {
+    ladder:
+      ladder === undefined
+        ? null
+        : typeof ladder === "string"
+          ? parseLadderSpec(ladder, defaultAdapter)
+          : parseLadderEntries(ladder, defaultAdapter, configPath, ladderAt),
+    prices: file.prices || selected?.prices ? { ...file.prices, ...selected?.prices } : null,
+    toolTimeouts: file.toolTimeouts || selected?.toolTimeouts ? { ...file.toolTimeouts, ...selected?.toolTimeouts } : null,
+  }
+}
+
+/** One line per setting with where its value came from (`sources` null: all from a recording or checkpoint) */
+export function formatSettings(settings: RunSettings, sources: SettingSources | null): string {
+  const width = Math.max(...NAMES.map((name) => name.length))
+  return NAMES.map((name) => {
+    const value = JSON.stringify(settings[name])
+    return `  ${name.padEnd(width)}  ${sources ? value.padEnd(48) + "  " + sources[name] : value}`
+  }).join("\n")
+}
+
+/** --help text, generated from OPTIONS */
+export function formatUsage(): string {
+  const rows = NAMES.map((name) => {
+    const spec = OPTIONS[name]
+    const flagText = spec.kind === "boolean" ? `--${spec.default ? "[no-]" : ""}${kebab(name)}` : `--${kebab(name)} <${spec.kind}>`
+    const def = spec.default === null || spec.default === false ? "" : ` (default ${spec.default === true ? "on" : spec.default})`
+    return [flagText, envName(name), spec.help + def]
+  })
+  const flagWidth = Math.max(...rows.map((r) => r[0].length))
+  const envWidth = Math.max(...rows.map((r) => r[1].length))
+  return [
+    "Usage: agent [challenge-url] [bench] [options]",
+    "",
+    `Settings resolve as defaults < config file < --profile < ${ENV_PREFIX}* environment < flags.`,
+    "",
+    ...rows.map(([f, e, h]) => `  ${f.padEnd(flagWidth)}  ${e.padEnd(envWidth)}  ${h}`),
+    "",
+    "  --print-config   show the resolved settings and exit",
+    "  --help           show this list and exit",
+  ].join("\n")
+}
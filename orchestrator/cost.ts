@@ -0,0 +1,128 @@
+/**
+ * Token cost estimation and run budgets.
+ *
+ * Prices are USD per million tokens. The built-in table covers the models
+ * the ladder normally uses; a "prices" section in the config file (or its
+ * profile, see ./config) adds or overrides entries:
+ *
+ *   { "prices": { "claude-opus-4-6": { "input": 5, "output": 25 } } }
+ *
+ * Keys match a model ID exactly, as "provider:model", or as a prefix
+ * (so "claude-haiku-4-5" also prices "claude-haiku-4-5-20251001").
+ */
+import { z } from "zod"
+import type { ModelRung } from "./ladder"
+import type { TokenUsage } from "./report"
+
+export interface ModelPrice {
+  /** USD per 1M prompt tokens */
+  input: number
+  /** USD per 1M completion tokens */
+  output: number
+}
+
+export type PriceTable = Record<string, ModelPrice>
+
+export const DEFAULT_PRICES: PriceTable = {
+  "claude-opus-4-6": { input: 5, output: 25 },
+  "claude-opus-4-5": { input: 5, output: 25 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+}
+
+/** The config file's "prices" section */
+export const priceTableSchema = z.record(
+  z.string(),
+  z.object({ input: z.number().nonnegative(), output: z.number().nonnegative() }).strict(),
+)
+
+export function findPrice(rung: ModelRung, prices: PriceTable): ModelPrice | null {
+  const exact = prices[`${rung.providerID}:${rung.modelID}`] ?? prices[rung.modelID]
+  if (exact) return exact
+  // Longest prefix wins so "gpt-4o-mini-…" doesn't match "gpt-4o"
+  const prefix = Object.keys(prices)
+    .filter((key) => rung.modelID.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0]
+  return prefix ? prices[prefix] : null
+}
+
+/** Estimated USD cost, or null when the model has no price entry */
+export function estimateCost(rung: ModelRung, usage: TokenUsage, prices: PriceTable): number | null {
+  // Free regardless of price entry (e.g. the orchestrator's fast path)
+  if (usage.promptTokens === 0 && usage.completionTokens === 0) return 0
+  const price = findPrice(rung, prices)
+  if (!price) return null
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000
+}
+
+export function formatCost(usd: number | null): string {
+  if (usd === null) return "$?"
+  return usd >= 1 ? `$${usd.toFixed(2)}` : `$${usd.toFixed(4)}`
+}
+
+/**
+ * Run budget: --max-cost caps the estimated spend of the whole run,
+ * --max-tokens-per-step caps prompt+completion tokens spent on one step
+ * (summed over all ladder attempts at it).
+ */
+export interface Budget {
+  readonly spentUsd: number
+  readonly stepTokens: number
+  /** Start counting tokens for a new step */
+  beginStep(): void
+  /** Add usage from one model call; returns why a limit was exceeded, or null */
+  record(rung: ModelRung, usage: TokenUsage): string | null
+  /** True once --max-cost has been reached; no further model calls should start */
+  exhausted(): boolean
+  /** A budget over the same run spend with its own step token count, for steps running side by side */
+  forLane(): Budget
+}
+
+export function createBudget(opts: {
+  maxCostUsd: number | null
+  maxTokensPerStep: number | null
+  prices: PriceTable
+  /** Spend carried over from before a --resume */
+  spentUsd?: number
+}): Budget {
+  return budgetView({ spentUsd: opts.spentUsd ?? 0 }, opts)
+}
+
+function budgetView(
+  run: { spentUsd: number },
+  opts: { maxCostUsd: number | null; maxTokensPerStep: number | null; prices: PriceTable },
+): Budget {
+  let stepTokens = 0
+  return {
+    get spentUsd() {
+      return run.spentUsd
+    },
+    get stepTokens() {
+      return stepTokens
+    },
+    beginStep() {
+      stepTokens = 0
+    },
+    record(rung, usage) {
+      stepTokens += usage.promptTokens + usage.completionTokens
+      run.spentUsd += estimateCost(rung, usage, opts.prices) ?? 0
+      if (opts.maxCostUsd !== null && run.spentUsd >= opts.maxCostUsd) {
+        return `run cost ${formatCost(run.spentUsd)} reached --max-cost ${formatCost(opts.maxCostUsd)}`
+      }
+      if (opts.maxTokensPerStep !== null && stepTokens >= opts.maxTokensPerStep) {
+        return `step used ${stepTokens} tokens, --max-tokens-per-step is ${opts.maxTokensPerStep}`
+      }
+      return null
+    },
+    exhausted() {
+      return opts.maxCostUsd !== null && run.spentUsd >= opts.maxCostUsd
+    },
+    forLane() {
+      return budgetView(run, opts)
+    },
+  }
+}
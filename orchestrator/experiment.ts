@@ -0,0 +1,381 @@
+/**
+ * A/B experiments over prompt, tool-set and ladder variants.
+ *
+ * An experiment file names two or more variants; the first is the control.
+ * Every variant runs the same steps the same number of times, interleaved
+ * (run 1 of every variant, then run 2, ...) so provider drift hits all
+ * variants equally. Results are compared against the control per step and
+ * overall:
+ *   solve rate  — Fisher's exact test (two-sided)
+ *   latency     — Mann-Whitney U on total time per run (normal approximation)
+ *   tool calls  — Mann-Whitney U on tool calls per run
+ * An experiment runs many of these tests at once (every variant × step ×
+ * metric), so p-values are Holm-adjusted over all of them before anything
+ * is called significant. A step's winner is starred only when the metric
+ * that made it the winner is significantly better than the control's.
+ *
+ * {
+ *   "steps": "1-5",
+ *   "repeat": 8,
+ *   "variants": [
+ *     { "name": "control" },
+ *     { "name": "terse-header", "prompts": { "header": "prompts/header-terse.md" } },
+ *     { "name": "haiku-first", "ladder": "anthropic:claude-haiku-4-5,anthropic:claude-opus-4-6" },
+ *     { "name": "no-js", "tools": ["scan_page_for_code", "enter_code", "page_multi_action", "drag_and_drop"] }
+ *   ]
+ * }
+ *
+ * Prompt paths are relative to the experiment file.
+ */
+import { readFileSync, writeFileSync } from "node:fs"
+import path from "node:path"
+import { z } from "zod"
+import { parseLadderEntries, parseLadderSpec, type AdapterMode, type ModelRung } from "./ladder"
+import { aggregateBench, type BenchSample, type BenchStepStats } from "./bench"
+
+/** System prompt building blocks a variant can replace */
+export type PromptSectionName = "header" | "escalation" | "shared" | "advanced" | "rulesHaiku" | "rulesOpus"
+
+export type PromptSections = Record<PromptSectionName, string>
+
+const PROMPT_SECTION_NAMES = ["header", "escalation", "shared", "advanced", "rulesHaiku", "rulesOpus"] as const
+
+const variantSchema = z.object({
+  name: z.string().min(1),
+  prompts: z.partialRecord(z.enum(PROMPT_SECTION_NAMES), z.string()).optional(),
+  ladder: z.union([z.string(), z.array(z.unknown()).min(1)]).optional(),
+  tools: z.array(z.string()).min(1).optional(),
+}).strict()
+
+const experimentSchema = z.object({
+  steps: z.string().optional(),
+  repeat: z.number().int().positive().optional(),
+  variants: z.array(variantSchema).min(2),
+}).strict()
+
+export interface ExperimentVariant {
+  name: string
+  /** Section overrides, already read from disk */
+  prompts: Partial<PromptSections>
+  /** null = use the run's ladder */
+  ladder: ModelRung[] | null
+  /** null = use each rung's tool set unchanged */
+  toolNames: string[] | null
+}
+
+export interface ExperimentConfig {
+  file: string
+  steps: string | null
+  repeat: number | null
+  variants: ExperimentVariant[]
+}
+
+export function loadExperiment(file: string, defaultAdapter: AdapterMode): ExperimentConfig {
+  let raw: unknown
+  try {
+    raw = JSON.parse(readFileSync(file, "utf8"))
+  } catch (e: any) {
+    throw new Error(`Could not read experiment ${file}: ${e.message}`)
+  }
+  const result = experimentSchema.safeParse(raw)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    throw new Error(`Invalid experiment ${file} at ${issue.path.map(String).join(".") || "<root>"}: ${issue.message}`)
+  }
+
+  const names = new Set<string>()
+  const baseDir = path.dirname(file)
+  const variants = result.data.variants.map((v, i): ExperimentVariant => {
+    if (names.has(v.name)) throw new Error(`Invalid experiment ${file}: duplicate variant name "${v.name}"`)
+    names.add(v.name)
+
+    const prompts: Partial<PromptSections> = {}
+    for (const [section, rel] of Object.entries(v.prompts ?? {})) {
+      const promptPath = path.resolve(baseDir, rel!)
+      try {
+        prompts[section as PromptSectionName] = readFileSync(promptPath, "utf8")
+      } catch (e: any) {
+        throw new Error(`Variant "${v.name}": could not read ${section} prompt ${promptPath}: ${e.message}`)
+      }
+    }
+
+    let ladder: ModelRung[] | null = null
+    if (typeof v.ladder === "string") {
+      ladder = parseLadderSpec(v.ladder, defaultAdapter)
+    } else if (v.ladder) {
+      ladder = parseLadderEntries(v.ladder, defaultAdapter, file, ["variants", i, "ladder"])
+    }
+
+    return { name: v.name, prompts, ladder, toolNames: v.tools ?? null }
+  })
+
+  return {
+    file,
+    steps: result.data.steps ?? null,
+    repeat: result.data.repeat ?? null,
+    variants,
+  }
+}
+
+// ---- Statistics ----
+
+function logFactorial(n: number): number {
+  let s = 0
+  for (let i = 2; i <= n; i++) s += Math.log(i)
+  return s
+}
+
+/**
+ * Two-sided Fisher's exact test for a 2x2 table
+ *   [a b]   a = successes A, b = failures A
+ *   [c d]   c = successes B, d = failures B
+ */
+export function fisherExact(a: number, b: number, c: number, d: number): number {
+  const n = a + b + c + d
+  const row1 = a + b
+  const col1 = a + c
+  const logP = (x: number) =>
+    logFactorial(row1) + logFactorial(n - row1) + logFactorial(col1) + logFactorial(n - col1) -
+    logFactorial(n) - logFactorial(x) - logFactorial(row1 - x) - logFactorial(col1 - x) -
+    logFactorial(n - row1 - col1 + x)
+
+  const observed = logP(a)
+  let p = 0
+  for (let x = Math.max(0, row1 + col1 - n); x <= Math.min(row1, col1); x++) {
+    const lp = logP(x)
+    // Tolerance so tables as likely as the observed one count as "as extreme"
+    if (lp <= observed + 1e-7) p += Math.exp(lp)
+  }
+  return Math.min(1, p)
+}
+
+/** Standard normal CDF (Abramowitz–Stegun 7.1.26 via erf) */
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2)
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+    t * Math.exp(-(z * z) / 2)
+  return z >= 0 ? (1 + y) / 2 : (1 - y) / 2
+}
+
+/** Two-sided Mann-Whitney U test, normal approximation with tie correction */
+export function mannWhitney(xs: number[], ys: number[]): number {
+  const n1 = xs.length
+  const n2 = ys.length
+  if (n1 === 0 || n2 === 0) return 1
+
+  const all = [...xs.map((v) => ({ v, g: 0 })), ...ys.map((v) => ({ v, g: 1 }))].sort((a, b) => a.v - b.v)
+  const ranks = new Array<number>(all.length)
+  let tieTerm = 0
+  for (let i = 0; i < all.length; ) {
+    let j = i
+    while (j + 1 < all.length && all[j + 1].v === all[i].v) j++
+    const rank = (i + j + 2) / 2
+    for (let k = i; k <= j; k++) ranks[k] = rank
+    const t = j - i + 1
+    tieTerm += t * t * t - t
+    i = j + 1
+  }
+  const r1 = all.reduce((s, item, i) => (item.g === 0 ? s + ranks[i] : s), 0)
+  const u1 = r1 - (n1 * (n1 + 1)) / 2
+  const n = n1 + n2
+  const mean = (n1 * n2) / 2
+  const variance = ((n1 * n2) / 12) * (n + 1 - tieTerm / (n * (n - 1)))
+  if (variance <= 0) return 1
+  // Continuity correction
+  const z = (Math.abs(u1 - mean) - 0.5) / Math.sqrt(variance)
+  return Math.min(1, 2 * (1 - normalCdf(Math.max(0, z))))
+}
+
+/** Holm–Bonferroni step-down adjustment; adjusted p-values in the input order */
+export function holmAdjust(ps: number[]): number[] {
+  const adjusted = new Array<number>(ps.length)
+  let running = 0
+  ps.map((p, i) => ({ p, i }))
+    .sort((a, b) => a.p - b.p)
+    .forEach(({ p, i }, rank) => {
+      running = Math.max(running, Math.min(1, (ps.length - rank) * p))
+      adjusted[i] = running
+    })
+  return adjusted
+}
+
+// ---- Comparison ----
+
+export const SIGNIFICANCE = 0.05
+
+export interface VariantComparison {
+  variant: string
+  control: string
+  /** null = all steps */
+  step: number | null
+  successRate: number
+  controlSuccessRate: number
+  successP: number
+  p50Ms: number
+  controlP50Ms: number
+  latencyP: number
+  p50ToolCalls: number
+  controlP50ToolCalls: number
+  toolCallsP: number
+  /** The three p-values, Holm-adjusted over every comparison of the experiment */
+  adjusted: { successP: number; latencyP: number; toolCallsP: number }
+}
+
+export interface ExperimentSummary {
+  variants: Array<{ name: string; stats: BenchStepStats[]; overall: BenchStepStats }>
+  comparisons: VariantComparison[]
+  /** Per step: best variant (solve rate, then p50 latency) and whether it beats the control significantly on that metric */
+  winners: Array<{ step: number; variant: string; significant: boolean }>
+}
+
+function compare(
+  variant: string,
+  control: string,
+  step: number | null,
+  xs: BenchSample[],
+  cs: BenchSample[],
+): Omit<VariantComparison, "adjusted"> {
+  const [vx] = aggregateBench(xs.map((s) => ({ ...s, step: 0 })))
+  const [vc] = aggregateBench(cs.map((s) => ({ ...s, step: 0 })))
+  return {
+    variant,
+    control,
+    step,
+    successRate: vx.successRate,
+    controlSuccessRate: vc.successRate,
+    successP: fisherExact(vx.successes, vx.runs - vx.successes, vc.successes, vc.runs - vc.successes),
+    p50Ms: vx.totalMs.p50,
+    controlP50Ms: vc.totalMs.p50,
+    latencyP: mannWhitney(xs.map((s) => s.totalMs), cs.map((s) => s.totalMs)),
+    p50ToolCalls: vx.toolCalls.p50,
+    controlP50ToolCalls: vc.toolCalls.p50,
+    toolCallsP: mannWhitney(xs.map((s) => s.toolCalls), cs.map((s) => s.toolCalls)),
+  }
+}
+
+/** Whether the winner beats the control on the metric that made it the winner */
+function winsSignificantly(c: VariantComparison): boolean {
+  if (c.successRate !== c.controlSuccessRate) {
+    return c.successRate > c.controlSuccessRate && c.adjusted.successP < SIGNIFICANCE
+  }
+  return c.p50Ms < c.controlP50Ms && c.adjusted.latencyP < SIGNIFICANCE
+}
+
+export function summarizeExperiment(samplesByVariant: Map<string, BenchSample[]>): ExperimentSummary {
+  const names = [...samplesByVariant.keys()]
+  const control = names[0]
+  const controlSamples = samplesByVariant.get(control)!
+
+  const variants = names.map((name) => {
+    const samples = samplesByVariant.get(name)!
+    return {
+      name,
+      stats: aggregateBench(samples),
+      overall: aggregateBench(samples.map((s) => ({ ...s, step: 0 })))[0],
+    }
+  })
+
+  const steps = [...new Set(controlSamples.map((s) => s.step))].sort((a, b) => a - b)
+  const raw: Array<Omit<VariantComparison, "adjusted">> = []
+  for (const name of names.slice(1)) {
+    const samples = samplesByVariant.get(name)!
+    raw.push(compare(name, control, null, samples, controlSamples))
+    for (const step of steps) {
+      const xs = samples.filter((s) => s.step === step)
+      const cs = controlSamples.filter((s) => s.step === step)
+      if (xs.length && cs.length) raw.push(compare(name, control, step, xs, cs))
+    }
+  }
+  const adjusted = holmAdjust(raw.flatMap((c) => [c.successP, c.latencyP, c.toolCallsP]))
+  const comparisons: VariantComparison[] = raw.map((c, i) => ({
+    ...c,
+    adjusted: { successP: adjusted[3 * i], latencyP: adjusted[3 * i + 1], toolCallsP: adjusted[3 * i + 2] },
+  }))
+
+  const winners = steps.map((step) => {
+    const ranked = variants
+      .map((v) => ({ name: v.name, stats: v.stats.find((s) => s.step === step) }))
+      .filter((v): v is { name: string; stats: BenchStepStats } => !!v.stats)
+      .sort((a, b) => b.stats.successRate - a.stats.successRate || a.stats.totalMs.p50 - b.stats.totalMs.p50)
+    const best = ranked[0]?.name ?? control
+    const vsControl = comparisons.find((c) => c.step === step && c.variant === best)
+    return { step, variant: best, significant: best !== control && !!vsControl && winsSignificantly(vsControl) }
+  })
+
+  return { variants, comparisons, winners }
+}
+
+const sec = (ms: number) => (ms / 1000).toFixed(1)
+const pct = (r: number) => `${Math.round(r * 100)}%`
+const pval = (p: number) => (p < 0.001 ? "<.001" : p.toFixed(3).replace(/^0/, "")) + (p < SIGNIFICANCE ? "*" : "")
+
+/** Plain-text tables: overall per variant, comparisons vs control, per-step winners */
+export function formatExperimentSummary(summary: ExperimentSummary): string[] {
+  const table = (header: string[], rows: string[][]) => {
+    const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)))
+    const line = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join("  ").trimEnd()
+    return [line(header), widths.map((w) => "─".repeat(w)).join("  "), ...rows.map(line)]
+  }
+
+  const lines: string[] = []
+  lines.push(
+    ...table(
+      ["variant", "ok", "total p50", "p90", "calls p50"],
+      summary.variants.map((v) => [
+        v.name,
+        `${v.overall.successes}/${v.overall.runs} (${pct(v.overall.successRate)})`,
+        `${sec(v.overall.totalMs.p50)}s`,
+        `${sec(v.overall.totalMs.p90)}s`,
+        String(v.overall.toolCalls.p50),
+      ]),
+    ),
+  )
+
+  if (summary.comparisons.length > 0) {
+    lines.push("")
+    lines.push(
+      ...table(
+        ["vs control", "step", "solve", "p", "total p50", "p", "calls p50", "p"],
+        summary.comparisons.map((c) => [
+          c.variant,
+          c.step === null ? "all" : String(c.step),
+          `${pct(c.successRate)} vs ${pct(c.controlSuccessRate)}`,
+          pval(c.adjusted.successP),
+          `${sec(c.p50Ms)}s vs ${sec(c.controlP50Ms)}s`,
+          pval(c.adjusted.latencyP),
+          `${c.p50ToolCalls} vs ${c.controlP50ToolCalls}`,
+          pval(c.adjusted.toolCallsP),
+        ]),
+      ),
+    )
+  }
+
+  lines.push("")
+  lines.push(
+    ...table(
+      ["step", "winner"],
+      summary.winners.map((w) => [String(w.step), w.variant + (w.significant ? " *" : "")]),
+    ),
+  )
+  lines.push(
+    `p: Holm-adjusted over ${summary.comparisons.length * 3} tests; * p < ${SIGNIFICANCE} against the control (${summary.variants[0]?.name})` +
+      ", a winner's on the metric that picked it",
+  )
+  return lines
+}
+
+export function saveExperimentResult(
+  file: string,
+  result: { experiment: string; steps: number[]; repeat: number; samples: Map<string, BenchSample[]>; summary: ExperimentSummary },
+): void {
+  const doc = {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    experiment: result.experiment,
+    steps: result.steps,
+    repeat: result.repeat,
+    samples: Object.fromEntries(result.samples),
+    summary: result.summary,
+  }
+  writeFileSync(file, JSON.stringify(doc, null, 2))
+}
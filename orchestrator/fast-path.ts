@@ -0,0 +1,88 @@
+/**
+ * LLM-free fast path.
+ *
+ * Many steps are solved by scan_page_for_code followed by enter_code with the
+ * top candidate. Before calling the model, the orchestrator runs the scan
+ * (auto-solve included) itself, scores the code candidates, and submits one
+ * only when it is unambiguous. If the page doesn't advance, the model attempt
+ * that follows is told what was already tried (see ./attempt-summary).
+ *
+ * Scores reward where a candidate was found (a <code> element or a
+ * data-code attribute is strong evidence, a word matched in body text is
+ * weak) and the usual code shape (6 uppercase letters/digits). A candidate is
+ * submitted only if it clears MIN_SCORE and beats the runner-up by MIN_MARGIN,
+ * so a page with decoys falls through to the model.
+ */
+import type { CodeCandidate } from "../tools/types"
+import type { ModelRung } from "./ladder"
+
+/** Pseudo-rung for fast-path entries in reports and recordings */
+export const FAST_PATH_RUNG: ModelRung = {
+  providerID: "orchestrator",
+  modelID: "fast-path",
+  adapter: "env",
+  prompt: "haiku",
+  tools: "haiku",
+}
+
+/** Attempt index used for the fast path (model attempts are 0-based ladder indices) */
+export const FAST_PATH_ATTEMPT = -1
+
+const SOURCE_SCORES: Record<string, number> = {
+  "el:code": 10,
+  "el:[data-code]": 10,
+  "el:[data-secret]": 9,
+  "el:[data-answer]": 9,
+  "el:kbd": 8,
+  "attr:data-code": 8,
+  "attr:data-secret": 8,
+  "attr:data-answer": 8,
+  "el:mark": 6,
+  "el:[data-value]": 5,
+  "el:pre": 4,
+  pattern: 4,
+  hidden: 2,
+  comment: 1,
+}
+/** Any other data-* attribute */
+const OTHER_ATTR_SCORE = 1
+/** Bonus for the usual code shape */
+const SHAPE_BONUS = 3
+
+const MIN_SCORE = 7
+const MIN_MARGIN = 4
+
+export interface ScoredCode {
+  code: string
+  src: string
+  score: number
+}
+
+function scoreCandidate(candidate: CodeCandidate): number {
+  const code = candidate.val.trim()
+  // Codes are single tokens; prose and markup never get submitted
+  if (code.length < 4 || code.length > 24 || /\s/.test(code)) return 0
+  const base = SOURCE_SCORES[candidate.src] ?? (candidate.src.startsWith("attr:") ? OTHER_ATTR_SCORE : 0)
+  return base + (/^[A-Z0-9]{6}$/.test(code) ? SHAPE_BONUS : 0)
+}
+
+/** Candidates with a positive score, best first; one entry per distinct code */
+export function scoreCandidates(codes: CodeCandidate[]): ScoredCode[] {
+  const best = new Map<string, ScoredCode>()
+  for (const candidate of codes) {
+    const score = scoreCandidate(candidate)
+    if (score <= 0) continue
+    const code = candidate.val.trim()
+    const prev = best.get(code)
+    if (!prev || score > prev.score) best.set(code, { code, src: candidate.src, score })
+  }
+  return [...best.values()].sort((a, b) => b.score - a.score)
+}
+
+/** The top candidate if it is strong and clearly ahead of the rest, else null */
+export function pickConfidentCode(scored: ScoredCode[]): ScoredCode | null {
+  const [top, second] = scored
+  if (!top || top.score < MIN_SCORE) return null
+  if (second && top.score - second.score < MIN_MARGIN) return null
+  return top
+}
@@ -0,0 +1,132 @@
+/**
+ * Model escalation ladder.
+ *
+ * Each rung is one attempt at a step: attempt 0 uses rung 0, a failed or
+ * escalated attempt moves to the next rung. Rungs carry their own provider,
+ * adapter mode, prompt variant and tool set so a cheap model can run the
+ * escalation-aware prompt while the last rung gets the full playbooks.
+ * Config rungs may also set tool-call policy thresholds ("policy").
+ *
+ * Sources (first match wins):
+ *   1. --ladder anthropic:claude-haiku-4-5,anthropic:claude-opus-4-6
+ *   2. "ladder" in the config file or its profile (see ./config)
+ *   3. a single rung built from --provider/--model
+ */
+import { z } from "zod"
+import { toolPolicySchema, type ToolPolicyOverrides } from "./tool-policy"
+
+export type AdapterMode = "auto" | "opencode" | "env"
+
+/** haiku = escalation section + shared playbooks; opus = all playbooks, escalate disabled */
+export type PromptVariant = "haiku" | "opus"
+
+/** haiku = includes the escalate tool; opus = no escalate */
+export type ToolSetName = "haiku" | "opus"
+
+export interface ModelRung {
+  providerID: string
+  modelID: string
+  adapter: AdapterMode
+  prompt: PromptVariant
+  tools: ToolSetName
+  /** Tool-call policy thresholds over the prompt variant's defaults (see ./tool-policy) */
+  policy?: ToolPolicyOverrides
+}
+
+const rungObjectSchema = z.object({
+  provider: z.string(),
+  model: z.string(),
+  adapter: z.enum(["auto", "opencode", "env"]).optional(),
+  prompt: z.enum(["haiku", "opus"]).optional(),
+  tools: z.enum(["haiku", "opus"]).optional(),
+  policy: toolPolicySchema.optional(),
+}).strict()
+
+type RungInput = string | z.infer<typeof rungObjectSchema>
+
+/** Split "provider:model" into its parts. The model may itself contain colons. */
+function parseRungSpec(spec: string): { provider: string; model: string } {
+  const trimmed = spec.trim()
+  const idx = trimmed.indexOf(":")
+  if (idx <= 0 || idx === trimmed.length - 1) {
+    throw new Error(`Invalid ladder rung "${spec}" — expected provider:model (e.g. anthropic:claude-opus-4-6)`)
+  }
+  return { provider: trimmed.slice(0, idx), model: trimmed.slice(idx + 1) }
+}
+
+/**
+ * Fill in rung defaults. Every rung except the last gets the escalation-aware
+ * prompt and tool set; the last rung has nowhere to escalate to.
+ */
+function resolveRungs(inputs: RungInput[], defaultAdapter: AdapterMode): ModelRung[] {
+  return inputs.map((input, i) => {
+    const isLast = i === inputs.length - 1
+    const fallbackVariant = isLast ? "opus" : "haiku"
+    if (typeof input === "string") {
+      const { provider, model } = parseRungSpec(input)
+      return { providerID: provider, modelID: model, adapter: defaultAdapter, prompt: fallbackVariant, tools: fallbackVariant }
+    }
+    return {
+      providerID: input.provider,
+      modelID: input.model,
+      adapter: input.adapter ?? defaultAdapter,
+      prompt: input.prompt ?? fallbackVariant,
+      tools: input.tools ?? input.prompt ?? fallbackVariant,
+      ...(input.policy ? { policy: input.policy } : {}),
+    }
+  })
+}
+
+/** Parse the --ladder CLI value (comma-separated provider:model pairs). */
+export function parseLadderSpec(spec: string, defaultAdapter: AdapterMode): ModelRung[] {
+  const parts = spec.split(",").map((s) => s.trim()).filter(Boolean)
+  if (parts.length === 0) {
+    throw new Error("--ladder needs at least one provider:model rung")
+  }
+  return resolveRungs(parts, defaultAdapter)
+}
+
+/**
+ * Resolve ladder entries from a JSON document (strings or rung objects).
+ * `source` names the file in error messages; `at` is the entries' JSON path.
+ */
+export function parseLadderEntries(
+  entries: unknown[],
+  defaultAdapter: AdapterMode,
+  source: string,
+  at: PropertyKey[] = ["ladder"],
+): ModelRung[] {
+  // Rungs are validated one by one (rather than as a union) so errors name
+  // the offending field instead of zod's generic union failure.
+  const rungs = entries.map((entry, i): RungInput => {
+    if (typeof entry === "string") return entry
+    const rung = rungObjectSchema.safeParse(entry)
+    if (!rung.success) {
+      const issue = rung.error.issues[0]
+      throw invalidLadder(source, [...at, i, ...issue.path], issue.message)
+    }
+    return rung.data
+  })
+  return resolveRungs(rungs, defaultAdapter)
+}
+
+function invalidLadder(source: string, path: PropertyKey[], message: string): Error {
+  return new Error(`Invalid ladder in ${source} at ${path.map(String).join(".") || "<root>"}: ${message}`)
+}
+
+export function resolveLadder(opts: {
+  ladder: string | null
+  /** The config file's ladder, already resolved (see ./config) */
+  configLadder: ModelRung[] | null
+  provider: string
+  model: string
+  adapter: AdapterMode
+}): ModelRung[] {
+  if (opts.ladder) return parseLadderSpec(opts.ladder, opts.adapter)
+  if (opts.configLadder) return opts.configLadder
+  return resolveRungs([{ provider: opts.provider, model: opts.model }], opts.adapter)
+}
+
+export function formatRung(rung: ModelRung): string {
+  return `${rung.providerID}:${rung.modelID}`
+}
@@ -0,0 +1,106 @@
+/**
+ * Lanes for steps running side by side (--concurrency).
+ *
+ * Each (step, version) pair of a concurrent matrix run gets a lane: its own
+ * browser session (see tools/browser.ts), tool-work tracker and per-step
+ * token count over the shared run budget. Code on the attempt path finds its
+ * lane through AsyncLocalStorage rather than having it passed down — tools
+ * get the session from it through chat()'s context — and output from inside
+ * a lane is prefixed with the lane's label so interleaved logs stay readable.
+ */
+import { AsyncLocalStorage } from "node:async_hooks"
+import type { BrowserSession } from "../tools/browser"
+import type { Budget } from "./cost"
+import type { ToolWork } from "./tool-timeouts"
+
+export interface Lane {
+  /** Log prefix, e.g. "s3 v2" */
+  label: string
+  toolWork: ToolWork
+  budget: Budget
+  browser: BrowserSession
+}
+
+const lanes = new AsyncLocalStorage<Lane>()
+
+/** The lane the caller runs in; null outside concurrent runs */
+export function currentLane(): Lane | null {
+  return lanes.getStore() ?? null
+}
+
+export function runInLane<T>(lane: Lane, fn: () => Promise<T>): Promise<T> {
+  return lanes.run(lane, fn).finally(() => {
+    for (const flush of flushers) flush(lane)
+  })
+}
+
+let prefixing = false
+// Per stream: how to flush a lane's unfinished line
+const flushers: Array<(lane: Lane) => void> = []
+
+/**
+ * Prefix every line written to stdout/stderr from inside a lane with the
+ * lane's label — console output and direct stream writes (streamed model
+ * text, tool lines) alike. A lane's unfinished line is held until its newline
+ * arrives, so a line never mixes output of two lanes; what's left is flushed
+ * when the lane ends.
+ */
+export function prefixLaneLogs(): void {
+  if (prefixing) return
+  prefixing = true
+  for (const stream of [process.stdout, process.stderr]) prefixLines(stream)
+}
+
+type WriteCallback = (err?: Error | null) => void
+
+function prefixLines(stream: NodeJS.WriteStream): void {
+  const write = stream.write.bind(stream)
+  const partial = new WeakMap<Lane, string>()
+  function prefixed(chunk: string | Uint8Array, callback?: WriteCallback): boolean
+  function prefixed(chunk: string | Uint8Array, encoding?: BufferEncoding, callback?: WriteCallback): boolean
+  function prefixed(chunk: string | Uint8Array, encoding?: BufferEncoding | WriteCallback, callback?: WriteCallback): boolean {
+    if (typeof encoding === "function") {
+      callback = encoding
+      encoding = undefined
+    }
+    const lane = lanes.getStore()
+    if (!lane) return write(chunk, encoding, callback)
+    const text = typeof chunk === "string" ? chunk : Buffer.from(chunk).toString()
+    const lines = ((partial.get(lane) ?? "") + text).split("\n")
+    partial.set(lane, lines.pop()!)
+    if (lines.length === 0) {
+      if (callback) process.nextTick(callback)
+      return true
+    }
+    return write(lines.map((line) => `[${lane.label}] ${line}\n`).join(""), callback)
+  }
+  stream.write = prefixed
+  flushers.push((lane) => {
+    const rest = partial.get(lane)
+    partial.delete(lane)
+    if (rest) write(`[${lane.label}] ${rest}\n`)
+  })
+}
+
+/**
+ * Run `worker` over `items`, at most `concurrency` at a time, taking items in
+ * order. No new item starts once `stop()` is true; items already running
+ * finish. Rejects with the first worker error once all workers have stopped.
+ */
+export async function runPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  stop: () => boolean,
+): Promise<void> {
+  let next = 0
+  const drain = async () => {
+    while (next < items.length && !stop()) {
+      const index = next++
+      await worker(items[index], index)
+    }
+  }
+  const results = await Promise.allSettled(Array.from({ length: Math.min(concurrency, items.length) }, drain))
+  const failed = results.find((r): r is PromiseRejectedResult => r.status === "rejected")
+  if (failed) throw failed.reason
+}
@@ -0,0 +1,45 @@
+/**
+ * Step × version matrix runs.
+ *
+ * --steps 3,7,12-15 --versions 1,2,3 runs every (step, version) pair once,
+ * each in a fresh browser context opened straight on the step, so one
+ * challenge type can be checked across versions after a prompt change
+ * without solving the steps before it. Each pair walks the ladder like a
+ * bench run; this module lays the results out as one grid.
+ */
+import type { BenchSample } from "./bench"
+
+export interface MatrixCell {
+  step: number
+  version: string
+  sample: BenchSample
+}
+
+const sec = (ms: number) => (ms / 1000).toFixed(1)
+
+/** Steps down, versions across; a cell shows ✓/✗ and the pair's total time. Pairs not run show "—". */
+export function formatMatrixTable(steps: number[], versions: string[], cells: MatrixCell[]): string[] {
+  const byPair = new Map(cells.map((c) => [`${c.step}@${c.version}`, c.sample]))
+  const solvedOf = (samples: BenchSample[]) => `${samples.filter((s) => s.success).length}/${samples.length}`
+
+  const header = ["step", ...versions.map((v) => `v${v}`), "ok"]
+  const rows = steps.map((step) => {
+    const samples = versions.map((v) => byPair.get(`${step}@${v}`))
+    return [
+      String(step),
+      ...samples.map((s) => (s ? `${s.success ? "✓" : "✗"} ${sec(s.totalMs)}s` : "—")),
+      solvedOf(samples.filter((s): s is BenchSample => !!s)),
+    ]
+  })
+  const totals = [
+    "all",
+    ...versions.map((v) => solvedOf(cells.filter((c) => c.version === v).map((c) => c.sample))),
+    solvedOf(cells.map((c) => c.sample)),
+  ]
+
+  const all = [...rows, totals]
+  const widths = header.map((h, i) => Math.max(h.length, ...all.map((r) => r[i].length)))
+  const line = (cells: string[]) =>
+    cells.map((c, i) => (i === 0 ? c.padStart(widths[i]) : c.padEnd(widths[i]))).join("  ").trimEnd()
+  return [line(header), widths.map((w) => "─".repeat(w)).join("  "), ...rows.map(line), line(totals)]
+}
@@ -0,0 +1,168 @@
+/**
+ * Retries for transient provider errors.
+ *
+ * Rate limits (429), overload (529), other 5xx responses, dropped
+ * connections and failed OAuth refreshes used to end the attempt like a
+ * model failure — with a one-rung ladder, the step was skipped.
+ * classifyProviderError() tells them apart from errors a retry won't fix
+ * (bad requests, rejected credentials, max_tokens).
+ *
+ * withProviderRetry() wraps the adapter so a model call that fails before it
+ * has streamed any content is retried after a backoff with the same
+ * messages: chat() never sees the failure, the attempt keeps its place on the
+ * ladder and the page is left alone. A failure after content has streamed
+ * can't be taken back from chat(); it ends the attempt, and the orchestrator
+ * re-runs the same rung.
+ *
+ * The delay is exponential with jitter, or what the provider asked for in
+ * retry-after when the fetch wrappers saw one (see auth/retry-hints.ts).
+ */
+import type { AdapterYieldChunk, AnyTextAdapter } from "@tanstack/ai"
+import type { RetryHint } from "../auth/retry-hints"
+import { wrapChatStream } from "./wrap-adapter"
+
+export type ProviderErrorKind = "rate-limit" | "overloaded" | "server" | "network" | "oauth-refresh"
+
+export interface ProviderError {
+  message: string
+  /** Provider error code or HTTP status, as the adapter reported it */
+  code?: string | null
+}
+
+export interface ProviderRetryEvent {
+  kind: ProviderErrorKind
+  message: string
+  /** 1-based retry within the attempt */
+  retry: number
+  delayMs: number
+}
+
+const BACKOFF_BASE_MS = 1000
+const BACKOFF_MAX_MS = 30_000
+/** retry-after beyond this is cut short; the challenge timeout bounds the wait anyway */
+const RETRY_AFTER_MAX_MS = 120_000
+
+const NETWORK_ERROR =
+  /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EPIPE|EAI_AGAIN|UND_ERR_SOCKET|socket hang up|fetch failed|Connection error|network error|terminated/i
+
+function statusOf(error: ProviderError): number | null {
+  const fromCode = Number(error.code)
+  if (Number.isInteger(fromCode) && fromCode >= 100 && fromCode < 600) return fromCode
+  // SDK errors read "529 {"type":"error",...}"
+  const fromMessage = /^(\d{3})\b/.exec(error.message)
+  return fromMessage ? Number(fromMessage[1]) : null
+}
+
+/** The kind of transient failure, or null when retrying won't help */
+export function classifyProviderError(error: ProviderError, hint: RetryHint | null): ProviderErrorKind | null {
+  const refresh = /OAuth token refresh failed(?::\s*(\d{3}))?/i.exec(error.message)
+  if (hint?.oauthRefresh || refresh) {
+    const status = hint?.oauthRefresh ? hint.status : refresh?.[1] ? Number(refresh[1]) : null
+    // A refresh token the server rejected stays rejected
+    return status === null || status === 429 || status >= 500 ? "oauth-refresh" : null
+  }
+  const status = hint?.status ?? statusOf(error)
+  if (status === 429 || /rate[_ ]?limit/i.test(error.message)) return "rate-limit"
+  if (status === 529 || /overloaded/i.test(error.message)) return "overloaded"
+  if (status !== null && status >= 500 && status < 600) return "server"
+  if (status !== null && status >= 400) return null
+  if (NETWORK_ERROR.test(error.message) || (error.code && NETWORK_ERROR.test(error.code))) return "network"
+  return null
+}
+
+/** Delay before retry `n` (0-based): the provider's retry-after, or exponential backoff with jitter */
+export function retryDelay(n: number, hint: RetryHint | null): number {
+  if (hint?.retryAfterMs != null) return Math.min(hint.retryAfterMs, RETRY_AFTER_MAX_MS) + Math.random() * 250
+  const cap = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** n)
+  return cap / 2 + Math.random() * (cap / 2)
+}
+
+/** Wait `ms`; false if `signal` fired first */
+export function backoff(ms: number, signal: AbortSignal | undefined): Promise<boolean> {
+  if (signal?.aborted) return Promise.resolve(false)
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      resolve(false)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve(true)
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+export interface ProviderRetryOptions {
+  /** Retries per attempt, over all of its model calls */
+  maxRetries: number
+  /** Latest hint from the fetch wrappers */
+  hint: () => RetryHint | null
+  onRetry: (event: ProviderRetryEvent) => void
+}
+
+/**
+ * Retry model calls that fail before streaming content. Wrap it around the
+ * stall watchdog (so backoff waits aren't taken for stalls) and inside the
+ * recorder (so recordings only hold the calls chat() saw).
+ */
+export function withProviderRetry<T extends AnyTextAdapter>(adapter: T, opts: ProviderRetryOptions): T {
+  let retries = 0
+  return wrapChatStream(adapter, async function* (options) {
+    const signal = options.request?.signal ?? undefined
+    for (;;) {
+      // RUN_STARTED is held back until the call streams something else, so a failed call can be retried unseen
+      const held: AdapterYieldChunk[] = []
+      let streaming = false
+      let failedChunk: AdapterYieldChunk | null = null
+      let thrown: unknown = null
+      try {
+        for await (const chunk of adapter.chatStream(options)) {
+          if (streaming) {
+            yield chunk
+          } else if (chunk?.type === "RUN_STARTED") {
+            held.push(chunk)
+          } else if (chunk?.type === "RUN_ERROR" && retries < opts.maxRetries) {
+            failedChunk = chunk
+            break
+          } else {
+            streaming = true
+            yield* held
+            yield chunk
+          }
+        }
+      } catch (err) {
+        if (streaming || retries >= opts.maxRetries) throw err
+        thrown = err
+      }
+      if (!failedChunk && !thrown) {
+        // A call that streamed nothing but RUN_STARTED still hands it over
+        if (!streaming) yield* held
+        return
+      }
+
+      const failure: ProviderError = failedChunk
+        ? {
+            message: failedChunk.error?.message ?? failedChunk.message ?? String(failedChunk.error ?? ""),
+            code: failedChunk.code ?? failedChunk.error?.code ?? null,
+          }
+        : {
+            message: (thrown as Partial<ProviderError> | null)?.message ?? String(thrown),
+            code: (thrown as Partial<ProviderError> | null)?.code ?? null,
+          }
+      const hint = opts.hint()
+      const kind = signal?.aborted ? null : classifyProviderError(failure, hint)
+      if (!kind) {
+        // Not ours to retry: chat() gets the failure as the adapter reported it
+        if (!failedChunk) throw thrown
+        yield* held
+        yield failedChunk
+        return
+      }
+      const delayMs = retryDelay(retries, hint)
+      retries++
+      opts.onRetry({ kind, message: failure.message, retry: retries, delayMs })
+      if (!(await backoff(delayMs, signal))) return
+    }
+  })
+}
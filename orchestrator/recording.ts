@@ -0,0 +1,328 @@
+/**
+ * Record/replay of model streams for offline orchestrator runs.
+ *
+ * --record <dir> saves, per challenge attempt:
+ *   - the raw adapter chunks of every model iteration (what the provider sent)
+ *   - every tool call's input and output (the structured ToolResult, before
+ *     the dispatch layer formats it for the model)
+ *   - every chunk chat() yielded to the orchestrator
+ *
+ * --replay <dir> swaps the provider adapter for a fake one that yields the
+ * recorded adapter chunks, and swaps tool handlers for stubs that return the
+ * recorded outputs. chat() itself still runs, so the chunks main() sees are
+ * produced by the installed TanStack AI version — a replay doubles as a
+ * regression test for the orchestrator's chunk handling. No API keys, network
+ * or browser are needed.
+ *
+ * Layout:
+ *   <dir>/manifest.json      run args + ladder (replay reuses them)
+ *   <dir>/attempt-001.json   one file per chat() call, in run order
+ *
+ * Fast-path attempts (see ./fast-path) are recorded the same way with
+ * `fastPath: true` and no model iterations; replay runs the fast path only
+ * where the recording has one.
+ *
+ * Regressions the orchestrator detects itself (not through a tool result) and
+ * whether it recovered from them are annotated on the attempt, so a replay
+ * takes the same branch. So are provider stalls (see ./stall-watchdog): a
+ * stall that ended the attempt is thrown again at the end of the recorded
+ * iteration it happened in. Model calls retried after a transient provider
+ * error (see ./provider-retry) never reach the recording; only their count
+ * is annotated, for the report.
+ */
+import { readFileSync, readdirSync, mkdirSync, writeFileSync } from "node:fs"
+import path from "node:path"
+import type { AdapterYieldChunk, AnyTextAdapter } from "@tanstack/ai"
+import type { ChallengeClassification } from "./classifier"
+import type { ModelRung } from "./ladder"
+import type { ProviderErrorKind } from "./provider-retry"
+import { StreamStallError, type StallEvent } from "./stall-watchdog"
+import { wrapChatStream } from "./wrap-adapter"
+import type { ToolCallContext } from "../tools/cancel"
+import { fail, type ExecutableTool } from "../tools/types"
+
+// v2: tool outputs are ToolResult objects instead of JSON strings
+const RECORDING_VERSION = 2
+
+export interface RecordingManifest<TArgs = unknown> {
+  version: number
+  createdAt: string
+  args: TArgs
+  ladder: ModelRung[]
+}
+
+export interface RecordedToolCall {
+  name: string
+  input: unknown
+  output?: unknown
+  error?: string
+  /** ms since attempt start */
+  startedAt: number
+  durationMs: number
+}
+
+export interface RecordedAttempt {
+  version: number
+  step: number
+  attempt: number
+  rung: ModelRung
+  instruction: string
+  /** The orchestrator's fast path (tool calls only, no model) */
+  fastPath?: boolean
+  /** Challenge type the prompt and tools were picked for (replay reuses it) */
+  challenge?: ChallengeClassification | null
+  /** Earlier-step URL the orchestrator saw the page go to mid-attempt */
+  regressedTo?: string
+  /** Whether the orchestrator got the page back to the step after a regression */
+  recovered?: boolean
+  /** Model calls that stalled, reissued or not */
+  stalls?: StallEvent[]
+  /** Model calls retried after a transient provider error */
+  providerRetries?: number
+  /** Transient provider error the attempt ended on (the orchestrator re-runs the rung) */
+  transientError?: ProviderErrorKind
+  /** Adapter chunks, one array per model iteration */
+  iterations: AdapterYieldChunk[][]
+  tools: RecordedToolCall[]
+  /** Chunks yielded by chat(), with ms since attempt start */
+  chatChunks: Array<{ t: number; chunk: unknown }>
+}
+
+// ---- Recording ----
+
+export interface AttemptRecorder {
+  wrapAdapter<T extends AnyTextAdapter>(adapter: T): T
+  wrapTools<T extends ExecutableTool>(tools: T[]): T[]
+  recordChunk(chunk: unknown): void
+  /** Orchestrator-side events of the attempt that replay needs to reproduce */
+  annotate(fields: Pick<RecordedAttempt, "regressedTo" | "recovered" | "stalls" | "providerRetries" | "transientError">): void
+  /** Write the attempt; saving it again overwrites the same file */
+  save(): void
+}
+
+export interface RunRecorder {
+  dir: string
+  beginAttempt(meta: {
+    step: number
+    attempt: number
+    rung: ModelRung
+    instruction: string
+    fastPath?: boolean
+    challenge?: ChallengeClassification | null
+  }): AttemptRecorder
+  /**
+   * A recorder whose attempts are held until commit(), then numbered after
+   * everything begun before. Steps running side by side (--concurrency)
+   * commit in step order, so their recording replays one step after another.
+   */
+  defer(): RunRecorder & { commit(): void }
+}
+
+export function createRecorder<TArgs>(dir: string, args: TArgs, ladder: ModelRung[]): RunRecorder {
+  mkdirSync(dir, { recursive: true })
+  const manifest: RecordingManifest<TArgs> = {
+    version: RECORDING_VERSION,
+    createdAt: new Date().toISOString(),
+    args,
+    ladder,
+  }
+  writeFileSync(path.join(dir, "manifest.json"), JSON.stringify(manifest, null, 2))
+
+  let attemptSeq = 0
+  return recorderFor(dir, () => {
+    const file = path.join(dir, `attempt-${String(++attemptSeq).padStart(3, "0")}.json`)
+    return (record) => writeFileSync(file, JSON.stringify(record, null, 2))
+  })
+}
+
+/** Where an attempt's saves go: its file, or its place among the held attempts */
+type AttemptSlot = (record: RecordedAttempt) => void
+
+/** `reserve` hands each attempt its slot once, when the attempt begins */
+function recorderFor(dir: string, reserve: () => AttemptSlot): RunRecorder {
+  return {
+    dir,
+    defer() {
+      const held: Array<{ record: RecordedAttempt | null }> = []
+      return {
+        ...recorderFor(dir, () => {
+          const entry: { record: RecordedAttempt | null } = { record: null }
+          held.push(entry)
+          return (record) => {
+            entry.record = record
+          }
+        }),
+        commit() {
+          // Numbered now, so held attempts slot in where they're committed; never-saved ones are dropped
+          for (const { record } of held.splice(0)) if (record) reserve()(record)
+        },
+      }
+    },
+    beginAttempt(meta) {
+      const start = Date.now()
+      const write = reserve()
+      const record: RecordedAttempt = {
+        version: RECORDING_VERSION,
+        ...meta,
+        iterations: [],
+        tools: [],
+        chatChunks: [],
+      }
+
+      return {
+        wrapAdapter(adapter) {
+          return wrapChatStream(adapter, async function* (options) {
+            const chunks: AdapterYieldChunk[] = []
+            record.iterations.push(chunks)
+            for await (const chunk of adapter.chatStream(options)) {
+              chunks.push(chunk)
+              yield chunk
+            }
+          })
+        },
+
+        wrapTools(tools) {
+          return tools.map((tool) => {
+            if (!tool.execute) return tool
+            const execute = tool.execute
+            return {
+              ...tool,
+              execute: async (input: unknown, context?: ToolCallContext) => {
+                const startedAt = Date.now() - start
+                const entry: RecordedToolCall = { name: tool.name, input, startedAt, durationMs: 0 }
+                record.tools.push(entry)
+                try {
+                  entry.output = await execute(input, context)
+                  return entry.output
+                } catch (e: any) {
+                  entry.error = e?.message || String(e)
+                  throw e
+                } finally {
+                  entry.durationMs = Date.now() - start - startedAt
+                }
+              },
+            }
+          })
+        },
+
+        recordChunk(chunk) {
+          record.chatChunks.push({ t: Date.now() - start, chunk })
+        },
+
+        annotate(fields) {
+          Object.assign(record, fields)
+        },
+
+        save() {
+          write(record)
+        },
+      }
+    },
+  }
+}
+
+// ---- Replay ----
+
+export interface ReplayAttempt {
+  record: RecordedAttempt
+  adapter: AnyTextAdapter
+  wrapTools<T extends ExecutableTool>(tools: T[]): T[]
+}
+
+export interface RunReplay<TArgs = unknown> {
+  dir: string
+  manifest: RecordingManifest<TArgs>
+  remaining(): number
+  /** The next recorded attempt, without consuming it */
+  peek(): RecordedAttempt | null
+  /** Whether the next recorded attempt is a fast-path one */
+  nextIsFastPath(): boolean
+  nextAttempt(step: number, attempt: number): ReplayAttempt
+}
+
+function createReplayAdapter(record: RecordedAttempt): AnyTextAdapter {
+  let iteration = 0
+  const adapter = {
+    kind: "text" as const,
+    name: "replay",
+    model: record.rung.modelID,
+    // Type-only, like on TanStack's own adapters
+    "~types": {} as AnyTextAdapter["~types"],
+    async *chatStream() {
+      const chunks = record.iterations[iteration++]
+      if (!chunks) {
+        throw new Error(`Replay: no recorded model iteration #${iteration} for step ${record.step}`)
+      }
+      yield* chunks
+      const stall = record.stalls?.find((s) => s.iteration === iteration && !s.retried)
+      if (stall) throw new StreamStallError(`Replay: model call #${iteration} stalled after ${stall.chunks} chunk(s)`)
+    },
+    async structuredOutput(): Promise<never> {
+      throw new Error("Replay adapter does not support structured output")
+    },
+  }
+  return adapter
+}
+
+export function loadReplay<TArgs>(dir: string): RunReplay<TArgs> {
+  let manifest: RecordingManifest<TArgs>
+  try {
+    manifest = JSON.parse(readFileSync(path.join(dir, "manifest.json"), "utf8"))
+  } catch (e: any) {
+    throw new Error(`Could not read replay manifest in ${dir}: ${e.message}`)
+  }
+  if (manifest.version !== RECORDING_VERSION) {
+    throw new Error(`Replay ${dir} has version ${manifest.version}, expected ${RECORDING_VERSION}`)
+  }
+
+  const files = readdirSync(dir)
+    .filter((f) => /^attempt-\d+\.json$/.test(f))
+    .sort()
+  let cursor = 0
+  const readRecord = (file: string): RecordedAttempt => JSON.parse(readFileSync(path.join(dir, file), "utf8"))
+  const peek = () => (cursor < files.length ? readRecord(files[cursor]) : null)
+
+  return {
+    dir,
+    manifest,
+    remaining: () => files.length - cursor,
+    peek,
+    nextIsFastPath: () => peek()?.fastPath === true,
+    nextAttempt(step, attempt) {
+      const file = files[cursor++]
+      if (!file) throw new Error(`Replay ${dir} has no more recorded attempts`)
+      const record = readRecord(file)
+      if (record.step !== step || record.attempt !== attempt) {
+        console.warn(
+          `  Replay divergence: ${file} was recorded for step ${record.step} attempt ${record.attempt + 1}, ` +
+            `orchestrator is on step ${step} attempt ${attempt + 1}`,
+        )
+      }
+
+      // Outputs are handed back per tool name in call order
+      const queues = new Map<string, RecordedToolCall[]>()
+      for (const call of record.tools) {
+        if (!queues.has(call.name)) queues.set(call.name, [])
+        queues.get(call.name)!.push(call)
+      }
+
+      return {
+        record,
+        adapter: createReplayAdapter(record),
+        wrapTools(tools) {
+          return tools.map((tool) => ({
+            ...tool,
+            execute: async () => {
+              const call = queues.get(tool.name)?.shift()
+              if (!call) {
+                return fail(`replay: no recorded output for ${tool.name}`)
+              }
+              if (call.error !== undefined) throw new Error(call.error)
+              return call.output
+            },
+          }))
+        },
+      }
+    },
+  }
+}
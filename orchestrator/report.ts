@@ -0,0 +1,297 @@
+/**
+ * Machine-readable run report.
+ *
+ * --report <file.json> writes the whole run as JSON: per step, every attempt
+ * with its rung, tool calls (durations + brief summaries), thinking gaps,
+ * token usage, final URL and outcome.
+ * --junit <file.xml> writes the same run as JUnit XML (one testcase per step)
+ * so CI dashboards can chart solve rate and latency over time. Matrix runs
+ * (--steps with --versions) report each (step, version) pair as its own step,
+ * and bench and experiment runs each repeat (per variant) of a step.
+ */
+import { mkdirSync, writeFileSync } from "node:fs"
+import path from "node:path"
+import type { ChallengeType } from "./classifier"
+import { formatRung, type ModelRung } from "./ladder"
+import type { ProviderErrorKind } from "./provider-retry"
+
+const REPORT_VERSION = 1
+
+/**
+ * How an attempt ended:
+ *   solved     — enter_code advanced the page to a later step
+ *   completed  — the completion page was reached
+ *   escalated  — the model called escalate without submitting
+ *   regressed  — the page went back to an earlier step (decoy click); see `recovered`
+ *   failed     — the page did not advance
+ *   error      — chat() or a tool threw
+ *   over-budget — --max-cost or --max-tokens-per-step stopped the attempt
+ *   interrupted — SIGINT/SIGTERM stopped the run mid-attempt
+ *   stalled    — the provider stream hung and couldn't be reissued in place; the
+ *                attempt is re-run on the same rung, so this is not a solve failure
+ */
+export type AttemptOutcome =
+  | "solved"
+  | "completed"
+  | "escalated"
+  | "regressed"
+  | "failed"
+  | "error"
+  | "over-budget"
+  | "interrupted"
+  | "stalled"
+
+export interface ReportToolCall {
+  name: string
+  durationMs: number
+  success: boolean
+  summary: string
+}
+
+export interface ReportThinkingGap {
+  afterTool: string | null
+  durationMs: number
+}
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+export interface AttemptReport {
+  step: number
+  /** 0-based index into the ladder; -1 for the orchestrator's fast path */
+  attempt: number
+  rung: ModelRung
+  /** Experiment variant name (absent for normal runs) */
+  variant?: string
+  /** Challenge version of a matrix run's pair (absent otherwise) */
+  version?: string
+  /** Bench and experiment runs: which repeat of the step the attempt belongs to */
+  run?: number
+  /** Challenge type the attempt's prompt and tools were picked for (absent if the page wasn't classified) */
+  challenge?: { type: ChallengeType; confidence: number }
+  startedAt: string
+  durationMs: number
+  toolCalls: number
+  toolTimeMs: number
+  thinkingMs: number
+  tools: ReportToolCall[]
+  thinking: ReportThinkingGap[]
+  usage: TokenUsage
+  /** Estimated USD cost; null when the model has no price entry */
+  costUsd: number | null
+  finalUrl: string | null
+  outcome: AttemptOutcome
+  /** Why the tool-call policy stopped the attempt, if it did */
+  policyStop?: string
+  /** Regressed attempts: whether the orchestrator jumped the page back to the step */
+  recovered?: boolean
+  /** Model calls the stall watchdog aborted (reissued or not) */
+  stalls?: number
+  /** Model calls retried after a transient provider error */
+  providerRetries?: number
+  /** Errored attempts: the transient provider error the attempt ended on */
+  transientError?: ProviderErrorKind
+  error?: string
+}
+
+export interface StepReport {
+  step: number
+  /** Matrix runs: the pair's challenge version */
+  version?: string
+  /** Bench and experiment runs: the repeat (and variant) these attempts belong to */
+  run?: number
+  variant?: string
+  solved: boolean
+  /** "provider:model" of the rung that solved the step */
+  solvedBy: string | null
+  /** First classification made at the step */
+  challengeType: ChallengeType | null
+  durationMs: number
+  usage: TokenUsage
+  costUsd: number
+  attempts: AttemptReport[]
+}
+
+export interface RunReport {
+  version: number
+  startedAt: string
+  finishedAt: string
+  durationMs: number
+  challengeUrl: string
+  ladder: ModelRung[]
+  args: unknown
+  summary: {
+    stepsAttempted: number
+    stepsSolved: number
+    attempts: number
+    escalations: number
+    regressions: number
+    /** Provider stalls, counted apart from failed attempts */
+    stalls: number
+    completed: boolean
+    usage: TokenUsage
+    /** Sum of priced attempts */
+    costUsd: number
+  }
+  steps: StepReport[]
+}
+
+function sumUsage(items: Array<{ usage: TokenUsage }>): TokenUsage {
+  return items.reduce(
+    (acc, item) => ({
+      promptTokens: acc.promptTokens + item.usage.promptTokens,
+      completionTokens: acc.completionTokens + item.usage.completionTokens,
+    }),
+    { promptTokens: 0, completionTokens: 0 },
+  )
+}
+
+const sumCost = (attempts: AttemptReport[]) => attempts.reduce((s, a) => s + (a.costUsd ?? 0), 0)
+
+/**
+ * Whether a solved step moved up the ladder to get there: some attempt ran on
+ * a different rung than the failed ladder attempt before it. The fast path and
+ * re-runs of a stalled or errored rung aren't rung changes, and neither is a
+ * step routed straight to a higher rung.
+ */
+function escalated(step: StepReport): boolean {
+  if (!step.solved) return false
+  const ladder = step.attempts.filter((a) => a.attempt >= 0)
+  // Attempts end a step once one solves it, so any earlier attempt failed
+  return ladder.some((a, i) => i > 0 && a.attempt !== ladder[i - 1].attempt)
+}
+
+/**
+ * Group attempts by step (and version in matrix runs, repeat and variant in
+ * bench runs), keeping the order steps were first visited
+ */
+function toStepReports(all: AttemptReport[]): StepReport[] {
+  const byStep = new Map<string, AttemptReport[]>()
+  for (const attempt of all) {
+    const key = `${attempt.step}@${attempt.version ?? ""}#${attempt.run ?? ""}/${attempt.variant ?? ""}`
+    if (!byStep.has(key)) byStep.set(key, [])
+    byStep.get(key)!.push(attempt)
+  }
+
+  return [...byStep.values()].map((attempts) => {
+    const winner = attempts.find((a) => a.outcome === "solved" || a.outcome === "completed")
+    const { step, version, run, variant } = attempts[0]
+    return {
+      step,
+      ...(version !== undefined ? { version } : {}),
+      ...(run !== undefined ? { run } : {}),
+      ...(variant !== undefined ? { variant } : {}),
+      solved: !!winner,
+      solvedBy: winner ? formatRung(winner.rung) : null,
+      challengeType: attempts.find((a) => a.challenge)?.challenge?.type ?? null,
+      durationMs: attempts.reduce((s, a) => s + a.durationMs, 0),
+      usage: sumUsage(attempts),
+      costUsd: sumCost(attempts),
+      attempts,
+    }
+  })
+}
+
+/** Solved steps that moved up the ladder, counted as the report's summary counts them */
+export function countEscalations(attempts: AttemptReport[]): number {
+  return toStepReports(attempts).filter(escalated).length
+}
+
+export function buildRunReport(opts: {
+  startedAt: number
+  challengeUrl: string
+  ladder: ModelRung[]
+  args: unknown
+  attempts: AttemptReport[]
+}): RunReport {
+  const finishedAt = Date.now()
+  const steps = toStepReports(opts.attempts)
+
+  return {
+    version: REPORT_VERSION,
+    startedAt: new Date(opts.startedAt).toISOString(),
+    finishedAt: new Date(finishedAt).toISOString(),
+    durationMs: finishedAt - opts.startedAt,
+    challengeUrl: opts.challengeUrl,
+    ladder: opts.ladder,
+    args: opts.args,
+    summary: {
+      stepsAttempted: steps.length,
+      stepsSolved: steps.filter((s) => s.solved).length,
+      attempts: opts.attempts.length,
+      escalations: steps.filter(escalated).length,
+      regressions: opts.attempts.filter((a) => a.outcome === "regressed").length,
+      stalls: opts.attempts.reduce((s, a) => s + (a.stalls ?? 0), 0),
+      completed: opts.attempts.some((a) => a.outcome === "completed"),
+      usage: sumUsage(opts.attempts),
+      costUsd: sumCost(opts.attempts),
+    },
+    steps,
+  }
+}
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // XML 1.0 forbids most control characters, even escaped
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+}
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3)
+
+/** One <testcase> per step; attempts are listed in <system-out>. */
+export function toJUnitXml(report: RunReport): string {
+  const failures = report.steps.filter((s) => !s.solved).length
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="challenge-agent" tests="${report.steps.length}" failures="${failures}" time="${seconds(report.durationMs)}">`,
+    `  <testsuite name="${escapeXml(report.challengeUrl)}" tests="${report.steps.length}" failures="${failures}" ` +
+      `time="${seconds(report.durationMs)}" timestamp="${report.startedAt}">`,
+  ]
+
+  for (const step of report.steps) {
+    const name = [
+      `step ${step.step}`,
+      step.version !== undefined ? `version ${step.version}` : null,
+      step.variant !== undefined ? `variant ${step.variant}` : null,
+      step.run !== undefined ? `run ${step.run}` : null,
+    ]
+      .filter(Boolean)
+      .join(" ")
+    lines.push(`    <testcase classname="challenge" name="${escapeXml(name)}" time="${seconds(step.durationMs)}">`)
+    if (!step.solved) {
+      const last = step.attempts[step.attempts.length - 1]
+      const message = last?.error || `${last?.outcome ?? "failed"} after ${step.attempts.length} attempt(s)`
+      lines.push(`      <failure message="${escapeXml(message)}" type="${last?.outcome ?? "failed"}"/>`)
+    }
+    const out = step.attempts.map((a) => {
+      const tools = a.tools.map((t) => `${t.success ? "ok" : "err"} ${t.name} ${t.durationMs}ms → ${t.summary}`)
+      return [
+        `${a.attempt < 0 ? "fast path" : `attempt ${a.attempt + 1} ${formatRung(a.rung)}`}: ${a.outcome} in ${a.durationMs}ms ` +
+          `(tools ${a.toolCalls}, in:${a.usage.promptTokens} out:${a.usage.completionTokens})` +
+          (a.challenge ? ` [${a.challenge.type} ${a.challenge.confidence}]` : ""),
+        ...tools.map((t) => `  ${t}`),
+      ].join("\n")
+    })
+    lines.push(`      <system-out>${escapeXml(out.join("\n"))}</system-out>`)
+    lines.push(`    </testcase>`)
+  }
+
+  lines.push(`  </testsuite>`, `</testsuites>`, "")
+  return lines.join("\n")
+}
+
+function writeFile(file: string, contents: string): void {
+  mkdirSync(path.dirname(path.resolve(file)), { recursive: true })
+  writeFileSync(file, contents)
+}
+
+export function writeRunReport(report: RunReport, targets: { json?: string | null; junit?: string | null }): void {
+  if (targets.json) writeFile(targets.json, JSON.stringify(report, null, 2))
+  if (targets.junit) writeFile(targets.junit, toJUnitXml(report))
+}
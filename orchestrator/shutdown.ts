@@ -0,0 +1,61 @@
+/**
+ * Graceful shutdown on SIGINT/SIGTERM.
+ *
+ * The first signal fires `signal`: the running attempt aborts its chat()
+ * stream and tool calls, the loops stop before the next attempt, and main()
+ * writes the summary, reports and checkpoint for what finished and closes the
+ * browser, then exits with the signal's code (130/143). A second signal
+ * skips all that: `onForce` gets a few seconds to close the browser and the
+ * process exits.
+ */
+
+const EXIT_CODES: Record<string, number> = { SIGINT: 130, SIGTERM: 143 }
+
+const FORCE_EXIT_MS = 3000
+
+export interface Shutdown {
+  /** Fires on the first SIGINT/SIGTERM */
+  readonly signal: AbortSignal
+  /** The signal that stopped the run, once one has */
+  readonly requested: NodeJS.Signals | null
+  /** Process exit code for the signal received (0 while none has) */
+  readonly exitCode: number
+}
+
+export function installShutdownHandlers(opts: {
+  onRequest: (signal: NodeJS.Signals) => void
+  onForce: () => Promise<void>
+}): Shutdown {
+  const controller = new AbortController()
+  let requested: NodeJS.Signals | null = null
+
+  const handle = (signal: NodeJS.Signals) => {
+    if (requested) {
+      const code = EXIT_CODES[requested]
+      const timer = setTimeout(() => process.exit(code), FORCE_EXIT_MS)
+      void opts
+        .onForce()
+        .catch(() => {})
+        .finally(() => {
+          clearTimeout(timer)
+          process.exit(code)
+        })
+      return
+    }
+    requested = signal
+    opts.onRequest(signal)
+    controller.abort(new Error(`Interrupted by ${signal}`))
+  }
+  process.on("SIGINT", handle)
+  process.on("SIGTERM", handle)
+
+  return {
+    signal: controller.signal,
+    get requested() {
+      return requested
+    },
+    get exitCode() {
+      return requested ? EXIT_CODES[requested] : 0
+    },
+  }
+}
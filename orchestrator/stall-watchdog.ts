@@ -0,0 +1,115 @@
+/**
+ * Stall watchdog for provider streams.
+ *
+ * A hung provider connection sends nothing — no error, no chunks — and the
+ * attempt used to sit there until --timeout-seconds and count as a model
+ * failure. withStallWatchdog() wraps the adapter so every model call (one
+ * chatStream() per agent-loop iteration) must produce a chunk at least every
+ * `stallMs`:
+ *   - stalled before its first chunk: the call is aborted and reissued with
+ *     the same messages — chat() never saw it, so the conversation and the
+ *     page are exactly as they were
+ *   - stalled mid-stream: chat() has already taken the partial response in,
+ *     so the call can't be reissued in place; the watchdog aborts it and
+ *     throws StreamStallError, and the orchestrator re-runs the attempt on the
+ *     same rung and page without counting it as a failure
+ * Reissues are capped at `maxRetries` per attempt; a stall past the cap
+ * throws as well.
+ *
+ * Wrap the provider adapter inside the recorder so recordings only hold the
+ * chunks chat() saw. Replays don't stall; recorded stalls that ended the
+ * attempt are replayed from the recording (see ./recording).
+ */
+import type { AnyTextAdapter } from "@tanstack/ai"
+import { wrapChatStream } from "./wrap-adapter"
+
+export interface StallEvent {
+  /** 1-based model call within the attempt */
+  iteration: number
+  /** Chunks the call had sent before it stalled */
+  chunks: number
+  /** Whether the call was reissued (otherwise the attempt ended) */
+  retried: boolean
+}
+
+export class StreamStallError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "StreamStallError"
+  }
+}
+
+export interface StallWatchdogOptions {
+  stallMs: number
+  maxRetries: number
+  onStall: (event: StallEvent) => void
+}
+
+const STALLED = Symbol("stalled")
+
+/** iterator.next(), or STALLED if it takes longer than `ms` */
+async function nextWithin<T>(iterator: AsyncIterator<T>, ms: number): Promise<IteratorResult<T> | typeof STALLED> {
+  const next = iterator.next()
+  // A stalled next() may still reject once the call is aborted
+  next.catch(() => {})
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const stalled = new Promise<typeof STALLED>((resolve) => (timer = setTimeout(() => resolve(STALLED), ms)))
+  try {
+    return await Promise.race([next, stalled])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+export function withStallWatchdog<T extends AnyTextAdapter>(adapter: T, opts: StallWatchdogOptions): T {
+  let iteration = 0
+  let retries = 0
+  return wrapChatStream(adapter, async function* (options) {
+    const call = ++iteration
+    const parent = options.request?.signal ?? undefined
+    for (;;) {
+      // Each request gets its own signal, so a stalled one can be aborted on its own
+      const controller = new AbortController()
+      const onParentAbort = () => controller.abort(parent?.reason)
+      if (parent?.aborted) onParentAbort()
+      else parent?.addEventListener("abort", onParentAbort, { once: true })
+      const iterator = adapter
+        .chatStream({ ...options, request: { ...options.request, signal: controller.signal } })
+        [Symbol.asyncIterator]()
+      let chunks = 0
+      let finished = false
+      try {
+        for (;;) {
+          const next = await nextWithin(iterator, opts.stallMs)
+          if (next === STALLED) break
+          if (next.done) {
+            finished = true
+            return
+          }
+          chunks++
+          yield next.value
+        }
+      } finally {
+        parent?.removeEventListener("abort", onParentAbort)
+        if (!finished) {
+          controller.abort(new StreamStallError("stream stalled"))
+          void iterator.return?.()?.catch(() => {})
+        }
+      }
+      // The orchestrator ended the attempt while the provider was quiet; that's not a stall
+      if (parent?.aborted) return
+
+      const retried = chunks === 0 && retries < opts.maxRetries
+      opts.onStall({ iteration: call, chunks, retried })
+      if (!retried) {
+        const seconds = Math.round(opts.stallMs / 1000)
+        throw new StreamStallError(
+          chunks === 0
+            ? `model call #${call} sent nothing for ${seconds}s (${retries} reissue(s) already)`
+            : `model call #${call} stalled for ${seconds}s after ${chunks} chunk(s)`,
+        )
+      }
+      retries++
+    }
+  })
+}
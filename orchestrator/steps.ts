@@ -0,0 +1,56 @@
+/**
+ * Step selection helpers shared by the run modes.
+ */
+
+/** Parse "3,7,12-15" into a sorted, de-duplicated list of step numbers. */
+export function parseStepList(spec: string): number[] {
+  const steps = new Set<number>()
+  for (const part of spec.split(",").map((s) => s.trim()).filter(Boolean)) {
+    const range = part.match(/^(\d+)\s*-\s*(\d+)$/)
+    if (range) {
+      const from = parseInt(range[1], 10)
+      const to = parseInt(range[2], 10)
+      if (from < 1 || to < from) {
+        throw new Error(`Invalid step range "${part}" — expected e.g. 3-7`)
+      }
+      for (let s = from; s <= to; s++) steps.add(s)
+    } else if (/^\d+$/.test(part) && parseInt(part, 10) >= 1) {
+      steps.add(parseInt(part, 10))
+    } else {
+      throw new Error(`Invalid step "${part}" — expected a number or range like 3,7,12-15`)
+    }
+  }
+  if (steps.size === 0) {
+    throw new Error(`No steps in "${spec}"`)
+  }
+  return [...steps].sort((a, b) => a - b)
+}
+
+/** Direct URL for a step: <base>/stepN?version=V */
+export function stepUrl(baseUrl: string, step: number, version: string): string {
+  return `${baseUrl.replace(/\/$/, "")}/step${step}?version=${version}`
+}
+
+/** Parse "1,2,3" (or "1-3") into a de-duplicated list of challenge versions, in the order given. */
+export function parseVersionList(spec: string): string[] {
+  const versions = new Set<string>()
+  for (const part of spec.split(",").map((s) => s.trim()).filter(Boolean)) {
+    const range = part.match(/^(\d+)\s*-\s*(\d+)$/)
+    if (range) {
+      const from = parseInt(range[1], 10)
+      const to = parseInt(range[2], 10)
+      if (to < from) {
+        throw new Error(`Invalid version range "${part}" — expected e.g. 1-3`)
+      }
+      for (let v = from; v <= to; v++) versions.add(String(v))
+    } else if (/^[\w.-]+$/.test(part)) {
+      versions.add(part)
+    } else {
+      throw new Error(`Invalid version "${part}" — expected a list like 1,2,3`)
+    }
+  }
+  if (versions.size === 0) {
+    throw new Error(`No versions in "${spec}"`)
+  }
+  return [...versions]
+}
@@ -0,0 +1,273 @@
+/**
+ * Typed view of the chat() stream.
+ *
+ * TanStack AI yields AG-UI chunks, and a tool's result can arrive in more than
+ * one shape depending on the version: a TOOL_CALL_RESULT chunk, a
+ * TOOL_CALL_END carrying `result`, or a legacy `tool-result` chunk. Some
+ * versions send two of them for the same call. The normalizer turns each raw
+ * chunk into zero or more StreamEvents, with one "tool-finished" per tool
+ * call, so main() only handles each kind of event once.
+ *
+ * Chunks that are malformed, or whose type isn't known, become "unknown"
+ * events instead of being silently dropped.
+ */
+import { z } from "zod"
+import type { TokenUsage } from "./report"
+
+export interface TextDeltaEvent {
+  kind: "text"
+  delta: string
+}
+
+export interface ToolStartedEvent {
+  kind: "tool-started"
+  toolCallId: string
+  toolName: string
+}
+
+export interface ToolArgsDeltaEvent {
+  kind: "tool-args"
+  toolCallId: string
+  delta: string
+}
+
+export interface ToolFinishedEvent {
+  kind: "tool-finished"
+  toolCallId: string
+  toolName: string
+  /** Parsed arguments (from TOOL_CALL_END or the streamed deltas); {} if unparseable */
+  input: Record<string, unknown>
+  /** Tool output as the model saw it */
+  output: string
+  /** `output` parsed as a JSON object, or null for plain-text output */
+  result: Record<string, unknown> | null
+}
+
+export interface RunFinishedEvent {
+  kind: "run-finished"
+  runId: string
+  /** Null when the provider didn't report usage */
+  usage: TokenUsage | null
+}
+
+export interface RunErrorEvent {
+  kind: "run-error"
+  message: string
+  /** Provider error code or HTTP status, when the adapter reported one */
+  code: string | null
+}
+
+export interface UnknownChunkEvent {
+  kind: "unknown"
+  chunkType: string
+  reason: string
+}
+
+export type StreamEvent =
+  | TextDeltaEvent
+  | ToolStartedEvent
+  | ToolArgsDeltaEvent
+  | ToolFinishedEvent
+  | RunFinishedEvent
+  | RunErrorEvent
+  | UnknownChunkEvent
+
+/** Chunk types with nothing the orchestrator acts on */
+const IGNORED_TYPES = new Set([
+  "RUN_STARTED",
+  "TEXT_MESSAGE_START",
+  "TEXT_MESSAGE_END",
+  "STEP_STARTED",
+  "STEP_FINISHED",
+  "MESSAGES_SNAPSHOT",
+  "STATE_SNAPSHOT",
+  "STATE_DELTA",
+  "CUSTOM",
+  "RAW",
+  "thinking",
+])
+const IGNORED_PREFIXES = ["REASONING_", "THINKING_", "ACTIVITY_"]
+
+const textContentSchema = z.object({ delta: z.string().optional(), content: z.string().optional() })
+const toolStartSchema = z.object({
+  toolCallId: z.string().min(1),
+  toolCallName: z.string().optional(),
+  toolName: z.string().optional(),
+})
+const toolArgsSchema = z.object({ toolCallId: z.string().min(1), delta: z.string() })
+const toolEndSchema = z.object({
+  toolCallId: z.string().min(1),
+  toolName: z.string().optional(),
+  input: z.unknown().optional(),
+  result: z.unknown().optional(),
+})
+const toolResultSchema = z.object({ toolCallId: z.string().min(1), content: z.unknown() })
+const legacyToolResultSchema = z.object({
+  toolCallId: z.string().optional(),
+  name: z.string().optional(),
+  toolName: z.string().optional(),
+  output: z.unknown().optional(),
+  result: z.unknown().optional(),
+})
+// usage is TanStack's { promptTokens, completionTokens } or the AG-UI spec's per-model array
+const usageSchema = z.union([
+  z.object({ promptTokens: z.number(), completionTokens: z.number() }),
+  z.array(z.object({ inputTokens: z.number().optional(), outputTokens: z.number().optional() })),
+])
+const runFinishedSchema = z.object({ runId: z.string().optional(), usage: z.unknown().optional() })
+// Adapters send the code as a string or as a bare HTTP status
+const errorCodeSchema = z.union([z.string(), z.number()]).transform(String).optional()
+const runErrorSchema = z.object({
+  message: z.string().optional(),
+  code: errorCodeSchema,
+  error: z.union([z.string(), z.object({ message: z.string(), code: errorCodeSchema })]).optional(),
+})
+
+function toOutputString(value: unknown): string {
+  if (value === undefined || value === null) return ""
+  return typeof value === "string" ? value : JSON.stringify(value)
+}
+
+function parseObject(value: unknown): Record<string, unknown> | null {
+  if (value && typeof value === "object" && !Array.isArray(value)) return value as Record<string, unknown>
+  if (typeof value !== "string") return null
+  try {
+    const parsed = JSON.parse(value)
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+function toUsage(raw: unknown): TokenUsage | null {
+  const result = usageSchema.safeParse(raw)
+  if (!result.success) return null
+  const usage = result.data
+  if (!Array.isArray(usage)) return { promptTokens: usage.promptTokens, completionTokens: usage.completionTokens }
+  return usage.reduce(
+    (acc, u) => ({
+      promptTokens: acc.promptTokens + (u.inputTokens ?? 0),
+      completionTokens: acc.completionTokens + (u.outputTokens ?? 0),
+    }),
+    { promptTokens: 0, completionTokens: 0 },
+  )
+}
+
+export interface StreamNormalizer {
+  /** Events for one raw chunk, in order; [] for chunks with nothing to act on */
+  push(chunk: unknown): StreamEvent[]
+}
+
+/** One normalizer per chat() stream — it tracks tool calls across chunks. */
+export function createStreamNormalizer(): StreamNormalizer {
+  const names = new Map<string, string>()
+  const args = new Map<string, string>()
+  const inputs = new Map<string, unknown>()
+  const finished = new Set<string>()
+  // Run IDs + usage already counted (some versions repeat RUN_FINISHED)
+  const runsSeen = new Set<string>()
+
+  const unknown = (chunkType: string, reason: string): StreamEvent[] => [{ kind: "unknown", chunkType, reason }]
+
+  function invalid(chunkType: string, error: z.ZodError): StreamEvent[] {
+    const issue = error.issues[0]
+    const at = issue.path.length ? ` at ${issue.path.map(String).join(".")}` : ""
+    return unknown(chunkType, `malformed${at}: ${issue.message}`)
+  }
+
+  function finish(toolCallId: string, fallbackName: string | undefined, output: unknown): StreamEvent[] {
+    if (finished.has(toolCallId)) return []
+    finished.add(toolCallId)
+    const rawArgs = args.get(toolCallId)
+    const input = parseObject(inputs.get(toolCallId)) ?? parseObject(rawArgs ?? "") ?? {}
+    return [
+      {
+        kind: "tool-finished",
+        toolCallId,
+        toolName: names.get(toolCallId) ?? fallbackName ?? "?",
+        input,
+        output: toOutputString(output),
+        result: parseObject(output),
+      },
+    ]
+  }
+
+  return {
+    push(chunk) {
+      if (!chunk || typeof chunk !== "object") return unknown(typeof chunk, "not an object")
+      const type = (chunk as { type?: unknown }).type
+      if (typeof type !== "string") return unknown("?", "missing type")
+
+      switch (type) {
+        case "TEXT_MESSAGE_CONTENT": {
+          const result = textContentSchema.safeParse(chunk)
+          if (!result.success) return invalid(type, result.error)
+          const delta = result.data.delta ?? result.data.content ?? ""
+          return delta ? [{ kind: "text", delta }] : []
+        }
+        case "TOOL_CALL_START": {
+          const result = toolStartSchema.safeParse(chunk)
+          if (!result.success) return invalid(type, result.error)
+          const { toolCallId } = result.data
+          const toolName = result.data.toolCallName ?? result.data.toolName ?? "?"
+          names.set(toolCallId, toolName)
+          return [{ kind: "tool-started", toolCallId, toolName }]
+        }
+        case "TOOL_CALL_ARGS": {
+          const result = toolArgsSchema.safeParse(chunk)
+          if (!result.success) return invalid(type, result.error)
+          const { toolCallId, delta } = result.data
+          args.set(toolCallId, (args.get(toolCallId) ?? "") + delta)
+          return [{ kind: "tool-args", toolCallId, delta }]
+        }
+        case "TOOL_CALL_END": {
+          const result = toolEndSchema.safeParse(chunk)
+          if (!result.success) return invalid(type, result.error)
+          const { toolCallId, toolName, input } = result.data
+          if (input !== undefined) inputs.set(toolCallId, input)
+          if (toolName && !names.has(toolCallId)) names.set(toolCallId, toolName)
+          // Newer versions end the call here and send the output as TOOL_CALL_RESULT
+          return result.data.result === undefined ? [] : finish(toolCallId, toolName, result.data.result)
+        }
+        case "TOOL_CALL_RESULT": {
+          const result = toolResultSchema.safeParse(chunk)
+          if (!result.success) return invalid(type, result.error)
+          return finish(result.data.toolCallId, undefined, result.data.content)
+        }
+        case "tool-result": {
+          const result = legacyToolResultSchema.safeParse(chunk)
+          if (!result.success) return invalid(type, result.error)
+          const name = result.data.name ?? result.data.toolName
+          // Without an ID, pair it with the latest unfinished call of that tool
+          const toolCallId =
+            result.data.toolCallId ??
+            [...names].reverse().find(([id, n]) => !finished.has(id) && (!name || n === name))?.[0]
+          if (!toolCallId) return []
+          return finish(toolCallId, name, result.data.output ?? result.data.result)
+        }
+        case "RUN_FINISHED": {
+          const result = runFinishedSchema.safeParse(chunk)
+          if (!result.success) return invalid(type, result.error)
+          const runId = result.data.runId ?? "unknown"
+          const usage = toUsage(result.data.usage)
+          const key = `${runId}:${usage?.promptTokens ?? "?"}:${usage?.completionTokens ?? "?"}`
+          if (runsSeen.has(key)) return []
+          runsSeen.add(key)
+          return [{ kind: "run-finished", runId, usage }]
+        }
+        case "RUN_ERROR":
+        case "error": {
+          const result = runErrorSchema.safeParse(chunk)
+          if (!result.success) return invalid(type, result.error)
+          const { error, message, code } = result.data
+          const errorMessage = (typeof error === "string" ? error : error?.message) || message || "unknown error"
+          const errorCode = code ?? (typeof error === "string" ? undefined : error?.code)
+          return [{ kind: "run-error", message: errorMessage, code: errorCode ?? null }]
+        }
+        default:
+          if (IGNORED_TYPES.has(type) || IGNORED_PREFIXES.some((p) => type.startsWith(p))) return []
+          return unknown(type, "unrecognized chunk type")
+      }
+    },
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Orchestrator-side tool-call policy.
+ *
+ * The prompts ask for "at most 15/20 tool calls" and "never chain
+ * page_evaluate_js calls", but only maxIterations() bounds a model that
+ * ignores them. The policy sits in front of every tool call of an attempt:
+ *
+ *   - a call identical (after normalizing whitespace, JS comments and unset
+ *     flags) to the previous one more than `maxRepeats` times in a row, or a
+ *     tool past its `perTool` cap, is not run; the model gets an error with a
+ *     corrective hint instead
+ *   - past `maxToolCalls` calls, or `maxBlocked` blocked calls, the attempt is
+ *     stopped: the orchestrator either submits the best code candidate seen
+ *     so far itself ("force-submit") or ends the attempt as escalated
+ *     ("escalate")
+ *
+ * Thresholds default per prompt variant and can be set per ladder rung:
+ *   { "provider": "anthropic", "model": "claude-haiku-4-5",
+ *     "policy": { "maxToolCalls": 10, "perTool": { "page_evaluate_js": 2 }, "onStop": "escalate" } }
+ */
+import { z } from "zod"
+import type { ToolCallContext } from "../tools/cancel"
+import { fail, toolResultOf, type ExecutableTool, type ToolResult } from "../tools/types"
+import type { ModelRung, PromptVariant } from "./ladder"
+
+export const toolPolicySchema = z.object({
+  maxToolCalls: z.number().int().positive().optional(),
+  perTool: z.record(z.string(), z.number().int().positive()).optional(),
+  maxRepeats: z.number().int().nonnegative().optional(),
+  maxBlocked: z.number().int().nonnegative().optional(),
+  onStop: z.enum(["force-submit", "escalate"]).optional(),
+}).strict()
+
+/** Per-rung overrides, as written in the ladder config */
+export type ToolPolicyOverrides = z.infer<typeof toolPolicySchema>
+
+export interface ToolPolicyConfig {
+  /** Tool calls per attempt; the next one stops the attempt */
+  maxToolCalls: number
+  /** Calls per attempt for individual tools; further calls are blocked */
+  perTool: Record<string, number>
+  /** Identical consecutive repeats allowed before a repeat is blocked */
+  maxRepeats: number
+  /** Blocked calls tolerated; the next one stops the attempt */
+  maxBlocked: number
+  /** What a stopped attempt does */
+  onStop: "force-submit" | "escalate"
+}
+
+/** Defaults match the tool budgets the prompt variants state */
+export const DEFAULT_TOOL_POLICIES: Record<PromptVariant, ToolPolicyConfig> = {
+  haiku: { maxToolCalls: 15, perTool: { page_evaluate_js: 3 }, maxRepeats: 1, maxBlocked: 2, onStop: "force-submit" },
+  opus: { maxToolCalls: 20, perTool: { page_evaluate_js: 4 }, maxRepeats: 1, maxBlocked: 3, onStop: "force-submit" },
+}
+
+export function resolveToolPolicy(rung: ModelRung): ToolPolicyConfig {
+  const defaults = DEFAULT_TOOL_POLICIES[rung.prompt]
+  const overrides = rung.policy ?? {}
+  return { ...defaults, ...overrides, perTool: { ...defaults.perTool, ...overrides.perTool } }
+}
+
+export type PolicyDecision =
+  | { action: "allow" }
+  | { action: "block"; message: string; hint: string }
+  | { action: "stop"; reason: string }
+
+export interface ToolPolicy {
+  /** Decide on a call before it runs; every call counts, blocked ones included */
+  check(name: string, input: unknown): PolicyDecision
+  readonly blocked: number
+  /** Why the attempt was stopped, once it has been */
+  readonly stopReason: string | null
+}
+
+/** Tools the policy never blocks — the model asking to escalate ends the attempt anyway */
+const EXEMPT_TOOLS = new Set(["escalate"])
+
+/** Same-call key: whitespace, JS comments and unset/false fields don't make a call different */
+export function callSignature(name: string, input: unknown): string {
+  const normalize = (value: unknown, key?: string): unknown => {
+    if (typeof value === "string") {
+      if (key === "code" && name === "page_evaluate_js") {
+        return value.replace(/\/\*[\s\S]*?\*\//g, "").replace(/\/\/[^\n]*/g, "").replace(/\s+/g, "")
+      }
+      return value.replace(/\s+/g, " ").trim()
+    }
+    if (Array.isArray(value)) return value.map((v) => normalize(v))
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value)
+          .filter(([, v]) => v !== undefined && v !== null && v !== false)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([k, v]) => [k, normalize(v, k)]),
+      )
+    }
+    return value
+  }
+  return `${name}:${JSON.stringify(normalize(input ?? {}))}`
+}
+
+const SUBMIT_HINT = "submit your best candidate with enter_code"
+
+function repeatHint(name: string, input: unknown): string {
+  if (name === "scan_page_for_code") {
+    return `The page hasn't changed. Interact with it first (page_multi_action / page_evaluate_js) or ${SUBMIT_HINT}.`
+  }
+  if (name === "enter_code") return "That code was already rejected. Find a different code before submitting again."
+  return `Repeating it will not change the result. Try a different approach or ${SUBMIT_HINT}.`
+}
+
+export function createToolPolicy(config: ToolPolicyConfig): ToolPolicy {
+  const counts = new Map<string, number>()
+  let total = 0
+  let blocked = 0
+  let lastSignature: string | null = null
+  let repeats = 0
+  let stopReason: string | null = null
+
+  const stop = (reason: string): PolicyDecision => {
+    stopReason ??= reason
+    return { action: "stop", reason: stopReason }
+  }
+
+  return {
+    get blocked() {
+      return blocked
+    },
+    get stopReason() {
+      return stopReason
+    },
+    check(name, input) {
+      if (stopReason) return { action: "stop", reason: stopReason }
+      total++
+      const count = (counts.get(name) ?? 0) + 1
+      counts.set(name, count)
+      const signature = callSignature(name, input)
+      repeats = signature === lastSignature ? repeats + 1 : 0
+      lastSignature = signature
+
+      if (EXEMPT_TOOLS.has(name)) return { action: "allow" }
+      if (total > config.maxToolCalls) return stop(`tool call limit reached (${config.maxToolCalls} per attempt)`)
+
+      let decision: PolicyDecision = { action: "allow" }
+      const cap = config.perTool[name]
+      if (repeats > config.maxRepeats) {
+        decision = {
+          action: "block",
+          message: `Blocked by the orchestrator: this ${name} call is identical to the previous one`,
+          hint: repeatHint(name, input),
+        }
+      } else if (cap !== undefined && count > cap) {
+        decision = {
+          action: "block",
+          message: `Blocked by the orchestrator: ${name} limit reached (${cap} per attempt)`,
+          hint: `Use scan_page_for_code (noAuto=true) to read the page, or ${SUBMIT_HINT}.`,
+        }
+      }
+      if (decision.action === "block" && ++blocked > config.maxBlocked) {
+        return stop(`${blocked} tool calls blocked (limit ${config.maxBlocked}) — the model is looping`)
+      }
+      return decision
+    },
+  }
+}
+
+/**
+ * Put the policy in front of each tool. Wrap after recording/replay (blocked
+ * calls never run, so they aren't recorded) and before the dispatch layer
+ * (which formats the ToolResult returned for a blocked call).
+ */
+export function withToolPolicy<T extends ExecutableTool>(
+  tools: T[],
+  policy: ToolPolicy,
+  onStop: (reason: string) => void,
+): T[] {
+  return tools.map((tool) => {
+    if (!tool.execute) return tool
+    const execute = tool.execute
+    return {
+      ...tool,
+      execute: async (args: unknown, context?: ToolCallContext): Promise<ToolResult<unknown>> => {
+        const decision = policy.check(tool.name, args)
+        if (decision.action === "block") return fail(decision.message, undefined, decision.hint)
+        if (decision.action === "stop") {
+          onStop(decision.reason)
+          return fail(`Stopped by the orchestrator: ${decision.reason}. Do not call any more tools.`)
+        }
+        return toolResultOf(execute(args, context))
+      },
+    }
+  })
+}
@@ -0,0 +1,121 @@
+/**
+ * Per-tool timeouts and in-flight tool tracking.
+ *
+ * chat()'s abort signal only stops the model stream; a page.evaluate, an
+ * autoSolve wait or a long drag_and_drop would keep running into the next
+ * challenge. withToolTimeouts() gives every call its own abort signal — fired
+ * by the attempt's signal or by the tool's timeout, whichever comes first —
+ * and passes it to the tool in its execute() context (see tools/cancel.ts).
+ * A call that times out returns an error result right away; the work it
+ * started is tracked so the orchestrator can wait for it to settle before
+ * the next challenge starts.
+ *
+ * Timeouts are in seconds and can be set per tool in the config file (or its
+ * profile, see ./config):
+ *   { "toolTimeouts": { "page_evaluate_js": 15, "default": 30 } }
+ */
+import { z } from "zod"
+import type { ToolCallContext } from "../tools/cancel"
+import { fail, toolResultOf, type ExecutableTool, type ToolResult } from "../tools/types"
+
+export type ToolTimeouts = Record<string, number> & { default: number }
+
+/** Seconds; "default" covers tools without an entry */
+export const DEFAULT_TOOL_TIMEOUTS: ToolTimeouts = {
+  default: 30,
+  // Navigation (15s) plus autoSolve waits of up to 30s
+  scan_page_for_code: 60,
+  enter_code: 20,
+  page_evaluate_js: 20,
+  page_multi_action: 45,
+  drag_and_drop: 45,
+}
+
+/** The config file's "toolTimeouts" section, merged over the defaults */
+export const toolTimeoutsSchema = z.record(z.string(), z.number().positive())
+
+/** Tool work started by wrapped calls that hasn't finished yet */
+export interface ToolWork {
+  readonly pending: number
+  track(work: Promise<unknown>): void
+  /** Wait up to `ms` for all tracked work; true if everything settled */
+  settle(ms: number): Promise<boolean>
+}
+
+export function createToolWork(): ToolWork {
+  const inFlight = new Set<Promise<unknown>>()
+  return {
+    get pending() {
+      return inFlight.size
+    },
+    track(work) {
+      const settled = work.then(
+        () => {},
+        () => {},
+      )
+      inFlight.add(settled)
+      void settled.then(() => inFlight.delete(settled))
+    },
+    async settle(ms) {
+      if (inFlight.size === 0) return true
+      let timer: ReturnType<typeof setTimeout> | undefined
+      const timedOut = new Promise<false>((resolve) => (timer = setTimeout(() => resolve(false), ms)))
+      const done = Promise.all([...inFlight]).then(() => true as const)
+      try {
+        return await Promise.race([done, timedOut])
+      } finally {
+        clearTimeout(timer)
+      }
+    },
+  }
+}
+
+class ToolTimeoutError extends Error {}
+
+/**
+ * Give each call a timeout and an abort signal in its context. Wrap the tools
+ * themselves, inside recording/replay, so a timed-out call is recorded as
+ * the error result the model saw and replays start no timers.
+ */
+export function withToolTimeouts<T extends ExecutableTool>(tools: T[], timeouts: ToolTimeouts, work: ToolWork): T[] {
+  return tools.map((tool) => {
+    if (!tool.execute) return tool
+    const execute = tool.execute
+    const seconds = timeouts[tool.name] ?? timeouts.default
+    return {
+      ...tool,
+      execute: async (args: unknown, context?: ToolCallContext): Promise<ToolResult<unknown>> => {
+        const controller = new AbortController()
+        const parent = context?.abortSignal
+        const onParentAbort = () => controller.abort(parent?.reason)
+        if (parent?.aborted) onParentAbort()
+        else parent?.addEventListener("abort", onParentAbort, { once: true })
+        const timer = setTimeout(
+          () => controller.abort(new ToolTimeoutError(`${tool.name} timed out after ${seconds}s`)),
+          seconds * 1000,
+        )
+
+        const run = Promise.resolve().then(() => toolResultOf(execute(args, { ...context, abortSignal: controller.signal })))
+        work.track(run)
+        const aborted = new Promise<ToolResult<unknown>>((resolve) => {
+          const onAbort = () => {
+            const reason = controller.signal.reason
+            resolve(
+              reason instanceof ToolTimeoutError
+                ? fail(reason.message, undefined, "The page may still be busy. Try a lighter approach, or submit your best candidate.")
+                : fail("Cancelled: the attempt ended"),
+            )
+          }
+          if (controller.signal.aborted) onAbort()
+          else controller.signal.addEventListener("abort", onAbort, { once: true })
+        })
+        try {
+          return await Promise.race([run, aborted])
+        } finally {
+          clearTimeout(timer)
+          parent?.removeEventListener("abort", onParentAbort)
+        }
+      },
+    }
+  })
+}
@@ -0,0 +1,18 @@
+/**
+ * Adapter wrappers.
+ *
+ * The stall watchdog, provider retries and the recorder each sit between
+ * chat() and the adapter by replacing its chatStream(). wrapChatStream()
+ * builds such a wrapper as a prototype-chain copy of the adapter, so the
+ * adapter's own methods and fields are kept and only chatStream is swapped.
+ */
+import type { AdapterYieldChunk, AnyTextAdapter } from "@tanstack/ai"
+
+/** The options chat() passes to an adapter's chatStream() */
+export type ChatStreamOptions = Parameters<AnyTextAdapter["chatStream"]>[0]
+
+export function wrapChatStream<T extends AnyTextAdapter>(adapter: T, chatStream: (options: ChatStreamOptions) => AsyncIterable<AdapterYieldChunk>): T {
+  const wrapped = Object.create(adapter)
+  wrapped.chatStream = chatStream
+  return wrapped
+}
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { aggregateBench, distribution, formatBenchTable, percentile, type BenchSample } from "../orchestrator/bench"
+
+function sample(step: number, run: number, success: boolean, totalMs: number, toolCalls = 4): BenchSample {
+  const solvedBy = success ? "anthropic:claude-haiku-4-5" : null
+  return { step, run, success, solvedBy, attempts: 1, totalMs, toolMs: totalMs / 2, thinkingMs: totalMs / 4, toolCalls }
+}
+
+describe("percentile", () => {
+  it("uses the nearest rank", () => {
+    const values = [50, 10, 40, 20, 30]
+    assert.equal(percentile(values, 50), 30)
+    assert.equal(percentile(values, 90), 50)
+    assert.equal(percentile(values, 0), 10)
+    assert.equal(percentile(values, 100), 50)
+  })
+
+  it("is 0 for no values", () => {
+    assert.equal(percentile([], 50), 0)
+    assert.deepEqual(distribution([]), { p50: 0, p90: 0, max: 0, mean: 0 })
+  })
+})
+
+describe("aggregateBench", () => {
+  it("groups runs by step, in step order", () => {
+    const stats = aggregateBench([
+      sample(7, 1, true, 4000),
+      sample(3, 1, true, 1000),
+      sample(3, 2, false, 9000),
+      sample(3, 3, true, 2000, 6),
+    ])
+    assert.deepEqual(stats.map((s) => [s.step, s.runs, s.successes]), [[3, 3, 2], [7, 1, 1]])
+    assert.equal(stats[0].successRate, 2 / 3)
+    assert.deepEqual(stats[0].totalMs, { p50: 2000, p90: 9000, max: 9000, mean: 4000 })
+    assert.equal(stats[0].toolCalls.max, 6)
+  })
+})
+
+describe("formatBenchTable", () => {
+  it("adds an all row and deltas against a baseline", () => {
+    const samples = [sample(3, 1, true, 2000), sample(3, 2, true, 4000)]
+    const baselineSamples = [sample(3, 1, false, 5000), sample(3, 2, true, 3000)]
+    const baseline = {
+      version: 1,
+      createdAt: "2026-10-01T00:00:00.000Z",
+      challengeUrl: "http://127.0.0.1:4173/",
+      ladder: [],
+      repeat: 2,
+      steps: [3],
+      samples: baselineSamples,
+      stats: aggregateBench(baselineSamples),
+    }
+    const [, , step, all] = formatBenchTable(aggregateBench(samples), samples, baseline)
+    assert.match(step, /^\s*3\s+2\/2 \(\+50%\)\s+2\.0s \(-1\.0s\)/)
+    assert.match(all, /^\s*all\s+2\/2 \(\+50%\)/)
+  })
+})
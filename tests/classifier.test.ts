@@ -0,0 +1,88 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { classifyChallenge, isConfident, routeRung, selectPlaybooks, selectTools } from "../orchestrator/classifier"
+import { parseLadderSpec } from "../orchestrator/ladder"
+import type { PageFeatures } from "../tools/page-features"
+
+function page(bodyText: string, dom: Partial<PageFeatures> = {}): PageFeatures {
+  return {
+    url: "http://127.0.0.1:4173/step3?version=2",
+    bodyText,
+    canvases: 0,
+    draggables: 0,
+    iframes: 0,
+    shadowHosts: 0,
+    tabs: 0,
+    formFields: 0,
+    buttons: [],
+    ...dom,
+  }
+}
+
+describe("classifyChallenge", () => {
+  it("takes a page with nothing special for a plain code step", () => {
+    const result = classifyChallenge(page("Step 3 of 10. Enter the code shown below."))
+    assert.equal(result.type, "plain")
+    assert.equal(result.confidence, 1)
+    assert.deepEqual(result.signals, [])
+  })
+
+  it("combines text and DOM signals", () => {
+    const result = classifyChallenge(page("Drag the pieces into slot 1 and slot 2", { draggables: 4 }))
+    assert.equal(result.type, "drag")
+    assert.ok(isConfident(result))
+    assert.deepEqual(result.signals, ["text:drag", "text:slot-n", "dom:draggable"])
+  })
+
+  it("loses confidence when a second type scores close", () => {
+    const result = classifyChallenge(page("Hover over the box. Remember the code it shows."))
+    assert.ok(["hover", "memory"].includes(result.type))
+    assert.equal(isConfident(result), false)
+  })
+})
+
+describe("selectPlaybooks", () => {
+  const playbooks = [
+    "Intro before any heading.",
+    "### Instruction-first rule\nRead the instructions.",
+    "### Drag and drop challenges\nUse drag_and_drop.",
+    "### Memory challenges\nClick remember first.",
+  ].join("\n")
+
+  it("keeps the always-on and the type's sections", () => {
+    const selected = selectPlaybooks(playbooks, "drag")
+    assert.match(selected, /Intro before any heading/)
+    assert.match(selected, /### Instruction-first rule/)
+    assert.match(selected, /### Drag and drop challenges/)
+    assert.doesNotMatch(selected, /### Memory challenges/)
+  })
+
+  it("returns text without any known heading whole", () => {
+    const custom = "### Our own notes\nSomething else."
+    assert.equal(selectPlaybooks(custom, "drag"), custom)
+  })
+})
+
+describe("selectTools", () => {
+  it("keeps the core tools and the ones the type needs", () => {
+    const tools = ["scan_page_for_code", "enter_code", "drag_and_drop", "page_multi_action", "escalate"].map((name) => ({ name }))
+    assert.deepEqual(
+      selectTools(tools, "drag").map((t) => t.name),
+      ["scan_page_for_code", "enter_code", "drag_and_drop", "escalate"],
+    )
+  })
+})
+
+describe("routeRung", () => {
+  const ladder = parseLadderSpec("anthropic:claude-haiku-4-5,anthropic:claude-opus-4-6", "auto")
+
+  it("sends a confident hard type straight to the first full-playbook rung", () => {
+    assert.equal(routeRung({ type: "canvas", confidence: 0.9, signals: [] }, ladder), 1)
+  })
+
+  it("starts everything else at rung 0", () => {
+    assert.equal(routeRung({ type: "canvas", confidence: 0.3, signals: [] }, ladder), 0)
+    assert.equal(routeRung({ type: "drag", confidence: 0.9, signals: [] }, ladder), 0)
+    assert.equal(routeRung(null, ladder), 0)
+  })
+})
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict"
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { after, describe, it } from "node:test"
+import { loadConfigSections, resolveSettings } from "../orchestrator/config"
+
+const dir = mkdtempSync(path.join(tmpdir(), "agent-config-"))
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+let files = 0
+/** A config file in the temp dir; tests always pass --config so ./agent.config.json stays out of it */
+function configFile(contents: unknown): string {
+  const file = path.join(dir, `config-${++files}.json`)
+  writeFileSync(file, JSON.stringify(contents))
+  return file
+}
+
+const empty = configFile({})
+
+describe("resolveSettings", () => {
+  it("starts from the defaults", () => {
+    const { settings, sources, warnings } = resolveSettings(["--config", empty], {})
+    assert.equal(settings.timeoutSeconds, 180)
+    assert.equal(settings.fastPath, true)
+    assert.equal(settings.versionProvided, false)
+    assert.equal(sources.timeoutSeconds, "default")
+    assert.deepEqual(warnings, [])
+  })
+
+  it("layers config file, profile, environment and flags in that order", () => {
+    const config = configFile({
+      timeoutSeconds: 150,
+      maxIterations: 12,
+      stallSeconds: 30,
+      profiles: { ci: { timeoutSeconds: 120, maxIterations: 8 } },
+    })
+    const args = ["--config", config, "--profile", "ci", "--timeout-seconds", "60"]
+    const { settings, sources } = resolveSettings(args, { AGENT_TIMEOUT_SECONDS: "90", AGENT_MAX_ITERATIONS: "10" })
+    assert.equal(settings.timeoutSeconds, 60)
+    assert.equal(sources.timeoutSeconds, "--timeout-seconds")
+    assert.equal(settings.maxIterations, 10)
+    assert.equal(sources.maxIterations, "AGENT_MAX_ITERATIONS")
+    assert.equal(settings.stallSeconds, 30)
+    assert.equal(sources.stallSeconds, config)
+  })
+
+  it("parses on/off flags, inline values and the bench command", () => {
+    const { settings } = resolveSettings(["--config", empty, "--no-fast-path", "--verbose=yes", "bench", "--repeat=3"], {})
+    assert.equal(settings.fastPath, false)
+    assert.equal(settings.verbose, true)
+    assert.equal(settings.bench, true)
+    assert.equal(settings.repeat, 3)
+  })
+
+  it("runs only --step unless told otherwise", () => {
+    assert.equal(resolveSettings(["--config", empty, "--step", "7"], {}).settings.only, true)
+    assert.equal(resolveSettings(["--config", empty, "--step", "7", "--no-only"], {}).settings.only, false)
+  })
+
+  it("rejects unknown flags with a suggestion", () => {
+    assert.throws(() => resolveSettings(["--config", empty, "--timeout-second", "5"], {}), /did you mean --timeout-seconds\?/)
+    assert.throws(() => resolveSettings(["--config", empty, "--no-timeout-seconds"], {}), /not an on\/off flag/)
+  })
+
+  it("rejects values that don't fit the setting", () => {
+    assert.throws(() => resolveSettings(["--config", empty, "--timeout-seconds", "0"], {}), /Invalid value for --timeout-seconds/)
+    assert.throws(() => resolveSettings(["--config", empty], { AGENT_REPEAT: "many" }), /Invalid value for AGENT_REPEAT/)
+  })
+
+  it("rejects unknown and run-only keys in the config file", () => {
+    assert.throws(() => resolveSettings(["--config", configFile({ timeoutSecs: 5 })], {}), /Invalid config/)
+    assert.throws(() => resolveSettings(["--config", configFile({ replay: "rec" })], {}), /Invalid config/)
+    assert.throws(() => resolveSettings(["--config", empty, "--profile", "nope"], {}), /has no profiles/)
+  })
+
+  it("ignores other AGENT_* variables, warning only about near misses", () => {
+    const { settings, warnings } = resolveSettings(["--config", empty], {
+      AGENT_OS: "Linux",
+      AGENT_NAME: "runner-3",
+      AGENT_TIMEOUT_SECOND: "30",
+    })
+    assert.equal(settings.timeoutSeconds, 180)
+    assert.deepEqual(warnings, ["Ignoring environment variable AGENT_TIMEOUT_SECOND (did you mean AGENT_TIMEOUT_SECONDS?)"])
+  })
+})
+
+describe("loadConfigSections", () => {
+  it("replaces the ladder with the profile's and merges timeouts", () => {
+    const config = configFile({
+      ladder: ["anthropic:claude-haiku-4-5"],
+      toolTimeouts: { enter_code: 20 },
+      profiles: { thorough: { ladder: ["anthropic:claude-opus-4-6"], toolTimeouts: { scan_page_for_code: 90 } } },
+    })
+    const sections = loadConfigSections(config, "thorough", "auto")
+    assert.deepEqual(sections.ladder?.map((rung) => rung.modelID), ["claude-opus-4-6"])
+    assert.deepEqual(sections.toolTimeouts, { enter_code: 20, scan_page_for_code: 90 })
+  })
+})
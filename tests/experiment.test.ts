@@ -0,0 +1,74 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { BenchSample } from "../orchestrator/bench"
+import { fisherExact, holmAdjust, mannWhitney, summarizeExperiment } from "../orchestrator/experiment"
+
+const close = (actual: number, expected: number, tolerance = 1e-4) =>
+  assert.ok(Math.abs(actual - expected) < tolerance, `${actual} is not within ${tolerance} of ${expected}`)
+
+function sample(step: number, run: number, success: boolean, totalMs: number): BenchSample {
+  const solvedBy = success ? "anthropic:claude-haiku-4-5" : null
+  return { step, run, success, solvedBy, attempts: 1, totalMs, toolMs: 0, thinkingMs: 0, toolCalls: 3 }
+}
+
+describe("fisherExact", () => {
+  it("matches the tea-tasting table", () => {
+    close(fisherExact(3, 1, 1, 3), 0.4857)
+  })
+
+  it("is tiny for a perfect split and 1 for identical rows", () => {
+    close(fisherExact(10, 0, 0, 10), 2 / 184756, 1e-9)
+    assert.equal(fisherExact(5, 5, 5, 5), 1)
+  })
+})
+
+describe("mannWhitney", () => {
+  it("matches the normal approximation with continuity correction", () => {
+    close(mannWhitney([1, 2, 3, 4, 5], [6, 7, 8, 9, 10]), 0.01219)
+  })
+
+  it("finds no difference between equal samples or against an empty one", () => {
+    close(mannWhitney([1, 2, 3], [1, 2, 3]), 1)
+    assert.equal(mannWhitney([], [1, 2]), 1)
+  })
+})
+
+describe("holmAdjust", () => {
+  it("steps down and keeps adjusted p-values monotone, in input order", () => {
+    assert.deepEqual(holmAdjust([0.01, 0.04, 0.03]).map((p) => Number(p.toFixed(6))), [0.03, 0.06, 0.06])
+    assert.deepEqual(holmAdjust([0.5, 0.001]), [0.5, 0.002])
+  })
+
+  it("caps at 1", () => {
+    assert.deepEqual(holmAdjust([0.6, 0.7]), [1, 1])
+  })
+})
+
+describe("summarizeExperiment", () => {
+  it("calls a faster variant with the same solve rate a significant winner", () => {
+    const control = Array.from({ length: 12 }, (_, i) => sample(3, i + 1, true, 20_000 + i * 100))
+    const fast = Array.from({ length: 12 }, (_, i) => sample(3, i + 1, true, 5_000 + i * 100))
+    const summary = summarizeExperiment(new Map([["control", control], ["fast", fast]]))
+    assert.deepEqual(summary.winners, [{ step: 3, variant: "fast", significant: true }])
+  })
+
+  it("doesn't call a winner on solve rate significant when the difference isn't", () => {
+    const control = [sample(3, 1, true, 9_000), sample(3, 2, false, 9_000), sample(3, 3, true, 9_000)]
+    const better = [sample(3, 1, true, 9_500), sample(3, 2, true, 9_500), sample(3, 3, true, 9_500)]
+    const summary = summarizeExperiment(new Map([["control", control], ["better", better]]))
+    assert.deepEqual(summary.winners, [{ step: 3, variant: "better", significant: false }])
+  })
+
+  it("adjusts every p-value across all comparisons", () => {
+    const control = Array.from({ length: 6 }, (_, i) => sample(1 + (i % 2), i + 1, true, 10_000 + i))
+    const other = Array.from({ length: 6 }, (_, i) => sample(1 + (i % 2), i + 1, i > 0, 4_000 + i))
+    const { comparisons } = summarizeExperiment(new Map([["control", control], ["other", other]]))
+    // All steps plus one per step
+    assert.equal(comparisons.length, 3)
+    for (const c of comparisons) {
+      assert.ok(c.adjusted.successP >= c.successP)
+      assert.ok(c.adjusted.latencyP >= c.latencyP)
+      assert.ok(c.adjusted.toolCallsP >= c.toolCallsP)
+    }
+  })
+})
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { RetryHint } from "../auth/retry-hints"
+import { classifyProviderError, retryDelay } from "../orchestrator/provider-retry"
+
+const hint = (fields: Partial<RetryHint>): RetryHint => ({ status: null, retryAfterMs: null, oauthRefresh: false, at: 0, ...fields })
+
+describe("classifyProviderError", () => {
+  it("reads the status from the code or the start of the message", () => {
+    assert.equal(classifyProviderError({ message: "Too many requests", code: "429" }, null), "rate-limit")
+    assert.equal(classifyProviderError({ message: '529 {"type":"error","error":{"type":"overloaded_error"}}' }, null), "overloaded")
+    assert.equal(classifyProviderError({ message: "502 Bad Gateway" }, null), "server")
+  })
+
+  it("recognizes rate limits and overload by message", () => {
+    assert.equal(classifyProviderError({ message: "rate_limit_error: slow down" }, null), "rate-limit")
+    assert.equal(classifyProviderError({ message: "Overloaded" }, null), "overloaded")
+  })
+
+  it("retries dropped connections", () => {
+    assert.equal(classifyProviderError({ message: "fetch failed" }, null), "network")
+    assert.equal(classifyProviderError({ message: "request aborted", code: "ECONNRESET" }, null), "network")
+  })
+
+  it("doesn't retry client errors or unknown failures", () => {
+    assert.equal(classifyProviderError({ message: "400 invalid_request_error: max_tokens" }, null), null)
+    assert.equal(classifyProviderError({ message: "401 authentication_error" }, null), null)
+    assert.equal(classifyProviderError({ message: "Model returned nothing" }, null), null)
+  })
+
+  it("prefers the fetch wrapper's hint over the message", () => {
+    assert.equal(classifyProviderError({ message: "Error" }, hint({ status: 429 })), "rate-limit")
+    assert.equal(classifyProviderError({ message: "Error" }, hint({ status: 400 })), null)
+  })
+
+  it("retries a failed OAuth refresh unless the server rejected the token", () => {
+    assert.equal(classifyProviderError({ message: "OAuth token refresh failed: 503" }, null), "oauth-refresh")
+    assert.equal(classifyProviderError({ message: "OAuth token refresh failed: 400" }, null), null)
+    assert.equal(classifyProviderError({ message: "Error" }, hint({ oauthRefresh: true, status: null })), "oauth-refresh")
+    assert.equal(classifyProviderError({ message: "Error" }, hint({ oauthRefresh: true, status: 401 })), null)
+  })
+})
+
+describe("retryDelay", () => {
+  it("waits what the provider asked for, capped", () => {
+    const delay = retryDelay(0, hint({ retryAfterMs: 7000 }))
+    assert.ok(delay >= 7000 && delay < 7250)
+    assert.ok(retryDelay(0, hint({ retryAfterMs: 10 * 60_000 })) < 121_000)
+  })
+
+  it("backs off exponentially with jitter otherwise", () => {
+    for (const [n, cap] of [[0, 1000], [3, 8000], [10, 30_000]]) {
+      const delay = retryDelay(n, null)
+      assert.ok(delay >= cap / 2 && delay <= cap, `retry ${n}: ${delay}ms`)
+    }
+  })
+})
@@ -0,0 +1,150 @@
+import assert from "node:assert/strict"
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { after, describe, it } from "node:test"
+import type { AnyTextAdapter } from "@tanstack/ai"
+import type { ModelRung } from "../orchestrator/ladder"
+import { createRecorder, loadReplay, type RecordedAttempt } from "../orchestrator/recording"
+import { StreamStallError } from "../orchestrator/stall-watchdog"
+import type { ChatStreamOptions } from "../orchestrator/wrap-adapter"
+import type { ExecutableTool } from "../tools/types"
+
+const RUNG: ModelRung = { providerID: "anthropic", modelID: "claude-haiku-4-5", adapter: "env", prompt: "haiku", tools: "haiku" }
+
+const root = mkdtempSync(path.join(tmpdir(), "agent-recording-"))
+after(() => rmSync(root, { recursive: true, force: true }))
+let dirs = 0
+const newDir = () => path.join(root, `run-${++dirs}`)
+
+/** An adapter that streams `chunks` for each model call */
+function fakeAdapter(chunks: unknown[]): AnyTextAdapter {
+  return {
+    kind: "text",
+    name: "fake",
+    model: RUNG.modelID,
+    async *chatStream() {
+      for (const chunk of chunks) yield chunk
+    },
+  } as unknown as AnyTextAdapter
+}
+
+async function drain(stream: AsyncIterable<unknown>): Promise<unknown[]> {
+  const chunks: unknown[] = []
+  for await (const chunk of stream) chunks.push(chunk)
+  return chunks
+}
+
+// The fake and replay adapters don't read what chat() would pass them
+const OPTIONS = { model: RUNG.modelID, messages: [] } as Partial<ChatStreamOptions> as ChatStreamOptions
+
+const CHUNKS = [
+  { type: "RUN_STARTED", runId: "r1", threadId: "t" },
+  { type: "RUN_FINISHED", runId: "r1", threadId: "t", finishReason: "stop" },
+]
+
+describe("recording", () => {
+  it("replays the model calls and tool outputs it recorded", async () => {
+    const dir = newDir()
+    const recorder = createRecorder(dir, { step: 3 }, [RUNG])
+    const attempt = recorder.beginAttempt({ step: 3, attempt: 0, rung: RUNG, instruction: "Solve this challenge step." })
+    const adapter = attempt.wrapAdapter(fakeAdapter(CHUNKS))
+    const [scan, enter] = attempt.wrapTools<ExecutableTool>([
+      { name: "scan_page_for_code", execute: async () => ({ success: true, data: { codes: [{ src: "el:code", val: "QAC22U" }] } }) },
+      {
+        name: "enter_code",
+        execute: async () => {
+          throw new Error("page closed")
+        },
+      },
+    ])
+    assert.deepEqual(await drain(adapter.chatStream(OPTIONS)), CHUNKS)
+    await scan.execute!({})
+    await assert.rejects(async () => enter.execute!({ code: "QAC22U" }), /page closed/)
+    attempt.annotate({ providerRetries: 1 })
+    attempt.save()
+
+    const replay = loadReplay<{ step: number }>(dir)
+    assert.deepEqual(replay.manifest.args, { step: 3 })
+    assert.deepEqual(replay.manifest.ladder, [RUNG])
+    assert.equal(replay.remaining(), 1)
+    assert.equal(replay.nextIsFastPath(), false)
+
+    const next = replay.nextAttempt(3, 0)
+    assert.equal(next.record.providerRetries, 1)
+    assert.deepEqual(await drain(next.adapter.chatStream(OPTIONS)), CHUNKS)
+    await assert.rejects(async () => drain(next.adapter.chatStream(OPTIONS)), /no recorded model iteration #2/)
+    const [replayScan, replayEnter, replayUrl] = next.wrapTools<ExecutableTool>([
+      { name: "scan_page_for_code", execute: async () => assert.fail("replay ran the real tool") },
+      { name: "enter_code", execute: async () => assert.fail("replay ran the real tool") },
+      { name: "get_url", execute: async () => assert.fail("replay ran the real tool") },
+    ])
+    assert.deepEqual(await replayScan.execute!({}), { success: true, data: { codes: [{ src: "el:code", val: "QAC22U" }] } })
+    await assert.rejects(async () => replayEnter.execute!({}), /page closed/)
+    assert.deepEqual(await replayUrl.execute!({}), { success: false, error: "replay: no recorded output for get_url" })
+    assert.equal(replay.remaining(), 0)
+  })
+
+  it("throws a recorded stall again at the end of its model call", async () => {
+    const dir = newDir()
+    const attempt = createRecorder(dir, {}, [RUNG]).beginAttempt({ step: 1, attempt: 0, rung: RUNG, instruction: "x" })
+    await drain(attempt.wrapAdapter(fakeAdapter(CHUNKS.slice(0, 1))).chatStream(OPTIONS))
+    attempt.annotate({ stalls: [{ iteration: 1, chunks: 1, retried: false }] })
+    attempt.save()
+
+    const next = loadReplay(dir).nextAttempt(1, 0)
+    await assert.rejects(async () => drain(next.adapter.chatStream(OPTIONS)), StreamStallError)
+  })
+
+  it("numbers deferred attempts in commit order", () => {
+    const dir = newDir()
+    const recorder = createRecorder(dir, {}, [RUNG])
+    const first = recorder.defer()
+    const second = recorder.defer()
+    second.beginAttempt({ step: 8, attempt: 0, rung: RUNG, instruction: "x" }).save()
+    recorder.beginAttempt({ step: 1, attempt: -1, rung: RUNG, instruction: "(fast path)", fastPath: true }).save()
+    first.beginAttempt({ step: 7, attempt: 0, rung: RUNG, instruction: "x" }).save()
+    first.beginAttempt({ step: 7, attempt: 1, rung: RUNG, instruction: "x" }).save()
+    assert.deepEqual(readdirSync(dir).sort(), ["attempt-001.json", "manifest.json"])
+    first.commit()
+    second.commit()
+
+    const steps = readdirSync(dir)
+      .filter((f) => f.startsWith("attempt-"))
+      .sort()
+      .map((f) => {
+        const record: RecordedAttempt = JSON.parse(readFileSync(path.join(dir, f), "utf8"))
+        return `${record.step}.${record.attempt}`
+      })
+    assert.deepEqual(steps, ["1.-1", "7.0", "7.1", "8.0"])
+    assert.equal(loadReplay(dir).nextIsFastPath(), true)
+  })
+
+  it("overwrites an attempt saved more than once", () => {
+    const dir = newDir()
+    const recorder = createRecorder(dir, {}, [RUNG])
+    const attempt = recorder.beginAttempt({ step: 2, attempt: 0, rung: RUNG, instruction: "x" })
+    attempt.save()
+    attempt.annotate({ recovered: true })
+    attempt.save()
+    const held = recorder.defer()
+    const deferred = held.beginAttempt({ step: 3, attempt: 0, rung: RUNG, instruction: "x" })
+    deferred.save()
+    deferred.save()
+    held.commit()
+
+    assert.deepEqual(readdirSync(dir).sort(), ["attempt-001.json", "attempt-002.json", "manifest.json"])
+    const replay = loadReplay(dir)
+    assert.equal(replay.nextAttempt(2, 0).record.recovered, true)
+    assert.equal(replay.nextAttempt(3, 0).record.step, 3)
+  })
+
+  it("refuses a missing recording or one of another format version", () => {
+    assert.throws(() => loadReplay(path.join(root, "missing")), /Could not read replay manifest/)
+    const dir = newDir()
+    createRecorder(dir, {}, [RUNG])
+    const manifest = path.join(dir, "manifest.json")
+    writeFileSync(manifest, JSON.stringify({ ...JSON.parse(readFileSync(manifest, "utf8")), version: 1 }))
+    assert.throws(() => loadReplay(dir), /has version 1, expected 2/)
+  })
+})
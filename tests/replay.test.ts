@@ -0,0 +1,52 @@
+/**
+ * Replay regression test: runs the orchestrator on a checked-in recording of
+ * fixture-site step 3 (fast path scan finds nothing, the model scans and
+ * submits the code). chat() runs for real over the recorded adapter chunks,
+ * so a TanStack AI upgrade that changes the chunks the orchestrator sees
+ * fails here. No API keys, network or browser are needed.
+ */
+import assert from "node:assert/strict"
+import { spawnSync } from "node:child_process"
+import { mkdtempSync, readFileSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { after, describe, it } from "node:test"
+import { fileURLToPath } from "node:url"
+import type { RunReport } from "../orchestrator/report"
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..")
+const RECORDING = path.join("tests", "fixtures", "replay-step3")
+
+const out = mkdtempSync(path.join(tmpdir(), "agent-replay-"))
+after(() => rmSync(out, { recursive: true, force: true }))
+
+describe("replay of fixture step 3", () => {
+  it("solves the step the way it was recorded", () => {
+    const report = path.join(out, "report.json")
+    // Without credentials a replay that went wrong can't reach a provider
+    const { ANTHROPIC_API_KEY: _key, OPENAI_API_KEY: _openai, ...env } = process.env
+    const run = spawnSync(process.execPath, ["--import", "tsx", "agent.ts", "--replay", RECORDING, "--report", report], {
+      cwd: ROOT,
+      env,
+      encoding: "utf8",
+      timeout: 120_000,
+    })
+    assert.equal(run.status, 0, `agent exited with ${run.status}:\n${run.stdout}\n${run.stderr}`)
+    assert.match(run.stdout, /Step 3 solved! Page now on step 4/)
+    assert.doesNotMatch(run.stdout + run.stderr, /Replay divergence/)
+
+    const { summary, steps }: RunReport = JSON.parse(readFileSync(report, "utf8"))
+    assert.equal(summary.stepsSolved, 1)
+    assert.equal(summary.attempts, 2)
+    assert.equal(summary.escalations, 0)
+    assert.deepEqual(summary.usage, { promptTokens: 6510, completionTokens: 80 })
+    assert.deepEqual(
+      steps[0].attempts.map((a) => [a.attempt, a.outcome, a.tools.map((t) => t.name)]),
+      [
+        [-1, "failed", ["scan_page_for_code"]],
+        [0, "solved", ["scan_page_for_code", "enter_code"]],
+      ],
+    )
+    assert.equal(steps[0].attempts[1].finalUrl, "http://127.0.0.1:4173/step4?version=2")
+  })
+})
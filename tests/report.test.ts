@@ -0,0 +1,99 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { ModelRung } from "../orchestrator/ladder"
+import { buildRunReport, countEscalations, toJUnitXml, type AttemptOutcome, type AttemptReport } from "../orchestrator/report"
+
+const HAIKU: ModelRung = { providerID: "anthropic", modelID: "claude-haiku-4-5", adapter: "env", prompt: "haiku", tools: "haiku" }
+const OPUS: ModelRung = { providerID: "anthropic", modelID: "claude-opus-4-6", adapter: "env", prompt: "opus", tools: "opus" }
+const FAST_PATH: ModelRung = { providerID: "orchestrator", modelID: "fast-path", adapter: "env", prompt: "haiku", tools: "haiku" }
+const LADDER = [HAIKU, OPUS]
+
+function attempt(step: number, index: number, outcome: AttemptOutcome, fields: Partial<AttemptReport> = {}): AttemptReport {
+  return {
+    step,
+    attempt: index,
+    rung: index < 0 ? FAST_PATH : LADDER[index],
+    startedAt: "2026-10-19T09:00:00.000Z",
+    durationMs: 1000,
+    toolCalls: 2,
+    toolTimeMs: 400,
+    thinkingMs: 600,
+    tools: [],
+    thinking: [],
+    usage: { promptTokens: 100, completionTokens: 10 },
+    costUsd: 0.001,
+    finalUrl: null,
+    outcome,
+    ...fields,
+  }
+}
+
+const report = (attempts: AttemptReport[]) =>
+  buildRunReport({ startedAt: Date.now() - 5000, challengeUrl: "http://127.0.0.1:4173/", ladder: LADDER, args: {}, attempts })
+
+describe("buildRunReport", () => {
+  it("counts a step solved on a higher rung after a failure as an escalation", () => {
+    const { summary, steps } = report([attempt(3, 0, "failed"), attempt(3, 1, "solved")])
+    assert.equal(summary.escalations, 1)
+    assert.equal(steps[0].solvedBy, "anthropic:claude-opus-4-6")
+  })
+
+  it("doesn't count routing, the fast path or re-runs of the same rung", () => {
+    const { summary } = report([
+      // Routed straight to the second rung
+      attempt(4, 1, "solved"),
+      // Fast path missed, first rung solved
+      attempt(5, -1, "failed"),
+      attempt(5, 0, "solved"),
+      // Stalled, re-run on the same rung
+      attempt(6, 0, "stalled", { stalls: 1 }),
+      attempt(6, 0, "solved"),
+      // Escalated but never solved
+      attempt(7, 0, "failed"),
+      attempt(7, 1, "failed"),
+    ])
+    assert.equal(summary.escalations, 0)
+    assert.equal(summary.stepsSolved, 3)
+    assert.equal(summary.stalls, 1)
+  })
+
+  it("counts escalations for the console summary the same way", () => {
+    const attempts = [attempt(3, 0, "failed"), attempt(3, 1, "solved"), attempt(4, 1, "solved")]
+    assert.equal(countEscalations(attempts), 1)
+    assert.equal(report(attempts).summary.escalations, 1)
+  })
+
+  it("keeps bench repeats and matrix versions of a step apart", () => {
+    const { steps, summary } = report([
+      attempt(3, 0, "solved", { run: 1 }),
+      attempt(3, 0, "failed", { run: 2 }),
+      attempt(3, 1, "solved", { run: 2 }),
+      attempt(8, 0, "solved", { version: "1" }),
+      attempt(8, 0, "failed", { version: "2" }),
+    ])
+    assert.deepEqual(
+      steps.map((s) => [s.step, s.run ?? s.version, s.solved, s.attempts.length]),
+      [[3, 1, true, 1], [3, 2, true, 2], [8, "1", true, 1], [8, "2", false, 1]],
+    )
+    assert.equal(summary.escalations, 1)
+    assert.equal(summary.attempts, 5)
+  })
+})
+
+describe("toJUnitXml", () => {
+  it("escapes markup and drops control characters XML can't hold", () => {
+    const xml = toJUnitXml(
+      report([attempt(2, 0, "error", { error: `chat() threw <Error> "bad" & \u0007gone`, run: 1, variant: "terse & short" })]),
+    )
+    assert.match(xml, /<testcase classname="challenge" name="step 2 variant terse &amp; short run 1"/)
+    assert.match(xml, /<failure message="chat\(\) threw &lt;Error&gt; &quot;bad&quot; &amp; gone" type="error"\/>/)
+    assert.doesNotMatch(xml, /\u0007/)
+  })
+
+  it("reports one testcase per step with the failure count", () => {
+    const xml = toJUnitXml(report([attempt(1, 0, "solved"), attempt(2, 0, "failed"), attempt(2, 1, "failed")]))
+    assert.match(xml, /<testsuites name="challenge-agent" tests="2" failures="1"/)
+    assert.equal(xml.match(/<testcase /g)?.length, 2)
+    assert.match(xml, /<failure message="failed after 2 attempt\(s\)" type="failed"\/>/)
+  })
+})
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { callSignature, createToolPolicy, type ToolPolicyConfig } from "../orchestrator/tool-policy"
+
+describe("callSignature", () => {
+  it("ignores key order, whitespace and unset or false fields", () => {
+    assert.equal(
+      callSignature("scan_page_for_code", { url: " http://x/step3 ", noAuto: false, navigate: true }),
+      callSignature("scan_page_for_code", { navigate: true, url: "http://x/step3", selector: null }),
+    )
+  })
+
+  it("ignores comments and all whitespace in evaluated code", () => {
+    assert.equal(
+      callSignature("page_evaluate_js", { code: "// find it\ndocument.querySelector('#code') /* the box */ .textContent" }),
+      callSignature("page_evaluate_js", { code: "document.querySelector('#code').textContent" }),
+    )
+  })
+
+  it("tells different inputs and tools apart", () => {
+    assert.notEqual(callSignature("enter_code", { code: "AB1C23" }), callSignature("enter_code", { code: "AB1C24" }))
+    assert.notEqual(callSignature("enter_code", {}), callSignature("get_url", {}))
+    assert.equal(callSignature("get_url", undefined), callSignature("get_url", {}))
+  })
+})
+
+describe("createToolPolicy", () => {
+  const config: ToolPolicyConfig = {
+    maxToolCalls: 10,
+    perTool: { page_evaluate_js: 1 },
+    maxRepeats: 1,
+    maxBlocked: 1,
+    onStop: "force-submit",
+  }
+
+  it("blocks repeats past maxRepeats and calls past a tool's cap, then stops", () => {
+    const policy = createToolPolicy(config)
+    assert.equal(policy.check("scan_page_for_code", {}).action, "allow")
+    assert.equal(policy.check("scan_page_for_code", {}).action, "allow")
+    assert.equal(policy.check("scan_page_for_code", {}).action, "block")
+    assert.equal(policy.check("page_evaluate_js", { code: "1" }).action, "allow")
+    assert.equal(policy.check("page_evaluate_js", { code: "2" }).action, "stop")
+    assert.match(policy.stopReason ?? "", /2 tool calls blocked/)
+    assert.equal(policy.check("enter_code", { code: "AB1C23" }).action, "stop")
+  })
+
+  it("stops past maxToolCalls", () => {
+    const policy = createToolPolicy({ ...config, maxToolCalls: 2 })
+    assert.equal(policy.check("get_url", {}).action, "allow")
+    assert.equal(policy.check("scan_page_for_code", {}).action, "allow")
+    assert.deepEqual(policy.check("enter_code", { code: "AB1C23" }), { action: "stop", reason: "tool call limit reached (2 per attempt)" })
+  })
+
+  it("never blocks escalate", () => {
+    const policy = createToolPolicy(config)
+    for (let i = 0; i < 3; i++) assert.equal(policy.check("escalate", { reason: "stuck" }).action, "allow")
+  })
+})
@@ -1,64 +1,156 @@
 /**
- * Shared Playwright browser singleton.
+ * Browser sessions.
  *
- * All tools run in the same process, so they share this module's singleton variables directly.
- * The first tool call (scan_page_for_code with a url param) triggers browser launch.
+ * A BrowserSession owns a browser context and its active page, created on
+ * first use — the first tool call (scan_page_for_code with a url param)
+ * triggers the launch. All sessions share one Playwright browser.
+ *
+ * Tools don't reach for a process-wide page: the orchestrator passes the
+ * session to chat() as its runtime context ({ browser }, see ToolContext)
+ * and tools read it from their execute() context with browserFor(). Without
+ * one they get defaultBrowserSession — one context, one page per process,
+ * which is how every run worked before sessions; steps running side by side
+ * (--concurrency) each get a session of their own.
  */
-import { chromium, type Browser, type BrowserContext, type Page } from "playwright"
+import { chromium, type Browser, type BrowserContext, type BrowserContextOptions, type Page } from "playwright"
+import type { ToolCallContext } from "./cancel"
+
+export interface BrowserSession {
+  /** The session's context, created on first use */
+  context(): Promise<BrowserContext>
+  /** The active page: the context's first page, or a new one, when none is active */
+  page(): Promise<Page>
+  /** The active page if one is open; unlike page() it never launches the browser. */
+  openPage(): Page | null
+  /** Close the active page — ending any evaluate or wait still running in it —
+   *  and open a fresh one in the same context (cookies and storage are kept). */
+  replacePage(): Promise<Page>
+  /** Drop the context (cookies, storage, pages) but keep the browser.
+   *  The next page() starts from a clean context. */
+  reset(): Promise<void>
+}
+
+/** chat()'s runtime context, as tools receive it in their execute() context */
+export interface ToolContext {
+  browser: BrowserSession
+}
 
-let browser: Browser | null = null
-let context: BrowserContext | null = null
-let page: Page | null = null
+const CONTEXT_OPTIONS: BrowserContextOptions = {
+  viewport: { width: 1280, height: 720 },
+  userAgent:
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36",
+}
+
+let sharedBrowser: Browser | null = null
+let launching: Promise<Browser> | null = null
 
+/** The browser sessions share, launched on first use */
 export async function getBrowser(): Promise<Browser> {
-  if (!browser) {
-    const headed = process.env.HEADED === "true"
-    browser = await chromium.launch({
-      headless: !headed,
+  if (sharedBrowser) return sharedBrowser
+  // Sessions starting together share one launch
+  launching ??= chromium
+    .launch({
+      headless: process.env.HEADED !== "true",
       args: ["--no-sandbox", "--disable-setuid-sandbox"],
+      // The orchestrator handles Ctrl-C/SIGTERM and closes the browser once the run is wrapped up
+      handleSIGINT: false,
+      handleSIGTERM: false,
     })
-  }
-  return browser
-}
-
-export async function getContext(): Promise<BrowserContext> {
-  if (!context) {
-    const b = await getBrowser()
-    context = await b.newContext({
-      viewport: { width: 1280, height: 720 },
-      userAgent:
-        "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36",
+    .then((browser) => (sharedBrowser = browser))
+    .finally(() => {
+      launching = null
     })
+  return launching
+}
 
-    // Override native dialogs
-    await context.addInitScript(`
-      window.alert = () => {};
-      window.confirm = () => true;
-      window.prompt = () => null;
-    `)
-  }
+async function newContext(): Promise<BrowserContext> {
+  const context = await (await getBrowser()).newContext(CONTEXT_OPTIONS)
+  // Override native dialogs
+  await context.addInitScript(`
+    window.alert = () => {};
+    window.confirm = () => true;
+    window.prompt = () => null;
+  `)
   return context
 }
 
-export async function getPage(): Promise<Page> {
-  if (!page || page.isClosed()) {
-    const ctx = await getContext()
-    const pages = ctx.pages()
-    page = pages.length > 0 ? pages[0] : await ctx.newPage()
+export function createBrowserSession(): BrowserSession {
+  let context: BrowserContext | null = null
+  // Callers arriving while the context or page is being created wait for that one
+  let opening: Promise<BrowserContext> | null = null
+  let pageOpening: Promise<Page> | null = null
+  let active: Page | null = null
 
-    // Auto-dismiss native browser dialogs
-    page.on("dialog", (dialog) => {
-      dialog.dismiss().catch(() => {})
-    })
+  const session: BrowserSession = {
+    async context() {
+      // A context of a browser closed under it is gone with it
+      if (context?.browser()?.isConnected()) return context
+      opening ??= newContext()
+        .then((created) => {
+          context = created
+          active = null
+          return created
+        })
+        .finally(() => {
+          opening = null
+        })
+      return opening
+    },
+
+    async page() {
+      if (active && !active.isClosed()) return active
+      pageOpening ??= session
+        .context()
+        .then(async (ctx) => {
+          const pages = ctx.pages()
+          const page = pages.length > 0 ? pages[0] : await ctx.newPage()
+          // Auto-dismiss native browser dialogs
+          page.on("dialog", (dialog) => {
+            dialog.dismiss().catch(() => {})
+          })
+          active = page
+          return page
+        })
+        .finally(() => {
+          pageOpening = null
+        })
+      return pageOpening
+    },
+
+    openPage() {
+      return active && !active.isClosed() ? active : null
+    },
+
+    async replacePage() {
+      if (active && !active.isClosed()) await active.close().catch(() => {})
+      active = null
+      return session.page()
+    },
+
+    async reset() {
+      const closing = context ?? (await opening?.catch(() => null)) ?? null
+      context = null
+      active = null
+      if (closing) {
+        await closing.close().catch(() => {})
+      }
+    },
   }
-  return page
+  return session
+}
+
+/** The session of tool calls that weren't given one */
+export const defaultBrowserSession = createBrowserSession()
+
+/** The session a tool call runs against: the one in chat()'s runtime context, or the default */
+export function browserFor(call?: ToolCallContext): BrowserSession {
+  return (call?.context as Partial<ToolContext> | undefined)?.browser ?? defaultBrowserSession
 }
 
 export async function closeBrowser(): Promise<void> {
-  if (browser) {
-    await browser.close()
-    browser = null
-    context = null
-    page = null
+  if (sharedBrowser) {
+    await sharedBrowser.close()
+    sharedBrowser = null
+    await defaultBrowserSession.reset()
   }
 }
@@ -0,0 +1,41 @@
+/**
+ * Cancellation helpers for tools.
+ *
+ * Every tool call gets an abort signal in its execute() context: it fires
+ * when the attempt ends (challenge timeout, step advanced, policy stop) or
+ * when the tool's own timeout runs out (see orchestrator/tool-timeouts.ts).
+ * Tools check it between page operations and use abortableWait() instead of
+ * page.waitForTimeout(), so a cancelled call stops at its next wait rather
+ * than running on into the next challenge. A page.evaluate() already in the
+ * page can't be interrupted; the orchestrator closes the page if one doesn't
+ * settle.
+ */
+import type { Page } from "playwright"
+
+/** The part of chat()'s tool execution context tools read */
+export interface ToolCallContext {
+  toolCallId?: string
+  abortSignal?: AbortSignal
+  /** chat()'s runtime context: the call's browser session (see ToolContext in ./browser) */
+  context?: unknown
+}
+
+/** Throw the signal's reason if it has fired */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  signal?.throwIfAborted()
+}
+
+/** page.waitForTimeout() that rejects with the signal's reason as soon as it fires */
+export async function abortableWait(page: Page, ms: number, signal: AbortSignal | undefined): Promise<void> {
+  if (!signal) return page.waitForTimeout(ms)
+  signal.throwIfAborted()
+  let reject!: (reason: unknown) => void
+  const aborted = new Promise<never>((_, r) => (reject = r))
+  const onAbort = () => reject(signal.reason)
+  signal.addEventListener("abort", onAbort, { once: true })
+  try {
+    await Promise.race([page.waitForTimeout(ms), aborted])
+  } finally {
+    signal.removeEventListener("abort", onAbort)
+  }
+}
@@ -11,8 +11,9 @@
  */
 import { toolDefinition } from "@tanstack/ai"
 import { z } from "zod"
-import { getPage } from "./browser"
+import { browserFor } from "./browser"
 import { dismissPopups } from "./dismiss-helper"
+import { fail, ok, type DragDropResult, type ToolResult } from "./types"
 
 type Strategy = "auto" | "react" | "dragTo" | "mouse" | "dataTransfer"
 
@@ -25,6 +26,15 @@ interface DragPair {
   targetIndex?: number
 }
 
+const noDrag = (strategy: string | null = null): DragDropResult => ({
+  strategy,
+  results: [],
+  complete: false,
+  filled: null,
+  revealedCode: null,
+  sixCharCodes: [],
+})
+
 const dragAndDropDef = toolDefinition({
   name: "drag_and_drop",
   description:
@@ -52,13 +62,14 @@ const dragAndDropDef = toolDefinition({
   }),
 })
 
-export const dragAndDrop = dragAndDropDef.server(async (args) => {
-  const page = await getPage()
+export const dragAndDrop = dragAndDropDef.server(async (args, context): Promise<ToolResult<DragDropResult>> => {
+  const page = await browserFor(context).page()
+  const signal = context?.abortSignal
   const timeout = args.timeoutMs ?? 3000
   const steps = args.steps ?? 12
 
   if (!args.pairs && !args.sourceSelector && !args.sourceText) {
-    return JSON.stringify({ error: "provide pairs or sourceSelector/sourceText and targetSelector/targetText" })
+    return fail("provide pairs or sourceSelector/sourceText and targetSelector/targetText", noDrag())
   }
 
   await dismissPopups(page)
@@ -79,7 +90,7 @@ export const dragAndDrop = dragAndDropDef.server(async (args) => {
         ]
 
   if (!pairs[0]?.sourceSelector && !pairs[0]?.sourceText) {
-    return JSON.stringify({ error: "provide pairs or sourceSelector/sourceText and targetSelector/targetText" })
+    return fail("provide pairs or sourceSelector/sourceText and targetSelector/targetText", noDrag())
   }
 
   const strategies: Strategy[] =
@@ -232,18 +243,15 @@ export const dragAndDrop = dragAndDropDef.server(async (args) => {
 
       // If react strategy worked for all pairs, return immediately
       const allOk = result.results.every((r: string) => r.includes(":ok"))
-      if (allOk) {
-        return JSON.stringify({ strategy: "react", status: "ok", ...result })
-      }
-      // If some pairs failed, fall through to next strategy
-      if (result.results.some((r: string) => r.includes(":ok"))) {
-        return JSON.stringify({ strategy: "react", status: "partial", ...result })
+      // Partial success is returned as-is too, so the model can retry just the failed pairs
+      if (allOk || result.results.some((r: string) => r.includes(":ok"))) {
+        return ok({ strategy: "react", complete: allOk, ...result })
       }
       // All failed — fall through
     } catch (e: any) {
       // React strategy failed entirely — fall through
       if (strategies.length === 1) {
-        return JSON.stringify({ strategy: "react", error: e.message })
+        return fail(e.message, noDrag("react"))
       }
     }
   }
@@ -357,8 +365,13 @@ export const dragAndDrop = dragAndDropDef.server(async (args) => {
 
   const outputs: string[] = []
   for (let i = 0; i < pairs.length; i++) {
+    // Cancelled (attempt ended or tool timeout): leave the remaining pairs alone
+    if (signal?.aborted) {
+      outputs.push(`pair:${i}:aborted`)
+      break
+    }
     outputs.push(await runOne(pairs[i], i))
   }
 
-  return JSON.stringify({ result: outputs.join(" | ") })
+  return ok({ ...noDrag(), results: outputs, complete: outputs.every((o) => o.includes(":ok")) })
 })
@@ -6,24 +6,38 @@
  */
 import { toolDefinition } from "@tanstack/ai"
 import { z } from "zod"
-import { getPage } from "./browser"
+import { browserFor } from "./browser"
+import type { ToolCallContext } from "./cancel"
 import { dismissPopups } from "./dismiss-helper"
+import { fail, ok, type EnterCodeResult, type ToolResult } from "./types"
+
+const enterCodeInput = z.object({
+  code: z.string().describe("The code to enter."),
+  inputSelector: z.string().optional().describe("CSS selector for input. Auto-detects if omitted."),
+  submitSelector: z.string().optional().describe("CSS selector for submit button. Auto-detects if omitted."),
+})
+
+export type EnterCodeArgs = z.infer<typeof enterCodeInput>
 
 const enterCodeDef = toolDefinition({
   name: "enter_code",
   description:
     "Enter a code into the input field and submit. Auto-dismisses popups first. Auto-finds input and submit button.",
-  inputSchema: z.object({
-    code: z.string().describe("The code to enter."),
-    inputSelector: z.string().optional().describe("CSS selector for input. Auto-detects if omitted."),
-    submitSelector: z.string().optional().describe("CSS selector for submit button. Auto-detects if omitted."),
-  }),
+  inputSchema: enterCodeInput,
 })
 
-export const enterCode = enterCodeDef.server(async (args) => {
-  const page = await getPage()
+/** enter_code as a plain function, for the orchestrator's own calls outside chat() */
+export async function submitCode(args: EnterCodeArgs, context?: ToolCallContext): Promise<ToolResult<EnterCodeResult>> {
+  const page = await browserFor(context).page()
 
   const beforeUrl = page.url()
+  const outcome = (afterUrl: string, feedback: string): EnterCodeResult => ({
+    code: args.code,
+    beforeUrl,
+    afterUrl,
+    urlChanged: afterUrl !== beforeUrl,
+    feedback,
+  })
 
   // Dismiss popups FIRST so input is accessible
   await dismissPopups(page)
@@ -71,7 +85,7 @@ export const enterCode = enterCodeDef.server(async (args) => {
   }
 
   if (!inputSelector) {
-    return JSON.stringify({ error: "no input field found." })
+    return fail("no input field found.", outcome(beforeUrl, ""))
   }
 
   // Fill the input
@@ -89,7 +103,7 @@ export const enterCode = enterCodeDef.server(async (args) => {
       await input.fill("")
       await input.fill(args.code)
     } catch (e2: any) {
-      return JSON.stringify({ error: e2.message })
+      return fail(e2.message, outcome(page.url(), ""))
     }
   }
 
@@ -139,18 +153,11 @@ export const enterCode = enterCodeDef.server(async (args) => {
     return { url: window.location.href, body }
   })
 
-  const urlChanged = feedback.url !== beforeUrl
-
-  if (!urlChanged) {
-    return JSON.stringify({ error: "submission did not advance; please take a step back to deduce why." })
+  const result = outcome(feedback.url, feedback.body)
+  if (!result.urlChanged) {
+    return fail("submission did not advance; please take a step back to deduce why.", result)
   }
+  return ok(result)
+}
 
-  return JSON.stringify({
-    status: "OK",
-    code: args.code,
-    newUrl: feedback.url,
-    urlChanged: true,
-    prevUrl: beforeUrl,
-    body: feedback.body,
-  })
-})
+export const enterCode = enterCodeDef.server(submitCode)
@@ -7,6 +7,7 @@
  */
 import { toolDefinition } from "@tanstack/ai"
 import { z } from "zod"
+import { ok, type EscalateResult, type ToolResult } from "./types"
 
 const escalateDef = toolDefinition({
   name: "escalate",
@@ -17,7 +18,7 @@ const escalateDef = toolDefinition({
   }),
 })
 
-export const escalate = escalateDef.server(async (args) => {
-  // The orchestrator detects this tool's output and retries with a stronger model.
-  return JSON.stringify({ action: "ESCALATE", reason: args.reason })
+export const escalate = escalateDef.server(async (args): Promise<ToolResult<EscalateResult>> => {
+  // The orchestrator sees this tool's result and retries with a stronger model.
+  return ok({ reason: args.reason })
 })
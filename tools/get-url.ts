@@ -6,7 +6,8 @@
  */
 import { toolDefinition } from "@tanstack/ai"
 import { z } from "zod"
-import { getPage } from "./browser"
+import { browserFor } from "./browser"
+import { ok, type ToolResult, type UrlResult } from "./types"
 
 const getUrlDef = toolDefinition({
   name: "get_url",
@@ -14,9 +15,9 @@ const getUrlDef = toolDefinition({
   inputSchema: z.object({}),
 })
 
-export const getUrl = getUrlDef.server(async () => {
-  const page = await getPage()
+export const getUrl = getUrlDef.server(async (_args, context): Promise<ToolResult<UrlResult>> => {
+  const page = await browserFor(context).page()
   const url = page.url()
   const title = await page.title()
-  return JSON.stringify({ url, title })
+  return ok({ url, title })
 })
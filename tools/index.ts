@@ -0,0 +1,137 @@
+/**
+ * Tool dispatch layer.
+ *
+ * Tools return ToolResult objects (see ./types). Before chat() sees them,
+ * withFormattedResults() wraps each tool's execute() so that:
+ *   - the model receives the text from formatToolResult(), the one place
+ *     that decides how a result reads to the model
+ *   - the orchestrator receives the ToolResult itself, keyed by tool call ID
+ *
+ * Wrap after any recording/replay wrappers so recordings keep the
+ * structured results and replays go through the same serializer.
+ */
+import type { ToolCallContext } from "./cancel"
+import { namedResult, toolResultOf, type BlockedNavigation, type ExecutableTool, type NamedToolResult, type ScanResult, type ToolResult } from "./types"
+
+function formatScan(data: ScanResult): string {
+  if (data.isCompletion) {
+    return `STATUS: COMPLETED — All challenges finished!\nURL: ${data.url}\n\nPAGE CONTENT:\n${data.markdown.substring(0, 2000)}`
+  }
+
+  const parts: string[] = []
+  parts.push(`URL: ${data.url}`)
+  if (data.popupsDismissed > 0) parts.push(`Popups dismissed: ${data.popupsDismissed}`)
+
+  if (data.autoActions.length > 0) {
+    parts.push(`Auto: ${data.autoActions.map((a) => `${a.type}(${a.detail})`).join(", ")}`)
+  }
+
+  if (data.codes.length > 0) {
+    parts.push(`\nCODE CANDIDATES:`)
+    data.codes.slice(0, 10).forEach((c) => parts.push(`  [${c.src}] ${c.val}`))
+  } else {
+    parts.push(`\nNo code candidates found.`)
+  }
+
+  // Always include page content — model needs it to figure out interactions when auto-solve misses
+  // But trim more aggressively if we found a strong code candidate
+  const hasStrongCode = data.codes.some((c) =>
+    c.src.startsWith("el:code") || c.src.startsWith("el:kbd") || c.src.startsWith("el:mark") ||
+    c.src === "pattern" || c.src.startsWith("el:[data-code") || c.src.startsWith("el:[data-secret") ||
+    c.src.startsWith("el:[data-answer")
+  )
+  parts.push(`\nPAGE CONTENT:\n${data.markdown.substring(0, hasStrongCode ? 2000 : 6000)}`)
+  return parts.join("\n")
+}
+
+function formatBlockedNavigation(blocked: BlockedNavigation[]): string {
+  const lines = blocked.map((b) =>
+    b.kind === "navigation"
+      ? `NAVIGATION BLOCKED: the page tried to load ${b.url}; the orchestrator stopped it.`
+      : `NAVIGATION BLOCKED: the page moved to ${b.url}; ${b.reverted ? "the orchestrator moved it back" : "moving it back FAILED — call get_url"}.`,
+  )
+  lines.push("Do NOT navigate away or click Continue/Next/Skip-style buttons. Submit codes with enter_code only.")
+  return lines.join("\n")
+}
+
+/** The model-facing text for a tool result */
+export function formatToolResult(named: NamedToolResult): string {
+  const text = formatResultBody(named)
+  const blocked = named.result.blockedNavigation
+  return blocked && blocked.length > 0 ? `${text}\n\n${formatBlockedNavigation(blocked)}` : text
+}
+
+function formatResultBody({ name, result }: NamedToolResult): string {
+  if (!result.success) {
+    const lines = [`Error: ${result.error ?? "tool failed"}`]
+    if (result.hint) lines.push(`Hint: ${result.hint}`)
+    // A failed submit still says where the page is and what it shows
+    if (name === "enter_code" && result.data?.feedback) {
+      lines.push(`URL: ${result.data.afterUrl}`, `PAGE: ${result.data.feedback}`)
+    }
+    return lines.join("\n")
+  }
+
+  switch (name) {
+    case "scan_page_for_code":
+      return formatScan(result.data)
+    case "enter_code": {
+      const { code, beforeUrl, afterUrl, feedback } = result.data
+      return `OK: code "${code}" accepted. URL: ${beforeUrl} → ${afterUrl}\nPAGE: ${feedback}`
+    }
+    case "escalate":
+      return `ESCALATE: ${result.data.reason}`
+    case "get_url":
+      return `URL: ${result.data.url}\nTitle: ${result.data.title}`
+    case "get_modal_buttons": {
+      if (result.data.modals.length === 0) return "No modals or popups found on the page."
+      return result.data.modals
+        .map((m) => [
+          `[${m.selector}] ${m.textContent}`,
+          ...m.buttons.map((b) => `  button "${b.text}" → ${b.selector}`),
+        ].join("\n"))
+        .join("\n\n")
+    }
+    case "drag_and_drop": {
+      const { strategy, results, complete, filled, revealedCode, sixCharCodes } = result.data
+      const lines = [`${complete ? "OK" : "PARTIAL"}${strategy ? ` (${strategy})` : ""}: ${results.join(" | ")}`]
+      if (filled) lines.push(`Filled: ${filled}`)
+      if (revealedCode) lines.push(`Revealed code: ${revealedCode}`)
+      if (sixCharCodes.length > 0) lines.push(`6-char codes on page: ${sixCharCodes.join(", ")}`)
+      return lines.join("\n")
+    }
+    default:
+      return result.data.output
+  }
+}
+
+/**
+ * Call a tool outside chat() — the orchestrator's own scans and submits —
+ * through whatever wrappers it has, and get its structured result.
+ */
+export async function executeTool(tool: ExecutableTool, args: unknown, context?: ToolCallContext): Promise<NamedToolResult> {
+  if (!tool.execute) throw new Error(`Tool ${tool.name} has no execute()`)
+  return namedResult(tool.name, await toolResultOf(tool.execute(args, context)))
+}
+
+/**
+ * Wrap tools so chat() gets model-facing text and `onResult` gets the
+ * structured result of every call.
+ */
+export function withFormattedResults<T extends ExecutableTool>(
+  tools: T[],
+  onResult: (toolCallId: string, result: NamedToolResult) => void,
+): T[] {
+  return tools.map((tool) => {
+    if (!tool.execute) return tool
+    const execute = tool.execute
+    return {
+      ...tool,
+      execute: async (args: unknown, context?: ToolCallContext) => {
+        const named = namedResult(tool.name, await toolResultOf(execute(args, context)))
+        if (context?.toolCallId) onResult(context.toolCallId, named)
+        return formatToolResult(named)
+      },
+    }
+  })
+}
@@ -7,7 +7,8 @@
  */
 import { toolDefinition } from "@tanstack/ai"
 import { z } from "zod"
-import { getPage } from "./browser"
+import { browserFor } from "./browser"
+import { ok, type ModalInfo, type ModalResult, type ToolResult } from "./types"
 
 const modalDef = toolDefinition({
   name: "get_modal_buttons",
@@ -16,15 +17,11 @@ const modalDef = toolDefinition({
   inputSchema: z.object({}),
 })
 
-export const getModalButtons = modalDef.server(async () => {
-  const page = await getPage()
+export const getModalButtons = modalDef.server(async (_args, context): Promise<ToolResult<ModalResult>> => {
+  const page = await browserFor(context).page()
 
   const modals = await page.evaluate(() => {
-    const results: Array<{
-      selector: string
-      textContent: string
-      buttons: Array<{ text: string; selector: string }>
-    }> = []
+    const results: ModalInfo[] = []
 
     // Common modal/dialog selectors
     const modalSelectors = [
@@ -102,9 +99,5 @@ export const getModalButtons = modalDef.server(async () => {
     return results
   })
 
-  if (modals.length === 0) {
-    return JSON.stringify({ result: "No modals or popups found on the page.", modals: [] })
-  }
-
-  return JSON.stringify({ modals })
+  return ok({ modals })
 })
@@ -0,0 +1,126 @@
+/**
+ * Navigation guard for the model's page tools.
+ *
+ * The prompts say "Do NOT navigate away" and "NEVER click decoy buttons", but
+ * page_evaluate_js, page_multi_action, page_click_element and the rest can
+ * still follow a link, submit a form or click a "Continue"/"Next" trap. While
+ * one of them runs on a step page, the guard:
+ *   - aborts main-frame document navigations (links, form posts, location=)
+ *   - afterwards, reverts a client-side route change to an earlier step or
+ *     another page, through the app's router (pushState + popstate), falling
+ *     back to jumpToStep
+ * and reports what it stopped in the tool result (`blockedNavigation`), which
+ * the dispatch layer turns into a warning for the model.
+ *
+ * Only enter_code and scan_page_for_code with navigate=true may move the page
+ * anywhere. Other tools may still advance it — a page_multi_action that types
+ * the code and clicks Submit moves to the next step or the completion page,
+ * and that is let through.
+ */
+import type { Page, Route } from "playwright"
+import { browserFor } from "./browser"
+import type { ToolCallContext } from "./cancel"
+import { jumpToStep, parseStepUrl } from "./step-nav"
+import { toolResultOf, type BlockedNavigation, type ExecutableTool, type ToolResult } from "./types"
+
+/** Tools that never touch the page */
+const UNGUARDED_TOOLS = new Set(["escalate", "get_url"])
+
+/** Guarded calls running per page (steps running side by side each have their own) */
+const guarding = new WeakMap<Page, number>()
+
+/** True while a guarded tool runs on `page`; the regression watch waits for the guard's verdict */
+export function isGuardingNavigation(page: Page): boolean {
+  return (guarding.get(page) ?? 0) > 0
+}
+
+/** Calls that are supposed to move the page */
+export function mayNavigate(name: string, args: unknown): boolean {
+  if (name === "enter_code") return true
+  return name === "scan_page_for_code" && (args as { navigate?: unknown } | null)?.navigate === true
+}
+
+/** A move solving the step makes: to the next step, or to the completion page */
+function isAdvance(step: number, url: string): boolean {
+  const to = parseStepUrl(url)?.step
+  if (to !== undefined) return to === step + 1
+  return /complete|congratulations/i.test(url)
+}
+
+/** Route the app back to `before`; true once the page is on that step again */
+async function revertRoute(page: Page, before: string, version: string): Promise<boolean> {
+  const target = parseStepUrl(before)
+  if (!target) return false
+  await page
+    .evaluate((url: string) => {
+      history.pushState(null, "", url)
+      window.dispatchEvent(new PopStateEvent("popstate"))
+    }, before)
+    .catch(() => {})
+  await page.waitForTimeout(500)
+  if (parseStepUrl(page.url())?.step === target.step) return true
+  await jumpToStep(page, target.baseUrl, target.step, target.version ?? version)
+  return parseStepUrl(page.url())?.step === target.step
+}
+
+async function runGuarded(
+  page: Page,
+  before: string,
+  step: number,
+  version: string,
+  run: () => Promise<ToolResult<unknown>>,
+): Promise<ToolResult<unknown>> {
+  const blocked: BlockedNavigation[] = []
+  const onRoute = (route: Route) => {
+    const request = route.request()
+    if (request.isNavigationRequest() && request.frame() === page.mainFrame() && !isAdvance(step, request.url())) {
+      blocked.push({ kind: "navigation", url: request.url(), reverted: true })
+      return route.abort("blockedbyclient")
+    }
+    return route.fallback()
+  }
+
+  guarding.set(page, (guarding.get(page) ?? 0) + 1)
+  try {
+    await page.route("**/*", onRoute)
+    let result: ToolResult<unknown>
+    try {
+      result = await run()
+    } finally {
+      await page.unroute("**/*", onRoute).catch(() => {})
+    }
+    const after = page.isClosed() ? before : page.url()
+    if (parseStepUrl(after)?.step !== step && !isAdvance(step, after)) {
+      blocked.push({ kind: "route", url: after, reverted: await revertRoute(page, before, version).catch(() => false) })
+    }
+    return blocked.length > 0 ? { ...result, blockedNavigation: blocked } : result
+  } finally {
+    guarding.set(page, (guarding.get(page) ?? 1) - 1)
+  }
+}
+
+/**
+ * Put the guard around each page tool. Wrap the tools themselves, inside any
+ * recording/replay wrappers, so recordings keep `blockedNavigation` and
+ * replays never touch the browser. `version` is the challenge version the
+ * attempt runs (a matrix pair's own), for reverting to a step URL that
+ * doesn't carry one.
+ */
+export function withNavigationGuard<T extends ExecutableTool>(tools: T[], version: string): T[] {
+  return tools.map((tool) => {
+    if (!tool.execute || UNGUARDED_TOOLS.has(tool.name)) return tool
+    const execute = tool.execute
+    return {
+      ...tool,
+      execute: async (args: unknown, context?: ToolCallContext): Promise<ToolResult<unknown>> => {
+        if (mayNavigate(tool.name, args)) return toolResultOf(execute(args, context))
+        const page = await browserFor(context).page()
+        const before = page.url()
+        const at = parseStepUrl(before)
+        // Nothing to guard until a step page is open
+        if (!at) return toolResultOf(execute(args, context))
+        return runGuarded(page, before, at.step, version, () => toolResultOf(execute(args, context)))
+      },
+    }
+  })
+}
@@ -0,0 +1,59 @@
+/**
+ * DOM features of the open challenge page, for the orchestrator's challenge
+ * classifier (orchestrator/classifier.ts). Read-only: nothing is clicked,
+ * scrolled or dismissed.
+ */
+import type { Page } from "playwright"
+
+export interface PageFeatures {
+  url: string
+  /** Visible text, trimmed to the first few thousand characters */
+  bodyText: string
+  canvases: number
+  /** Elements with draggable="true" */
+  draggables: number
+  iframes: number
+  /** Elements with an open shadow root */
+  shadowHosts: number
+  /** [role="tab"] elements */
+  tabs: number
+  /** Form fields besides the code input */
+  formFields: number
+  /** Button labels, lowercased */
+  buttons: string[]
+}
+
+const BODY_TEXT_LIMIT = 4000
+
+/** Null when no challenge page is open yet (fresh browser, about:blank). */
+export async function readPageFeatures(page: Page): Promise<PageFeatures | null> {
+  const url = page.url()
+  if (!url || url === "about:blank") return null
+  await page.waitForLoadState("domcontentloaded", { timeout: 5000 }).catch(() => {})
+
+  const features = await page.evaluate((limit: number) => {
+    const all = Array.from(document.querySelectorAll("*"))
+    const fields = Array.from(document.querySelectorAll("input, select, textarea")).filter((el) => {
+      const input = el as HTMLInputElement
+      if (input.type === "hidden") return false
+      // The code input itself is on every step
+      const hint = `${input.placeholder || ""} ${input.name || ""} ${input.id || ""}`.toLowerCase()
+      return !hint.includes("code")
+    })
+    return {
+      bodyText: (document.body?.innerText || "").slice(0, limit),
+      canvases: document.querySelectorAll("canvas").length,
+      draggables: document.querySelectorAll('[draggable="true"]').length,
+      iframes: document.querySelectorAll("iframe").length,
+      shadowHosts: all.filter((el) => !!el.shadowRoot).length,
+      tabs: document.querySelectorAll('[role="tab"]').length,
+      formFields: fields.length,
+      buttons: Array.from(document.querySelectorAll("button"))
+        .map((b) => (b.innerText || "").trim().toLowerCase())
+        .filter(Boolean)
+        .slice(0, 40),
+    }
+  }, BODY_TEXT_LIMIT)
+
+  return { url, ...features }
+}
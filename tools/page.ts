@@ -5,7 +5,9 @@
  */
 import { toolDefinition } from "@tanstack/ai"
 import { z } from "zod"
-import { getPage } from "./browser"
+import { browserFor } from "./browser"
+import { abortableWait } from "./cancel"
+import { fail, ok, type PageActionResult, type ToolResult } from "./types"
 
 // --- click_element ---
 
@@ -19,19 +21,19 @@ const clickElementDef = toolDefinition({
   }),
 })
 
-export const clickElement = clickElementDef.server(async (args) => {
-  const page = await getPage()
+export const clickElement = clickElementDef.server(async (args, context): Promise<ToolResult<PageActionResult>> => {
+  const page = await browserFor(context).page()
   try {
     if (args.selector) {
       await page.click(args.selector, { timeout: 5000 })
-      return JSON.stringify({ result: `Clicked: ${args.selector}` })
+      return ok({ output: `Clicked: ${args.selector}` })
     } else if (args.text) {
       await page.getByText(args.text, { exact: false }).first().click({ timeout: 5000 })
-      return JSON.stringify({ result: `Clicked text: ${args.text}` })
+      return ok({ output: `Clicked text: ${args.text}` })
     }
-    return JSON.stringify({ error: "provide selector or text" })
+    return fail("provide selector or text", { output: "" })
   } catch (e: any) {
-    return JSON.stringify({ error: e.message })
+    return fail(e.message, { output: "" })
   }
 })
 
@@ -46,8 +48,8 @@ const getPageHtmlDef = toolDefinition({
   }),
 })
 
-export const getPageHtml = getPageHtmlDef.server(async (args) => {
-  const page = await getPage()
+export const getPageHtml = getPageHtmlDef.server(async (args, context): Promise<ToolResult<PageActionResult>> => {
+  const page = await browserFor(context).page()
   const html = await page.content()
 
   if (args.pattern) {
@@ -59,8 +61,8 @@ export const getPageHtml = getPageHtmlDef.server(async (args) => {
       const end = Math.min(html.length, m.index + m[0].length + 80)
       matches.push(html.substring(start, end).replace(/\n/g, " ").trim())
     }
-    if (matches.length === 0) return JSON.stringify({ output: `No matches for pattern: ${args.pattern}` })
-    return JSON.stringify({ output: matches.map((m, i) => `[${i + 1}] ...${m}...`).join("\n") })
+    if (matches.length === 0) return ok({ output: `No matches for pattern: ${args.pattern}` })
+    return ok({ output: matches.map((m, i) => `[${i + 1}] ...${m}...`).join("\n") })
   }
 
   // No pattern: extract interesting parts
@@ -105,8 +107,8 @@ export const getPageHtml = getPageHtmlDef.server(async (args) => {
     }
   }
 
-  if (parts.length === 0) return JSON.stringify({ output: "No interesting patterns found in raw HTML." })
-  return JSON.stringify({ output: parts.join("\n\n").substring(0, 4000) })
+  if (parts.length === 0) return ok({ output: "No interesting patterns found in raw HTML." })
+  return ok({ output: parts.join("\n\n").substring(0, 4000) })
 })
 
 // --- press_key ---
@@ -119,13 +121,13 @@ const pressKeyDef = toolDefinition({
   }),
 })
 
-export const pressKey = pressKeyDef.server(async (args) => {
-  const page = await getPage()
+export const pressKey = pressKeyDef.server(async (args, context): Promise<ToolResult<PageActionResult>> => {
+  const page = await browserFor(context).page()
   try {
     await page.keyboard.press(args.key)
-    return JSON.stringify({ result: `Pressed: ${args.key}` })
+    return ok({ output: `Pressed: ${args.key}` })
   } catch (e: any) {
-    return JSON.stringify({ error: e.message })
+    return fail(e.message, { output: "" })
   }
 })
 
@@ -142,8 +144,8 @@ const scrollDef = toolDefinition({
   }),
 })
 
-export const scroll = scrollDef.server(async (args) => {
-  const page = await getPage()
+export const scroll = scrollDef.server(async (args, context): Promise<ToolResult<PageActionResult>> => {
+  const page = await browserFor(context).page()
 
   if (args.selector) {
     try {
@@ -153,9 +155,9 @@ export const scroll = scrollDef.server(async (args) => {
         y: window.scrollY,
         max: document.documentElement.scrollHeight - window.innerHeight,
       }))
-      return JSON.stringify({ result: `Scrolled to "${args.selector}". Position: ${pos.y}px / ${pos.max}px` })
+      return ok({ output: `Scrolled to "${args.selector}". Position: ${pos.y}px / ${pos.max}px` })
     } catch (e: any) {
-      return JSON.stringify({ error: `scrolling to selector: ${e.message}` })
+      return fail(`scrolling to selector: ${e.message}`, { output: "" })
     }
   }
 
@@ -166,7 +168,7 @@ export const scroll = scrollDef.server(async (args) => {
       y: window.scrollY,
       max: document.documentElement.scrollHeight - window.innerHeight,
     }))
-    return JSON.stringify({ result: `Scrolled to bottom. Position: ${pos.y}px / ${pos.max}px` })
+    return ok({ output: `Scrolled to bottom. Position: ${pos.y}px / ${pos.max}px` })
   }
 
   const amount = args.pixels ?? 500
@@ -176,7 +178,7 @@ export const scroll = scrollDef.server(async (args) => {
     y: window.scrollY,
     max: document.documentElement.scrollHeight - window.innerHeight,
   }))
-  return JSON.stringify({ result: `Scrolled ${amount}px. Position: ${pos.y}px / ${pos.max}px` })
+  return ok({ output: `Scrolled ${amount}px. Position: ${pos.y}px / ${pos.max}px` })
 })
 
 // --- evaluate_js ---
@@ -192,23 +194,21 @@ const evaluateJsDef = toolDefinition({
   }),
 })
 
-export const evaluateJs = evaluateJsDef.server(async (args) => {
-  const page = await getPage()
-  const debug = process.env.OPENCODE_DEBUG_TOOL_INPUTS === "true"
-  const debugCode = debug ? args.code : undefined
+export const evaluateJs = evaluateJsDef.server(async (args, context): Promise<ToolResult<PageActionResult>> => {
+  const page = await browserFor(context).page()
   try {
     const result = await page.evaluate(args.code)
     if (result === undefined || result === null) {
-      return JSON.stringify({ result: "null/undefined", ...(debugCode && { debugCode }) })
+      return ok({ output: "null/undefined" })
     }
     const str = typeof result === "string" ? result : JSON.stringify(result, null, 2)
-    return JSON.stringify({ result: str, ...(debugCode && { debugCode }) })
+    return ok({ output: str })
   } catch (e: any) {
     const msg = e?.message || String(e)
     if (msg.includes("await is only valid") || msg.includes("Unexpected reserved word")) {
-      return JSON.stringify({ error: msg, hint: "top-level await isn't supported. Wrap async code like (async () => { /* await ... */ return value })().", ...(debugCode && { debugCode }) })
+      return fail(msg, { output: "" }, "top-level await isn't supported. Wrap async code like (async () => { /* await ... */ return value })().")
     }
-    return JSON.stringify({ error: msg, ...(debugCode && { debugCode }) })
+    return fail(msg, { output: "" })
   }
 })
 
@@ -226,22 +226,22 @@ const selectOptionDef = toolDefinition({
   }),
 })
 
-export const selectOption = selectOptionDef.server(async (args) => {
-  const page = await getPage()
+export const selectOption = selectOptionDef.server(async (args, context): Promise<ToolResult<PageActionResult>> => {
+  const page = await browserFor(context).page()
   try {
     if (args.value !== undefined) {
       await page.selectOption(args.selector, { value: args.value })
-      return JSON.stringify({ result: `Selected value "${args.value}" in ${args.selector}` })
+      return ok({ output: `Selected value "${args.value}" in ${args.selector}` })
     } else if (args.label !== undefined) {
       await page.selectOption(args.selector, { label: args.label })
-      return JSON.stringify({ result: `Selected label "${args.label}" in ${args.selector}` })
+      return ok({ output: `Selected label "${args.label}" in ${args.selector}` })
     } else if (args.index !== undefined) {
       await page.selectOption(args.selector, { index: args.index })
-      return JSON.stringify({ result: `Selected index ${args.index} in ${args.selector}` })
+      return ok({ output: `Selected index ${args.index} in ${args.selector}` })
     }
-    return JSON.stringify({ error: "provide value, label, or index" })
+    return fail("provide value, label, or index", { output: "" })
   } catch (e: any) {
-    return JSON.stringify({ error: e.message })
+    return fail(e.message, { output: "" })
   }
 })
 
@@ -256,18 +256,18 @@ const checkCheckboxDef = toolDefinition({
   }),
 })
 
-export const checkCheckbox = checkCheckboxDef.server(async (args) => {
-  const page = await getPage()
+export const checkCheckbox = checkCheckboxDef.server(async (args, context): Promise<ToolResult<PageActionResult>> => {
+  const page = await browserFor(context).page()
   try {
     if (args.checked === false) {
       await page.uncheck(args.selector, { timeout: 3000 })
-      return JSON.stringify({ result: `Unchecked: ${args.selector}` })
+      return ok({ output: `Unchecked: ${args.selector}` })
     } else {
       await page.check(args.selector, { timeout: 3000 })
-      return JSON.stringify({ result: `Checked: ${args.selector}` })
+      return ok({ output: `Checked: ${args.selector}` })
     }
   } catch (e: any) {
-    return JSON.stringify({ error: e.message })
+    return fail(e.message, { output: "" })
   }
 })
 
@@ -282,19 +282,19 @@ const hoverDef = toolDefinition({
   }),
 })
 
-export const hover = hoverDef.server(async (args) => {
-  const page = await getPage()
+export const hover = hoverDef.server(async (args, context): Promise<ToolResult<PageActionResult>> => {
+  const page = await browserFor(context).page()
   try {
     if (args.selector) {
       await page.hover(args.selector, { timeout: 5000 })
-      return JSON.stringify({ result: `Hovered: ${args.selector}` })
+      return ok({ output: `Hovered: ${args.selector}` })
     } else if (args.text) {
       await page.getByText(args.text, { exact: false }).first().hover({ timeout: 5000 })
-      return JSON.stringify({ result: `Hovered text: ${args.text}` })
+      return ok({ output: `Hovered text: ${args.text}` })
     }
-    return JSON.stringify({ error: "provide selector or text" })
+    return fail("provide selector or text", { output: "" })
   } catch (e: any) {
-    return JSON.stringify({ error: e.message })
+    return fail(e.message, { output: "" })
   }
 })
 
@@ -324,11 +324,17 @@ const multiActionDef = toolDefinition({
   }),
 })
 
-export const multiAction = multiActionDef.server(async (args) => {
-  const page = await getPage()
+export const multiAction = multiActionDef.server(async (args, context): Promise<ToolResult<PageActionResult>> => {
+  const page = await browserFor(context).page()
+  const signal = context?.abortSignal
   const results: string[] = []
 
   for (const action of args.actions || []) {
+    // Cancelled (attempt ended or tool timeout): skip the remaining actions
+    if (signal?.aborted) {
+      results.push("aborted")
+      break
+    }
     try {
       switch (action.type) {
         case "click": {
@@ -438,7 +444,7 @@ export const multiAction = multiActionDef.server(async (args) => {
         }
         case "wait": {
           const ms = action.waitMs ?? 500
-          await page.waitForTimeout(ms)
+          await abortableWait(page, ms, signal)
           results.push(`wait:${ms}ms`)
           break
         }
@@ -447,12 +453,12 @@ export const multiAction = multiActionDef.server(async (args) => {
       }
 
       if (action.waitMs && action.type !== "wait") {
-        await page.waitForTimeout(action.waitMs)
+        await abortableWait(page, action.waitMs, signal)
       }
     } catch (e: any) {
       results.push(`error:${action.type}:${e.message}`)
     }
   }
 
-  return JSON.stringify({ result: results.join(" | ") })
+  return ok({ output: results.join(" | ") })
 })
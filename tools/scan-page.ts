@@ -5,13 +5,16 @@
  * Auto-detects common challenge patterns (scroll, wait, click reveal, click N times, hover)
  * and executes them automatically before returning results.
  *
- * Returns: page content, found codes, auto-actions taken, and current URL.
+ * Returns a ScanResult: page content, found codes, auto-actions taken, and current URL.
  */
 import { toolDefinition } from "@tanstack/ai"
 import { z } from "zod"
 import { NodeHtmlMarkdown } from "node-html-markdown"
-import { getPage } from "./browser"
+import { browserFor } from "./browser"
+import { abortableWait, throwIfAborted, type ToolCallContext } from "./cancel"
 import { dismissPopups } from "./dismiss-helper"
+import { jumpToStep, parseStepUrl } from "./step-nav"
+import { ok, type AutoAction, type CodeCandidate, type ScanResult, type ToolResult } from "./types"
 
 // Blacklist of data-* attribute names that are never codes
 const DATA_ATTR_BLACKLIST = new Set([
@@ -33,9 +36,9 @@ const VALUE_BLACKLIST = new Set([
 ])
 
 /** Scan page for code candidates */
-async function scanForCodes(page: any): Promise<Array<{ src: string; val: string }>> {
+async function scanForCodes(page: any): Promise<CodeCandidate[]> {
   const codes = await page.evaluate((bl: { attrs: string[]; vals: string[] }) => {
-    const found: Array<{ src: string; val: string }> = []
+    const found: CodeCandidate[] = []
     const seen = new Set<string>()
     const attrBL = new Set(bl.attrs)
     const valBL = new Set(bl.vals)
@@ -163,12 +166,7 @@ async function readPage(page: any): Promise<{ url: string; title: string; markdo
 
 // --- Auto-solve patterns ---
 
-interface AutoAction {
-  type: string
-  detail: string
-}
-
-async function autoSolve(page: any, bodyText: string): Promise<AutoAction[]> {
+async function autoSolve(page: any, bodyText: string, signal?: AbortSignal): Promise<AutoAction[]> {
   const actions: AutoAction[] = []
   const lower = bodyText.toLowerCase()
 
@@ -180,14 +178,14 @@ async function autoSolve(page: any, bodyText: string): Promise<AutoAction[]> {
     const target = parseInt(scrollProgressMatch[2], 10)
     if (current !== target && target > 0 && target <= 10000) {
       await page.evaluate((px: number) => window.scrollTo(0, px), target)
-      await page.waitForTimeout(500)
+      await abortableWait(page, 500, signal)
       actions.push({ type: "scroll", detail: `to ${target}px (was ${current}px)` })
     }
   } else if (scrollInstructionMatch) {
     const target = parseInt(scrollInstructionMatch[1], 10)
     if (target > 0 && target <= 10000) {
       await page.evaluate((px: number) => window.scrollTo(0, px), target)
-      await page.waitForTimeout(500)
+      await abortableWait(page, 500, signal)
       actions.push({ type: "scroll", detail: `to ${target}px` })
     }
   }
@@ -197,7 +195,7 @@ async function autoSolve(page: any, bodyText: string): Promise<AutoAction[]> {
   if (waitMatch) {
     const waitSec = parseInt(waitMatch[1], 10)
     if (waitSec > 0 && waitSec <= 30) {
-      await page.waitForTimeout(waitSec * 1000 + 500) // +500ms buffer
+      await abortableWait(page, waitSec * 1000 + 500, signal) // +500ms buffer
       actions.push({ type: "wait", detail: `${waitSec}s` })
     }
   }
@@ -224,7 +222,7 @@ async function autoSolve(page: any, bodyText: string): Promise<AutoAction[]> {
     return null
   })
   if (revealClicked) {
-    await page.waitForTimeout(800)
+    await abortableWait(page, 800, signal)
     actions.push({ type: "click-reveal", detail: revealClicked })
   }
 
@@ -265,7 +263,7 @@ async function autoSolve(page: any, bodyText: string): Promise<AutoAction[]> {
         return 0
       }, n)
       if (clicked > 0) {
-        await page.waitForTimeout(500)
+        await abortableWait(page, 500, signal)
         actions.push({ type: "click-n", detail: `${clicked} times` })
       }
     }
@@ -293,7 +291,7 @@ async function autoSolve(page: any, bodyText: string): Promise<AutoAction[]> {
     if (hoverTarget) {
       try {
         await page.hover(hoverTarget, { timeout: 2000 })
-        await page.waitForTimeout(800)
+        await abortableWait(page, 800, signal)
         actions.push({ type: "hover", detail: hoverTarget })
       } catch {}
     }
@@ -304,61 +302,53 @@ async function autoSolve(page: any, bodyText: string): Promise<AutoAction[]> {
 
 // --- Tool definition ---
 
+const scanPageInput = z.object({
+  url: z.string().optional().describe("URL to navigate to before scanning. Navigation only occurs if navigate=true."),
+  version: z.string().optional().describe("Optional version query param (used for step routes)."),
+  navigate: z.boolean().optional().describe("Set true to allow Playwright navigation to url."),
+  noAuto: z.boolean().optional().describe("Set true to skip auto-solve (just read + scan)."),
+})
+
+export type ScanPageArgs = z.infer<typeof scanPageInput>
+
 const scanPageDef = toolDefinition({
   name: "scan_page_for_code",
   description:
     "ALL-IN-ONE: Dismiss popups, read page, scan for codes, AND auto-solve common patterns (scroll, wait, click reveal, click N times, hover). Use as FIRST tool call on every challenge.",
-  inputSchema: z.object({
-    url: z.string().optional().describe("URL to navigate to before scanning. Navigation only occurs if navigate=true."),
-    version: z.string().optional().describe("Optional version query param (used for step routes)."),
-    navigate: z.boolean().optional().describe("Set true to allow Playwright navigation to url."),
-    noAuto: z.boolean().optional().describe("Set true to skip auto-solve (just read + scan)."),
-  }),
+  inputSchema: scanPageInput,
 })
 
-export const scanPageForCode = scanPageDef.server(async (args) => {
-  const page = await getPage()
+/** scan_page_for_code as a plain function, for the orchestrator's own calls outside chat() */
+export async function scanPage(args: ScanPageArgs, context?: ToolCallContext): Promise<ToolResult<ScanResult>> {
+  const page = await browserFor(context).page()
+  const signal = context?.abortSignal
 
   // Navigate only when explicitly allowed (avoid losing in-page progress)
   const rawUrl = args.url?.trim()
   const hasUrl = !!rawUrl && rawUrl.toLowerCase() !== "placeholder"
-  let requestedStep: number | null = null
-  let requestedVersion: string | null = null
-  let baseUrl: string | null = null
-
   const overrideVersion = args.version?.trim()
-
-  if (hasUrl) {
-    try {
-      const urlObj = new URL(rawUrl!)
-      const stepMatch = urlObj.pathname.match(/\/step(\d+)/)
-      if (stepMatch) {
-        requestedStep = parseInt(stepMatch[1], 10)
-        requestedVersion =
-          overrideVersion || urlObj.searchParams.get("version") || "2"
-        baseUrl = `${urlObj.origin}/`
-      }
-    } catch {}
-  }
+  const stepTarget = hasUrl ? parseStepUrl(rawUrl!) : null
 
   if (args.navigate && hasUrl) {
-    let targetUrl = requestedStep && baseUrl ? baseUrl : rawUrl!
-    if (!requestedStep && overrideVersion) {
-      try {
-        const targetObj = new URL(targetUrl)
-        if (!targetObj.searchParams.has("version")) {
-          targetObj.searchParams.set("version", overrideVersion)
-        }
-        targetUrl = targetObj.toString()
-      } catch {}
-    }
-    const currentUrl = page.url()
-    if (currentUrl !== targetUrl) {
-      await page.goto(targetUrl, { waitUntil: "domcontentloaded", timeout: 15000 })
-      await page.waitForTimeout(1500)
-    }
+    if (stepTarget) {
+      await jumpToStep(page, stepTarget.baseUrl, stepTarget.step, overrideVersion || stepTarget.version || "2")
+    } else {
+      let targetUrl = rawUrl!
+      if (overrideVersion) {
+        try {
+          const targetObj = new URL(targetUrl)
+          if (!targetObj.searchParams.has("version")) {
+            targetObj.searchParams.set("version", overrideVersion)
+          }
+          targetUrl = targetObj.toString()
+        } catch {}
+      }
+      const currentUrl = page.url()
+      if (currentUrl !== targetUrl) {
+        await page.goto(targetUrl, { waitUntil: "domcontentloaded", timeout: 15000 })
+        await page.waitForTimeout(1500)
+      }
 
-    if (!requestedStep) {
       // Click START button if present
       try {
         const startBtn = page.locator('button:has-text("START")')
@@ -367,23 +357,6 @@ export const scanPageForCode = scanPageDef.server(async (args) => {
           await page.waitForTimeout(1500)
         }
       } catch {}
-    } else if (requestedVersion) {
-      // Client-side jump to step after React is ready
-      await page.waitForTimeout(1000)
-      await page.evaluate(
-        ({ step, version }: { step: number; version: string }) => {
-          const jump = (window as any).jumpTo
-          if (typeof jump === "function") {
-            jump(step)
-            return
-          }
-          const path = `/step${step}?version=${version}`
-          history.pushState(null, "", path)
-          window.dispatchEvent(new PopStateEvent("popstate"))
-        },
-        { step: requestedStep, version: requestedVersion },
-      )
-      await page.waitForTimeout(1200)
     }
   }
 
@@ -397,10 +370,12 @@ export const scanPageForCode = scanPageDef.server(async (args) => {
   // 4. Auto-solve common patterns
   let autoActions: AutoAction[] = []
   if (!args.noAuto) {
-    autoActions = await autoSolve(page, content.bodyText)
+    throwIfAborted(signal)
+    autoActions = await autoSolve(page, content.bodyText, signal)
 
     // If we took any auto-actions, re-scan for codes
     if (autoActions.length > 0) {
+      throwIfAborted(signal)
       await dismissPopups(page)
       content = await readPage(page)
       codes = await scanForCodes(page)
@@ -410,39 +385,17 @@ export const scanPageForCode = scanPageDef.server(async (args) => {
   // 5. Detect if this is a completion/congratulations page
   const lowerBody = content.bodyText.toLowerCase()
   const isCompletion = /congratulations|you\s+(did\s+it|completed|finished|won)|all\s+challenges?\s+(completed|done|solved)/.test(lowerBody)
-  if (isCompletion) {
-    return JSON.stringify({
-      url: content.url,
-      status: "COMPLETED",
-      message: "All challenges finished!",
-      pageContent: content.markdown.substring(0, 2000),
-    })
-  }
-
-  // 6. Build compact output
-  const parts: string[] = []
-  parts.push(`URL: ${content.url}`)
-  if (dismissed > 0) parts.push(`Popups dismissed: ${dismissed}`)
 
-  if (autoActions.length > 0) {
-    parts.push(`Auto: ${autoActions.map(a => `${a.type}(${a.detail})`).join(", ")}`)
-  }
-
-  if (codes.length > 0) {
-    parts.push(`\nCODE CANDIDATES:`)
-    codes.slice(0, 10).forEach((c) => parts.push(`  [${c.src}] ${c.val}`))
-  } else {
-    parts.push(`\nNo code candidates found.`)
-  }
-
-  // Always include page content — model needs it to figure out interactions when auto-solve misses
-  // But trim more aggressively if we found a strong code candidate
-  const hasStrongCode = codes.some(c =>
-    c.src.startsWith("el:code") || c.src.startsWith("el:kbd") || c.src.startsWith("el:mark") ||
-    c.src === "pattern" || c.src.startsWith("el:[data-code") || c.src.startsWith("el:[data-secret") ||
-    c.src.startsWith("el:[data-answer")
-  )
-  parts.push(`\nPAGE CONTENT:\n${hasStrongCode ? content.markdown.substring(0, 2000) : content.markdown.substring(0, 6000)}`)
+  return ok({
+    url: content.url,
+    title: content.title,
+    codes,
+    autoActions,
+    popupsDismissed: dismissed,
+    markdown: content.markdown,
+    bodyText: content.bodyText,
+    isCompletion,
+  })
+}
 
-  return JSON.stringify({ output: parts.join("\n") })
-})
+export const scanPageForCode = scanPageDef.server(scanPage)
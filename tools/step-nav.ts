@@ -0,0 +1,61 @@
+/**
+ * Direct navigation to a challenge step.
+ *
+ * The challenge site routes client-side, so /stepN can't simply be loaded:
+ * open the base URL, wait for the app to boot, then route with the app's own
+ * window.jumpTo (or pushState + popstate when jumpTo isn't exposed).
+ * Used by scan_page_for_code (navigate=true with a step URL) and by the
+ * orchestrator when resuming a run or recovering from a regression.
+ */
+import type { Page } from "playwright"
+
+/** Split a /stepN?version=V URL into base URL, step and version. Null for non-step URLs. */
+export function parseStepUrl(url: string): { baseUrl: string; step: number; version: string | null } | null {
+  try {
+    const urlObj = new URL(url)
+    const stepMatch = urlObj.pathname.match(/\/step(\d+)/)
+    if (!stepMatch) return null
+    return {
+      baseUrl: `${urlObj.origin}/`,
+      step: parseInt(stepMatch[1], 10),
+      version: urlObj.searchParams.get("version"),
+    }
+  } catch {
+    return null
+  }
+}
+
+export async function jumpToStep(page: Page, baseUrl: string, step: number, version: string): Promise<void> {
+  if (page.url() !== baseUrl) {
+    await page.goto(baseUrl, { waitUntil: "domcontentloaded", timeout: 15000 })
+    await page.waitForTimeout(1500)
+  }
+
+  // Client-side jump to step after React is ready
+  await page.waitForTimeout(1000)
+  await page.evaluate(
+    ({ step, version }: { step: number; version: string }) => {
+      const jump = (window as any).jumpTo
+      if (typeof jump === "function") {
+        jump(step)
+        return
+      }
+      const path = `/step${step}?version=${version}`
+      history.pushState(null, "", path)
+      window.dispatchEvent(new PopStateEvent("popstate"))
+    },
+    { step, version },
+  )
+  await page.waitForTimeout(1200)
+}
+
+/**
+ * Jump back to `step` after the site regressed to an earlier one. False when
+ * the site rejects the jump, i.e. the page doesn't stay on the step.
+ */
+export async function restoreStep(page: Page, baseUrl: string, step: number, version: string): Promise<boolean> {
+  await jumpToStep(page, baseUrl, step, version)
+  // A site that guards its routes bounces the jump back shortly after
+  await page.waitForTimeout(800)
+  return parseStepUrl(page.url())?.step === step
+}
@@ -0,0 +1,103 @@
+/**
+ * Step snapshots: the page state at the start of a step, and a way back to it.
+ *
+ * A failed attempt can leave the step page half-mutated (wrong drag pairs,
+ * clicked decoys, popups moved offscreen by dismissPopups). The orchestrator
+ * captures a snapshot when a step starts and rewinds to it before every retry,
+ * so each attempt on the ladder sees the same clean step page.
+ *
+ * A snapshot holds the step URL, the context's cookies and the origin's
+ * localStorage/sessionStorage. A step opened in a fresh browser context has
+ * no page to capture before its first attempt; its snapshot is the bare
+ * recipe (empty storage, jump to the step), which is what that attempt saw.
+ *
+ * Rewinding reloads the app from its base URL, writes the storage back,
+ * reloads again so the app boots from it, and routes to the step with
+ * jumpToStep — a plain reload of /stepN isn't enough, the site routes
+ * client-side.
+ */
+import type { Cookie, Page } from "playwright"
+import { jumpToStep, parseStepUrl } from "./step-nav"
+
+export interface StepSnapshot {
+  url: string
+  baseUrl: string
+  step: number
+  version: string
+  cookies: Cookie[]
+  localStorage: Record<string, string>
+  sessionStorage: Record<string, string>
+  takenAt: number
+}
+
+/** Null when the page isn't on a step URL (nothing to rewind to). */
+export async function captureStepSnapshot(page: Page): Promise<StepSnapshot | null> {
+  const url = page.url()
+  const parsed = parseStepUrl(url)
+  if (!parsed) return null
+
+  const storage = await page.evaluate(() => {
+    const dump = (s: Storage) => {
+      const out: Record<string, string> = {}
+      for (let i = 0; i < s.length; i++) {
+        const key = s.key(i)
+        if (key !== null) out[key] = s.getItem(key) ?? ""
+      }
+      return out
+    }
+    return { localStorage: dump(window.localStorage), sessionStorage: dump(window.sessionStorage) }
+  })
+
+  return {
+    url,
+    baseUrl: parsed.baseUrl,
+    step: parsed.step,
+    version: parsed.version ?? "",
+    cookies: await page.context().cookies(),
+    ...storage,
+    takenAt: Date.now(),
+  }
+}
+
+/**
+ * Snapshot of a step opened in a fresh browser context: no cookies or
+ * storage, only the route. Null for non-step URLs.
+ */
+export function freshStepSnapshot(url: string): StepSnapshot | null {
+  const parsed = parseStepUrl(url)
+  if (!parsed) return null
+  return {
+    url,
+    baseUrl: parsed.baseUrl,
+    step: parsed.step,
+    version: parsed.version ?? "",
+    cookies: [],
+    localStorage: {},
+    sessionStorage: {},
+    takenAt: Date.now(),
+  }
+}
+
+/** Put the page back into the snapshot's state. Returns the URL the page ended on. */
+export async function restoreStepSnapshot(page: Page, snapshot: StepSnapshot): Promise<string> {
+  const context = page.context()
+  await context.clearCookies()
+  if (snapshot.cookies.length > 0) await context.addCookies(snapshot.cookies)
+
+  // Storage is per-origin, so it can only be written once the app's origin is loaded
+  await page.goto(snapshot.baseUrl, { waitUntil: "domcontentloaded", timeout: 15000 })
+  await page.evaluate(
+    ({ local, session }: { local: Record<string, string>; session: Record<string, string> }) => {
+      window.localStorage.clear()
+      window.sessionStorage.clear()
+      for (const [key, value] of Object.entries(local)) window.localStorage.setItem(key, value)
+      for (const [key, value] of Object.entries(session)) window.sessionStorage.setItem(key, value)
+    },
+    { local: snapshot.localStorage, session: snapshot.sessionStorage },
+  )
+  await page.reload({ waitUntil: "domcontentloaded", timeout: 15000 })
+  await page.waitForTimeout(1500)
+
+  await jumpToStep(page, snapshot.baseUrl, snapshot.step, snapshot.version)
+  return page.url()
+}
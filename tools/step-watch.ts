@@ -0,0 +1,50 @@
+/**
+ * Regression watch for a running attempt.
+ *
+ * Decoy buttons send the challenge site back to an earlier step, and nothing
+ * tells the model until its next scan. The watch follows main-frame
+ * navigations (client-side route changes included) and polls the URL as a
+ * fallback, and reports the first step URL below `step` — once. Route changes
+ * the navigation guard (./nav-guard) is about to revert are not regressions.
+ */
+import type { Frame, Page } from "playwright"
+import { isGuardingNavigation } from "./nav-guard"
+import { parseStepUrl } from "./step-nav"
+
+export interface StepWatch {
+  /** URL of the earlier step the page went to, once it has */
+  readonly regressedTo: string | null
+  stop(): void
+}
+
+const POLL_MS = 500
+
+export function watchForRegression(page: Page, step: number, onRegress: (url: string) => void): StepWatch {
+  let regressedTo: string | null = null
+  const check = (url: string) => {
+    // The navigation guard reverts route changes made by a page tool; the poll rechecks after it
+    if (regressedTo || isGuardingNavigation(page)) return
+    const at = parseStepUrl(url)?.step
+    if (at === undefined || at >= step) return
+    regressedTo = url
+    onRegress(url)
+  }
+
+  const onNavigated = (frame: Frame) => {
+    if (frame === page.mainFrame()) check(frame.url())
+  }
+  page.on("framenavigated", onNavigated)
+  const poll = setInterval(() => {
+    if (!page.isClosed()) check(page.url())
+  }, POLL_MS)
+
+  return {
+    get regressedTo() {
+      return regressedTo
+    },
+    stop() {
+      page.off("framenavigated", onNavigated)
+      clearInterval(poll)
+    },
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Tool result protocol.
+ *
+ * Every tool returns a ToolResult<T> object instead of a string. The dispatch
+ * layer (./index.ts) serializes it into the text the model sees and hands
+ * the object itself to the orchestrator, which reads fields like
+ * `afterUrl` or `isCompletion` directly instead of parsing output text.
+ */
+import type { ToolCallContext } from "./cancel"
+
+/**
+ * Minimal structural type for TanStack server tools, as the orchestrator's
+ * wrappers (timeouts, policy, navigation guard, recording, formatting) see
+ * them — enough to wrap execute(). TanStack types the result as unknown;
+ * tools return a ToolResult (see toolResultOf()).
+ */
+export interface ExecutableTool {
+  name: string
+  execute?(args: unknown, context?: ToolCallContext): unknown
+}
+
+interface ToolResultFields {
+  error?: string
+  /** Extra guidance for the model when the call failed */
+  hint?: string
+  /** Navigations the guard (./nav-guard) stopped while the tool ran */
+  blockedNavigation?: BlockedNavigation[]
+}
+
+/**
+ * A failed call may carry the tool's data (what enter_code saw after a
+ * rejected code) or none at all, when the call never ran to completion:
+ * blocked by the policy, timed out, or missing from a replay. Readers narrow
+ * on `success` or check `data` before using it.
+ */
+export type ToolResult<T> =
+  | (ToolResultFields & { success: true; data: T })
+  | (ToolResultFields & { success: false; data?: T; error: string })
+
+export interface BlockedNavigation {
+  /** "navigation": a document load, aborted; "route": a client-side route change, reverted afterwards */
+  kind: "navigation" | "route"
+  url: string
+  /** The page is back on the step it was on */
+  reverted: boolean
+}
+
+/** A tool's execute() result, which is a ToolResult by the protocol above */
+export async function toolResultOf(result: unknown): Promise<ToolResult<unknown>> {
+  return (await result) as ToolResult<unknown>
+}
+
+export function ok<T>(data: T): ToolResult<T> {
+  return { success: true, data }
+}
+
+export function fail<T = never>(error: string, data?: T, hint?: string): ToolResult<T> {
+  return { success: false, ...(data !== undefined ? { data } : {}), error, ...(hint ? { hint } : {}) }
+}
+
+export interface CodeCandidate {
+  /** Where it was found, e.g. "el:code", "attr:data-secret", "pattern", "comment" */
+  src: string
+  val: string
+}
+
+export interface AutoAction {
+  type: string
+  detail: string
+}
+
+export interface ScanResult {
+  url: string
+  title: string
+  codes: CodeCandidate[]
+  autoActions: AutoAction[]
+  popupsDismissed: number
+  markdown: string
+  bodyText: string
+  /** The page is the "all challenges completed" screen */
+  isCompletion: boolean
+}
+
+export interface EnterCodeResult {
+  code: string
+  beforeUrl: string
+  afterUrl: string
+  urlChanged: boolean
+  /** Start of the page text after submitting */
+  feedback: string
+}
+
+export interface PageActionResult {
+  output: string
+}
+
+export interface DragDropResult {
+  /** Strategy that produced the result; null when each pair tried several */
+  strategy: string | null
+  /** One "pair:N:..." entry per drag pair */
+  results: string[]
+  /** Every pair reported success */
+  complete: boolean
+  /** "filled/total" counter shown by the page, when the react strategy found one */
+  filled: string | null
+  revealedCode: string | null
+  sixCharCodes: string[]
+}
+
+export interface EscalateResult {
+  reason: string
+}
+
+export interface UrlResult {
+  url: string
+  title: string
+}
+
+export interface ModalInfo {
+  selector: string
+  textContent: string
+  buttons: Array<{ text: string; selector: string }>
+}
+
+export interface ModalResult {
+  modals: ModalInfo[]
+}
+
+/** Result data type per tool name */
+export interface ToolResultMap {
+  scan_page_for_code: ScanResult
+  enter_code: EnterCodeResult
+  escalate: EscalateResult
+  get_url: UrlResult
+  get_modal_buttons: ModalResult
+  drag_and_drop: DragDropResult
+  page_click_element: PageActionResult
+  page_get_page_html: PageActionResult
+  page_press_key: PageActionResult
+  page_scroll: PageActionResult
+  page_evaluate_js: PageActionResult
+  page_select_option: PageActionResult
+  page_check_checkbox: PageActionResult
+  page_hover: PageActionResult
+  page_multi_action: PageActionResult
+}
+
+export type ToolName = keyof ToolResultMap
+
+/** A tool's result tagged with its name; switching on `name` narrows `result.data` */
+export type NamedToolResult = {
+  [K in ToolName]: { name: K; result: ToolResult<ToolResultMap[K]> }
+}[ToolName]
+
+/** Tag a result with the name of the tool that returned it, which fixes its data type */
+export function namedResult(name: string, result: ToolResult<unknown>): NamedToolResult {
+  return { name, result } as NamedToolResult
+}